@@ -1,30 +1,58 @@
 #!/usr/bin/env node
 /**
  * OGFrame CLI
- * Command-line tool for key management
+ * Command-line tool for key management and cache administration
  */
 
-import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync } from 'fs';
 import { resolve } from 'path';
-import { generateApiKey, hashKey } from './utils/crypto.js';
-import type { KeyConfig, ApiKey, AdminKey } from './types.js';
+import { generateApiKey, generateCacheKey, hashKey } from './utils/crypto.js';
+import { writeFileAtomic } from './utils/fs.js';
+import { validateKeyConfig, lintKeyConfig } from './utils/keyValidation.js';
+import { createSignedUrl, generateSigningSecret } from './utils/signing.js';
+import { formatBytes, parseBytes } from './utils/bytes.js';
+import { parseAgeOrDate, parseDuration, parseIsoDate } from './utils/duration.js';
+import { normalizeUrl } from './utils/url.js';
+import { resolveAllowedSize, getSizeVariant } from './utils/size.js';
+import { getSelectorVariant } from './utils/selector.js';
+import { getResourcesVariant } from './utils/resources.js';
+import { DEFAULT_READY, getReadyVariant } from './utils/readiness.js';
+import { logger } from './utils/logger.js';
+import { buildUsageReport, getPeriodKey, getUsageFile, readUsageFile } from './services/usage.js';
+import { rotateKeyInConfig } from './services/keys.js';
+import type { KeyConfig, ApiKey, AdminKey, SignatureMode, UsagePeriod, CacheEntry, CacheStatsResponse, WarmJob } from './types.js';
+import config from './config.js';
 
-const KEYS_FILE = './config/keys.json';
+const DEFAULT_KEYS_FILE = './config/keys.json';
+
+// Overridden by --keys-file
+let keysFile = process.env.API_KEYS_FILE || DEFAULT_KEYS_FILE;
 
 function loadKeys(): KeyConfig {
-  if (!existsSync(KEYS_FILE)) {
+  if (!existsSync(keysFile)) {
     return { keys: [] };
   }
 
-  const data = readFileSync(KEYS_FILE, 'utf-8');
+  const data = readFileSync(keysFile, 'utf-8');
   return JSON.parse(data);
 }
 
+/**
+ * Validate, then replace the file atomically (a running server may be watching it)
+ */
 function saveKeys(config: KeyConfig): void {
-  writeFileSync(KEYS_FILE, JSON.stringify(config, null, 2), 'utf-8');
+  try {
+    validateKeyConfig(config);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    console.error(`Nothing was written. Run "validate" to check ${keysFile}.`);
+    process.exit(1);
+  }
+
+  writeFileAtomic(resolve(keysFile), JSON.stringify(config, null, 2) + '\n');
 }
 
-function generatePublicKey(name: string, domains: string[]): void {
+function generatePublicKey(name: string, domains: string[], rateLimit: ApiKey['rateLimit']): void {
   const key = generateApiKey('public');
   const config = loadKeys();
 
@@ -33,10 +61,7 @@ function generatePublicKey(name: string, domains: string[]): void {
     type: 'public',
     name,
     allowedDomains: domains,
-    rateLimit: {
-      requests: 1000,
-      generations: 10
-    },
+    rateLimit,
     createdAt: new Date().toISOString(),
     expiresAt: null
   };
@@ -52,7 +77,7 @@ function generatePublicKey(name: string, domains: string[]): void {
   console.log(`Domains: ${domains.join(', ')}\n`);
   console.log('⚠️  This key can be safely used in frontend code');
   console.log('   because it\'s scoped to specific domains.\n');
-  console.log('Add this to your config/keys.json and commit it.');
+  console.log(`Saved to ${keysFile}.`);
   console.log('===========================================\n');
 }
 
@@ -76,7 +101,7 @@ function generateAdminKey(name: string): void {
   console.log('===========================================\n');
   console.log(`Key: ${key}\n`);
   console.log('⚠️  SAVE THIS KEY SECURELY - IT WILL NOT BE SHOWN AGAIN!\n');
-  console.log('The key has been hashed and stored in config/keys.json');
+  console.log(`The key has been hashed and stored in ${keysFile}`);
   console.log('DO NOT commit the actual key to version control.');
   console.log('Store it in a password manager or environment variable.');
   console.log('===========================================\n');
@@ -100,22 +125,644 @@ function listKeys(): void {
 
     if (key.type === 'public') {
       const publicKey = key as ApiKey;
+      const per = publicKey.rateLimit.window ? `${publicKey.rateLimit.window}s` : 'min';
       console.log(`   Key ID: ${publicKey.keyId}`);
       console.log(`   Domains: ${publicKey.allowedDomains.join(', ')}`);
-      console.log(`   Rate Limits: ${publicKey.rateLimit.requests} req/min, ${publicKey.rateLimit.generations} gen/min`);
+      console.log(`   Rate Limits: ${publicKey.rateLimit.requests} req/${per}, ${publicKey.rateLimit.generations} gen/${per}` +
+        (publicKey.rateLimit.burst ? `, burst ${publicKey.rateLimit.burst}` : ''));
+      if (publicKey.expiresAt) {
+        console.log(`   Expires: ${publicKey.expiresAt}`);
+      }
     } else {
       const adminKey = key as AdminKey;
       console.log(`   Key Hash: ${adminKey.keyHash.slice(0, 16)}...`);
     }
 
+    if (key.revokedAt) {
+      console.log(`   Revoked: ${key.revokedAt}`);
+    }
     console.log(`   Created: ${key.createdAt}\n`);
   });
 
   console.log('===========================================\n');
 }
 
+function findPublicKey(config: KeyConfig, keyId: string): ApiKey {
+  const key = config.keys.find(k => k.type === 'public' && (k as ApiKey).keyId === keyId) as ApiKey | undefined;
+  if (!key) {
+    console.error(`Error: Public key "${keyId}" not found in ${keysFile}`);
+    process.exit(1);
+  }
+  return key;
+}
+
+function setSigningSecret(keyId: string, mode: SignatureMode): void {
+  const config = loadKeys();
+  const key = findPublicKey(config, keyId);
+
+  key.signingSecret = generateSigningSecret();
+  key.signature = mode;
+  saveKeys(config);
+
+  console.log('\n===========================================');
+  console.log('Signing Secret Generated');
+  console.log('===========================================\n');
+  console.log(`Key: ${keyId}`);
+  console.log(`Secret: ${key.signingSecret}`);
+  console.log(`Signature: ${mode}\n`);
+  console.log('⚠️  Keep the secret server-side (build scripts, SSR).');
+  console.log('   Never ship it to the browser.\n');
+  console.log('Sign URLs with: npm run sign-url -- <key> <url>');
+  console.log('===========================================\n');
+}
+
+function signUrl(keyId: string, pageUrl: string, extra: string[]): void {
+  const key = findPublicKey(loadKeys(), keyId);
+  if (!key.signingSecret) {
+    console.error(`Error: Key "${keyId}" has no signing secret. Run: npx tsx src/cli.ts secret ${keyId}`);
+    process.exit(1);
+  }
+
+  let endpoint = `http://localhost:${process.env.PORT || 3000}/api/image`;
+  let expiresIn: number | undefined;
+  const params: Record<string, string> = { key: keyId, url: pageUrl };
+
+  for (const arg of extra) {
+    if (arg.startsWith('--endpoint=')) {
+      endpoint = arg.slice('--endpoint='.length);
+    } else if (arg.startsWith('--expires=')) {
+      expiresIn = parseInt(arg.slice('--expires='.length), 10);
+      if (isNaN(expiresIn) || expiresIn <= 0) {
+        console.error('Error: --expires must be a positive number of seconds');
+        process.exit(1);
+      }
+    } else if (arg.includes('=')) {
+      const [name, ...value] = arg.split('=');
+      params[name] = value.join('=');
+    } else {
+      console.error(`Error: Unexpected argument "${arg}" (use name=value)`);
+      process.exit(1);
+    }
+  }
+
+  console.log(createSignedUrl(endpoint, params, key.signingSecret, { expiresIn }));
+}
+
+/**
+ * Split --name=value options from positional arguments
+ */
+function parseOptions(args: string[]): { positional: string[]; options: Record<string, string> } {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (const arg of args) {
+    if (arg.startsWith('--')) {
+      const [name, ...value] = arg.slice(2).split('=');
+      options[name] = value.join('=');
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { positional, options };
+}
+
+function parseLimit(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    console.error(`Error: --${name} must be a positive integer`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function revokeKey(keyId: string): void {
+  const config = loadKeys();
+  const key = findPublicKey(config, keyId);
+
+  if (key.revokedAt) {
+    console.log(`Key ${keyId} was already revoked at ${key.revokedAt}`);
+    return;
+  }
+
+  key.revokedAt = new Date().toISOString();
+  saveKeys(config);
+  console.log(`✓ Revoked ${keyId} (${key.name})`);
+}
+
+/**
+ * New key ID (and signing secret, if any) with the same settings
+ * The old key is revoked, or keeps working for the grace period
+ */
+function rotateKey(keyId: string, graceSeconds: number): void {
+  let rotated: ReturnType<typeof rotateKeyInConfig>;
+  try {
+    rotated = rotateKeyInConfig(loadKeys(), keyId, graceSeconds);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  const { config, key, previous: old } = rotated;
+  saveKeys(config);
+
+  console.log('\n===========================================');
+  console.log('Public API Key Rotated');
+  console.log('===========================================\n');
+  console.log(`New key: ${key.keyId}`);
+  if (key.signingSecret) {
+    console.log(`New signing secret: ${key.signingSecret}`);
+  }
+  console.log(graceSeconds > 0
+    ? `\nOld key ${keyId} keeps working until ${old.expiresAt}.`
+    : `\nOld key ${keyId} is revoked.`);
+  console.log('===========================================\n');
+}
+
+function setExpiry(keyId: string, value: string): void {
+  const config = loadKeys();
+  const key = findPublicKey(config, keyId);
+
+  if (value === 'never') {
+    key.expiresAt = null;
+  } else {
+    const seconds = parseDuration(value);
+    const date = seconds !== null ? new Date(Date.now() + seconds * 1000) : parseIsoDate(value);
+    if (!date) {
+      console.error('Error: Expiry must be an ISO date (e.g. 2027-01-31), a duration with a unit (e.g. 30d) or "never"');
+      process.exit(1);
+    }
+    key.expiresAt = date.toISOString();
+  }
+
+  saveKeys(config);
+  console.log(`✓ ${keyId} ${key.expiresAt ? `expires at ${key.expiresAt}` : 'never expires'}`);
+}
+
+function addDomains(keyId: string, domains: string[]): void {
+  const config = loadKeys();
+  const key = findPublicKey(config, keyId);
+
+  const added = domains.filter(d => !key.allowedDomains.includes(d));
+  key.allowedDomains.push(...added);
+
+  saveKeys(config);
+  console.log(`✓ ${keyId} domains: ${key.allowedDomains.join(', ')}`);
+}
+
+function removeDomains(keyId: string, domains: string[]): void {
+  const config = loadKeys();
+  const key = findPublicKey(config, keyId);
+
+  const missing = domains.filter(d => !key.allowedDomains.includes(d));
+  if (missing.length > 0) {
+    console.error(`Error: Not in allowed domains: ${missing.join(', ')}`);
+    process.exit(1);
+  }
+
+  key.allowedDomains = key.allowedDomains.filter(d => !domains.includes(d));
+  if (key.allowedDomains.length === 0) {
+    console.error('Error: A public key needs at least one domain (revoke the key instead)');
+    process.exit(1);
+  }
+
+  saveKeys(config);
+  console.log(`✓ ${keyId} domains: ${key.allowedDomains.join(', ')}`);
+}
+
+/**
+ * Update rate limits; "none" removes window/burst (back to the defaults)
+ */
+function setLimits(keyId: string, options: Record<string, string>): void {
+  const fields = ['requests', 'generations', 'window', 'burst'] as const;
+  const unknown = Object.keys(options).filter(name => !(fields as readonly string[]).includes(name));
+  if (unknown.length > 0 || Object.keys(options).length === 0) {
+    console.error('Usage: set-limits <key> [--requests=N] [--generations=N] [--window=SECONDS|none] [--burst=N|none]');
+    process.exit(1);
+  }
+
+  const config = loadKeys();
+  const key = findPublicKey(config, keyId);
+
+  for (const field of fields) {
+    const value = options[field];
+    if (value === undefined) continue;
+
+    if (value === 'none' && (field === 'window' || field === 'burst')) {
+      delete key.rateLimit[field];
+    } else {
+      key.rateLimit[field] = parseLimit(field, value);
+    }
+  }
+
+  saveKeys(config);
+  console.log(`✓ ${keyId} rate limits: ${JSON.stringify(key.rateLimit)}`);
+}
+
+/**
+ * Report every problem in the keys file
+ */
+function validateKeys(): void {
+  if (!existsSync(keysFile)) {
+    console.error(`Error: ${keysFile} does not exist`);
+    process.exit(1);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(keysFile, 'utf-8'));
+  } catch (error) {
+    console.error(`✗ ${keysFile} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  const problems = lintKeyConfig(data);
+  if (problems.length === 0) {
+    console.log(`✓ ${keysFile} is valid (${(data as KeyConfig).keys.length} keys)`);
+    return;
+  }
+
+  console.error(`✗ ${keysFile} has ${problems.length} problem(s):`);
+  for (const problem of problems) {
+    console.error(`  - ${problem.message}`);
+  }
+  process.exit(1);
+}
+
+function printUsage(period: UsagePeriod, date: string): void {
+  const rows = buildUsageReport(readUsageFile(getUsageFile()), loadKeys(), period, date);
+
+  console.log('\n===========================================');
+  console.log(`Usage (${period}, ${date})`);
+  console.log('===========================================\n');
+
+  if (rows.length === 0) {
+    console.log('No keys configured.\n');
+    return;
+  }
+
+  const quotaLabel = (used: number, limit?: number) => (limit ? `${used}/${limit}` : String(used));
+  const table = [
+    ['Key', 'Name', 'Requests', 'Hits', 'Generations', 'Served'],
+    ...rows.map(row => [
+      row.keyId,
+      row.name ?? '(removed)',
+      quotaLabel(row.requests, row.quota?.requests),
+      row.requests > 0 ? `${row.hits} (${Math.round((row.hits / row.requests) * 100)}%)` : '0',
+      quotaLabel(row.generations, row.quota?.generations),
+      formatBytes(row.bytesServed)
+    ])
+  ];
+
+  const widths = table[0].map((_, col) => Math.max(...table.map(line => line[col].length)));
+  for (const line of table) {
+    console.log(line.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd());
+  }
+
+  console.log('\nCounters are saved every minute; quota limits are shown as used/limit.');
+  console.log('===========================================\n');
+}
+
+// ============================================
+// Cache Administration
+// ============================================
+
+interface CacheFilter {
+  domain?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Cache operations, either on CACHE_DIR directly or through the admin API
+ */
+interface CacheClient {
+  stats(): Promise<CacheStatsResponse>;
+  list(filter: CacheFilter): Promise<CacheEntry[]>;
+  remove(target: string): Promise<number>;  // URL (all sizes) or cache key
+  warm(urls: string[], options: { size?: string; keyId?: string }): Promise<void>;
+  close(): Promise<void>;
+}
+
+const isUrl = (value: string) => /^https?:\/\//i.test(value);
+
+/**
+ * Open the cache in CACHE_DIR (or the configured S3 bucket)
+ * Only safe while the server is stopped - it keeps its own copy of the metadata
+ */
+async function createLocalCacheClient(): Promise<CacheClient> {
+  const cache = await import('./services/cache.js');
+  await cache.initCache();
+
+  return {
+    stats: async () => cache.getCacheStats(),
+    list: async filter => cache.findCacheEntries(filter),
+
+    remove: async target => {
+      const cacheKeys = isUrl(target)
+        ? cache.findCacheEntries({ url: normalizeUrl(target) }).map(entry => entry.cacheKey)
+        : [target];
+
+      let removed = 0;
+      for (const cacheKey of cacheKeys) {
+        if (await cache.deleteCacheEntry(cacheKey)) removed++;
+      }
+      return removed;
+    },
+
+    warm: async (urls, options) => {
+      const { generateScreenshot } = await import('./services/screenshot.js');
+      const { browserPool } = await import('./services/browserPool.js');
+      // Local access is admin access: any size, any domain
+      const size = resolveAllowedSize({ size: options.size }, null);
+
+      try {
+        for (const url of urls) {
+          const normalizedUrl = normalizeUrl(url);
+          // Server default resource policy, the same key an admin request would use
+          const cacheKey = generateCacheKey(normalizedUrl, [
+            getSizeVariant(size),
+            getSelectorVariant(undefined),
+            getResourcesVariant(undefined),
+            getReadyVariant(DEFAULT_READY)
+          ]);
+          const entry = cache.getCacheEntry(normalizedUrl, cacheKey);
+          if (entry && !cache.isEntryStale(entry)) {
+            console.log(`- ${url} (already cached)`);
+            continue;
+          }
+
+          const start = Date.now();
+          try {
+            const { png, ready } = await generateScreenshot(url, { size });
+            await cache.saveToCache(url, normalizedUrl, png, Date.now() - start, {
+              cacheKey,
+              size,
+              ready,
+              ttl: config.cacheTtl,
+              keyId: 'admin'
+            });
+            console.log(`✓ ${url} (${Date.now() - start}ms)`);
+          } catch (error) {
+            console.log(`✗ ${url}: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+          }
+        }
+      } finally {
+        await browserPool.close();
+      }
+    },
+
+    close: () => cache.closeCache()
+  };
+}
+
+/**
+ * Cache operations through a running server's admin endpoints
+ */
+function createRemoteCacheClient(server: string, adminKey: string): CacheClient {
+  const baseUrl = server.replace(/\/+$/, '');
+
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${adminKey}`,
+        ...(body !== undefined && { 'Content-Type': 'application/json' })
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    const data = await response.json().catch(() => ({})) as { error?: string };
+    if (!response.ok) {
+      throw new Error(`${method} ${path}: ${data.error ?? response.statusText} (HTTP ${response.status})`);
+    }
+    return data as T;
+  }
+
+  const list = async (filter: CacheFilter & { url?: string }) => {
+    const params = new URLSearchParams();
+    if (filter.url) params.set('url', filter.url);
+    if (filter.domain) params.set('domain', filter.domain);
+    if (filter.since) params.set('since', filter.since.toISOString());
+    if (filter.until) params.set('until', filter.until.toISOString());
+    params.set('limit', String(filter.limit ?? 1000));
+
+    const { entries } = await request<{ entries: CacheEntry[] }>('GET', `/admin/cache/entries?${params}`);
+    return entries;
+  };
+
+  const removeKey = async (cacheKey: string) => {
+    try {
+      await request('DELETE', `/admin/cache/${encodeURIComponent(cacheKey)}`);
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('HTTP 404')) return false;
+      throw error;
+    }
+  };
+
+  return {
+    stats: () => request<CacheStatsResponse>('GET', '/admin/cache/stats'),
+    list,
+
+    remove: async target => {
+      const cacheKeys = isUrl(target)
+        ? (await list({ url: target })).map(entry => entry.cacheKey)
+        : [target];
+
+      let removed = 0;
+      for (const cacheKey of cacheKeys) {
+        if (await removeKey(cacheKey)) removed++;
+      }
+      return removed;
+    },
+
+    warm: async (urls, options) => {
+      if (!options.keyId) {
+        throw new Error('--key=<public key> is required with --server (URLs are checked against its domains)');
+      }
+
+      let { job } = await request<{ job: WarmJob }>('POST', '/admin/warm', {
+        keyId: options.keyId,
+        urls,
+        ...(options.size && { size: options.size })
+      });
+      console.log(`Warming job ${job.id} started`);
+
+      while (job.status === 'pending' || job.status === 'running') {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        ({ job } = await request<{ job: WarmJob }>('GET', `/admin/warm/${job.id}`));
+        console.log(`  ${job.done} generated, ${job.skipped} skipped, ${job.failed} failed of ${job.total}`);
+      }
+
+      for (const failure of job.errors) {
+        console.log(`✗ ${failure.url}: ${failure.error.split('\n')[0]}`);
+      }
+      if (job.error) {
+        throw new Error(job.error);
+      }
+    },
+
+    close: async () => {}
+  };
+}
+
+function printCacheStats(stats: CacheStatsResponse): void {
+  const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+  console.log('\n===========================================');
+  console.log('Cache Statistics');
+  console.log('===========================================\n');
+  console.log(`Entries: ${stats.totalEntries} (${stats.pinnedEntries} pinned), max ${stats.limits.maxEntries}`);
+  console.log(`Size: ${stats.totalSize} of ${stats.limits.maxSize} (${stats.limits.policy} eviction)`);
+  console.log(`Evictions: ${stats.evictions.total} (${stats.evictions.freed} freed)`);
+  console.log(`Hit rate: ${percent(stats.hitRate.last1h)} 1h, ${percent(stats.hitRate.last24h)} 24h, ${percent(stats.hitRate.last7d)} 7d`);
+  console.log(`Oldest: ${stats.oldestEntry ?? '-'}`);
+  console.log(`Newest: ${stats.newestEntry ?? '-'}`);
+
+  if (stats.topUrls.length > 0) {
+    console.log('\nTop URLs:');
+    for (const top of stats.topUrls) {
+      console.log(`  ${String(top.hits).padStart(7)}  ${top.size.padStart(10)}  ${top.url}`);
+    }
+  }
+  console.log('===========================================\n');
+}
+
+function printCacheEntries(entries: CacheEntry[]): void {
+  if (entries.length === 0) {
+    console.log('No matching cache entries.');
+    return;
+  }
+
+  for (const entry of entries) {
+    const variants = Object.keys(entry.variants || {});
+    const total = entry.size + Object.values(entry.variants || {}).reduce((sum, v) => sum + v.size, 0);
+    console.log([
+      entry.cacheKey,
+      formatBytes(total).padStart(10),
+      entry.createdAt.slice(0, 19).replace('T', ' '),
+      `${entry.accessCount} hits`.padStart(10),
+      `${entry.width}x${entry.height}`,
+      entry.url + (entry.selector ? ` [${entry.selector}]` : ''),
+      ...(variants.length > 0 ? [`(+${variants.join(', ')})`] : []),
+      ...(entry.pinned ? ['pinned'] : [])
+    ].join('  '));
+  }
+  console.log(`\n${entries.length} entries`);
+}
+
+/**
+ * Dates from --older-than / --newer-than (durations before now, or ISO dates)
+ */
+function parseAgeOptions(options: Record<string, string>): { since?: Date; until?: Date } {
+  const dates: { since?: Date; until?: Date } = {};
+
+  for (const [option, field] of [['newer-than', 'since'], ['older-than', 'until']] as const) {
+    if (options[option] === undefined) continue;
+    const date = parseAgeOrDate(options[option]);
+    if (!date) {
+      throw new Error(`--${option} must be a duration with a unit (e.g. 30d) or an ISO date`);
+    }
+    dates[field] = date;
+  }
+
+  return dates;
+}
+
+async function runCacheCommand(args: string[]): Promise<void> {
+  const { positional, options } = parseOptions(args);
+  const [subcommand, ...targets] = positional;
+
+  const server = options.server ?? process.env.OGFRAME_URL;
+  const adminKey = options['admin-key'] ?? process.env.OGFRAME_ADMIN_KEY;
+  if (server && !adminKey) {
+    throw new Error('--admin-key (or OGFRAME_ADMIN_KEY) is required with --server');
+  }
+
+  if (!['stats', 'ls', 'rm', 'purge', 'warm'].includes(subcommand)) {
+    throw new Error('Usage: cache <stats|ls|rm|purge|warm> ... (run "help" for options)');
+  }
+  if ((subcommand === 'rm' || subcommand === 'warm') && targets.length === 0) {
+    throw new Error(`Usage: cache ${subcommand} <${subcommand === 'rm' ? 'url|cacheKey' : 'url'}...>`);
+  }
+
+  // Cache service logs would drown the output
+  if (!server && !process.env.LOG_LEVEL) {
+    logger.setLevel('warn');
+  }
+
+  const client = server ? createRemoteCacheClient(server, adminKey as string) : await createLocalCacheClient();
+
+  try {
+    if (subcommand === 'stats') {
+      printCacheStats(await client.stats());
+    } else if (subcommand === 'ls') {
+      const minSize = options['min-size'] !== undefined ? parseBytes(options['min-size']) : null;
+      if (options['min-size'] !== undefined && minSize === null) {
+        throw new Error('--min-size must be a size (e.g. 500KB)');
+      }
+      const limit = options.limit !== undefined ? parseLimit('limit', options.limit) : 100;
+
+      const entries = await client.list({
+        domain: options.domain,
+        ...parseAgeOptions(options),
+        // Size is filtered here, so fetch a full page first
+        limit: minSize !== null ? 1000 : limit
+      });
+      printCacheEntries(entries.filter(e => minSize === null || e.size >= minSize).slice(0, limit));
+    } else if (subcommand === 'rm') {
+      for (const target of targets) {
+        const removed = await client.remove(target);
+        console.log(removed > 0 ? `✓ Removed ${removed} entr${removed === 1 ? 'y' : 'ies'} for ${target}` : `- Not cached: ${target}`);
+      }
+    } else if (subcommand === 'purge') {
+      const filter: CacheFilter = { domain: options.domain, ...parseAgeOptions(options) };
+      if (!filter.domain && !filter.until) {
+        throw new Error('Usage: cache purge [--domain=DOMAIN] [--older-than=DURATION|DATE] (at least one)');
+      }
+
+      let purged = 0;
+      for (;;) {
+        const batch = await client.list({ ...filter, limit: 1000 });
+        let removed = 0;
+        for (const entry of batch) {
+          removed += await client.remove(entry.cacheKey);
+        }
+        purged += removed;
+        if (batch.length < 1000 || removed === 0) break;
+      }
+      console.log(`✓ Purged ${purged} cache entries`);
+    } else {
+      await client.warm(targets, { size: options.size, keyId: options.key });
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Remove --keys-file from the arguments and apply it
+ */
+function takeKeysFileOption(args: string[]): string[] {
+  const rest: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--keys-file=')) {
+      keysFile = args[i].slice('--keys-file='.length);
+    } else if (args[i] === '--keys-file' && args[i + 1]) {
+      keysFile = args[++i];
+    } else {
+      rest.push(args[i]);
+    }
+  }
+  return rest;
+}
+
 function main() {
-  const args = process.argv.slice(2);
+  const args = takeKeysFileOption(process.argv.slice(2));
+  // `npm run generate-key` passes its own name first
+  if (args[0] === 'generate-key') args.shift();
   const command = args[0];
 
   if (!command || command === 'help') {
@@ -123,25 +770,158 @@ function main() {
 OGFrame CLI - Key Management
 
 Usage:
-  npm run generate-key public <name> <domain1> [domain2...]
+  npm run generate-key public <name> <domain1> [domain2...] [--requests=N] [--generations=N]
   npm run generate-key admin <name>
   npm run generate-key list
+  npx tsx src/cli.ts revoke <key>
+  npx tsx src/cli.ts rotate <key> [--grace=DURATION]
+  npx tsx src/cli.ts set-expiry <key> <ISO date|DURATION|never>
+  npx tsx src/cli.ts add-domain <key> <domain1> [domain2...]
+  npx tsx src/cli.ts remove-domain <key> <domain1> [domain2...]
+  npx tsx src/cli.ts set-limits <key> [--requests=N] [--generations=N] [--window=SECONDS|none] [--burst=N|none]
+  npx tsx src/cli.ts validate
+  npx tsx src/cli.ts secret <key> [required|optional]
+  npm run sign-url -- <key> <url> [name=value...] [--expires=SECONDS] [--endpoint=URL]
+  npm run usage -- [daily|monthly] [YYYY-MM-DD|YYYY-MM]
+
+Cache:
+  npx tsx src/cli.ts cache stats
+  npx tsx src/cli.ts cache ls [--domain=DOMAIN] [--older-than=DURATION|DATE] [--newer-than=DURATION|DATE] [--min-size=SIZE] [--limit=N]
+  npx tsx src/cli.ts cache rm <url|cacheKey...>
+  npx tsx src/cli.ts cache purge [--domain=DOMAIN] [--older-than=DURATION|DATE]
+  npx tsx src/cli.ts cache warm <url...> [--size=NAME] [--key=PUBLIC_KEY]
+
+  Cache commands work on CACHE_DIR directly (stop the server first), or on a
+  running server with --server=URL --admin-key=KEY (or OGFRAME_URL and
+  OGFRAME_ADMIN_KEY). Warming through a server needs --key: URLs are checked
+  against that key's domains.
+
+Options:
+  --keys-file=PATH   Keys file (default: API_KEYS_FILE or ${DEFAULT_KEYS_FILE})
+  DURATION           With a unit: 90s, 30m, 24h, 7d
+  DATE               ISO 8601: 2026, 2026-01-31, 2026-01-31T12:00Z
 
 Examples:
-  npm run generate-key public "Production" example.com *.example.com
+  npm run generate-key public "Production" example.com *.example.com --generations=20
   npm run generate-key admin "Admin Access"
   npm run generate-key list
+  npx tsx src/cli.ts rotate pk_live_abc --grace=7d
+  npx tsx src/cli.ts set-expiry pk_live_abc 90d
+  npx tsx src/cli.ts add-domain pk_live_abc blog.example.com
+  npx tsx src/cli.ts set-limits pk_live_abc --generations=20 --burst=40
+  npx tsx src/cli.ts validate --keys-file=/etc/ogframe/keys.json
+  npx tsx src/cli.ts secret pk_live_abc required
+  npm run sign-url -- pk_live_abc https://example.com/blog size=twitter --expires=2592000
+  npm run usage -- daily
+  npx tsx src/cli.ts cache ls --domain=example.com --older-than=30d
+  npx tsx src/cli.ts cache purge --domain=old.example.com --server=https://og.example.com --admin-key=$ADMIN_KEY
     `);
     return;
   }
 
+  if (command === 'secret') {
+    const mode = args[2] || 'required';
+    if (!args[1] || (mode !== 'required' && mode !== 'optional')) {
+      console.error('Usage: secret <key> [required|optional]');
+      process.exit(1);
+    }
+    setSigningSecret(args[1], mode);
+    return;
+  }
+
+  if (command === 'sign') {
+    if (!args[1] || !args[2]) {
+      console.error('Usage: sign <key> <url> [name=value...] [--expires=SECONDS] [--endpoint=URL]');
+      process.exit(1);
+    }
+    signUrl(args[1], args[2], args.slice(3));
+    return;
+  }
+
+  if (command === 'usage') {
+    const period = args[1] || 'monthly';
+    if (period !== 'daily' && period !== 'monthly') {
+      console.error('Usage: usage [daily|monthly] [YYYY-MM-DD|YYYY-MM]');
+      process.exit(1);
+    }
+    printUsage(period, args[2] || getPeriodKey(period));
+    return;
+  }
+
   if (command === 'list') {
     listKeys();
     return;
   }
 
-  const type = args[0];
-  const name = args[1];
+  if (command === 'validate') {
+    validateKeys();
+    return;
+  }
+
+  if (command === 'cache') {
+    runCacheCommand(args.slice(1)).catch(error => {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    });
+    return;
+  }
+
+  const { positional, options } = parseOptions(args.slice(1));
+  const keyId = positional[0];
+
+  if (command === 'revoke') {
+    if (!keyId) {
+      console.error('Usage: revoke <key>');
+      process.exit(1);
+    }
+    revokeKey(keyId);
+    return;
+  }
+
+  if (command === 'rotate') {
+    const grace = options.grace !== undefined ? parseDuration(options.grace) : 0;
+    if (!keyId || grace === null) {
+      console.error('Usage: rotate <key> [--grace=DURATION] (e.g. --grace=24h)');
+      process.exit(1);
+    }
+    rotateKey(keyId, grace);
+    return;
+  }
+
+  if (command === 'set-expiry') {
+    if (!keyId || !positional[1]) {
+      console.error('Usage: set-expiry <key> <ISO date|DURATION|never>');
+      process.exit(1);
+    }
+    setExpiry(keyId, positional[1]);
+    return;
+  }
+
+  if (command === 'add-domain' || command === 'remove-domain') {
+    const domains = positional.slice(1);
+    if (!keyId || domains.length === 0) {
+      console.error(`Usage: ${command} <key> <domain1> [domain2...]`);
+      process.exit(1);
+    }
+    if (command === 'add-domain') {
+      addDomains(keyId, domains);
+    } else {
+      removeDomains(keyId, domains);
+    }
+    return;
+  }
+
+  if (command === 'set-limits') {
+    if (!keyId) {
+      console.error('Usage: set-limits <key> [--requests=N] [--generations=N] [--window=SECONDS|none] [--burst=N|none]');
+      process.exit(1);
+    }
+    setLimits(keyId, options);
+    return;
+  }
+
+  const type = command;
+  const name = positional[0];
 
   if (!name) {
     console.error('Error: Name is required');
@@ -149,16 +929,19 @@ Examples:
   }
 
   if (type === 'public') {
-    const domains = args.slice(2);
+    const domains = positional.slice(1);
     if (domains.length === 0) {
       console.error('Error: At least one domain is required for public keys');
       process.exit(1);
     }
-    generatePublicKey(name, domains);
+    generatePublicKey(name, domains, {
+      requests: options.requests !== undefined ? parseLimit('requests', options.requests) : 1000,
+      generations: options.generations !== undefined ? parseLimit('generations', options.generations) : 10
+    });
   } else if (type === 'admin') {
     generateAdminKey(name);
   } else {
-    console.error(`Error: Unknown key type "${type}". Use "public" or "admin"`);
+    console.error(`Error: Unknown command "${type}". Run with "help" for usage`);
     process.exit(1);
   }
 }
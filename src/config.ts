@@ -45,19 +45,51 @@ export const config = {
   cacheDir: getEnvString('CACHE_DIR', './cache'),
   cacheMaxSize: getEnvString('CACHE_MAX_SIZE', '10GB'),
   cacheMaxEntries: getEnvInt('CACHE_MAX_ENTRIES', 100000, 100, 1000000),
+  cacheEviction: getEnvString('CACHE_EVICTION', 'lru'), // 'lru' | 'lfu'
+  cacheBackend: getEnvString('CACHE_BACKEND', 'file'), // 'file' | 's3'
+  cacheTtl: getEnvInt('CACHE_TTL', 0, 0, 31536000), // Seconds, 0 = cache forever
+
+  // S3-compatible storage (R2, B2, MinIO, AWS S3)
+  s3Endpoint: getEnvString('S3_ENDPOINT', 'https://s3.amazonaws.com'),
+  s3Region: getEnvString('S3_REGION', 'us-east-1'), // 'auto' for Cloudflare R2
+  s3Bucket: getEnvString('S3_BUCKET', ''),
+  s3AccessKey: getEnvString('S3_ACCESS_KEY', ''),
+  s3SecretKey: getEnvString('S3_SECRET_KEY', ''),
+  s3Prefix: getEnvString('S3_PREFIX', ''),
+  s3ForcePathStyle: getEnvBool('S3_FORCE_PATH_STYLE', true), // Required for MinIO
+  s3Timeout: getEnvInt('S3_TIMEOUT', 10000, 1000, 120000), // Milliseconds per request
 
   // Screenshot
   screenshotTimeout: getEnvInt('SCREENSHOT_TIMEOUT', 30000, 5000, 60000),
   screenshotWidth: getEnvInt('SCREENSHOT_WIDTH', 1200, 100, 2400),
   screenshotHeight: getEnvInt('SCREENSHOT_HEIGHT', 630, 100, 1260),
   maxConcurrentScreenshots: getEnvInt('MAX_CONCURRENT_SCREENSHOTS', 3, 1, 10),
+  browserRecyclePages: getEnvInt('BROWSER_RECYCLE_PAGES', 100, 1, 10000),
+  browserMaxMemoryMb: getEnvInt('BROWSER_MAX_MEMORY_MB', 1024, 0, 8192), // Per process RSS, 0 = no memory check
+  browserQueueTimeout: getEnvInt('BROWSER_QUEUE_TIMEOUT', 30000, 1000, 120000), // Max wait for a free browser
+  captureMaxMb: getEnvInt('CAPTURE_MAX_MB', 100, 1, 2048), // Response bytes fetched per capture
+  readyTimeout: getEnvInt('READY_TIMEOUT', 10000, 1000, 60000),  // Max wait for selector/signal/assets, then capture anyway
+  readyMaxDelay: getEnvInt('READY_MAX_DELAY', 10000, 0, 30000), // Cap on the "delay" strategy
+  blockResources: getEnvString('BLOCK_RESOURCES', 'none'), // Categories, e.g. "trackers,media" (validated in utils/resources.ts)
+
+  // Cache warming
+  warmConcurrency: getEnvInt('WARM_CONCURRENCY', 2, 1, 10),   // Generations per job at a time
+  warmMaxUrls: getEnvInt('WARM_MAX_URLS', 5000, 1, 100000),  // URLs per job
 
   // Security
   apiKeysFile: getEnvString('API_KEYS_FILE', './config/keys.json'),
+  watchApiKeys: getEnvBool('API_KEYS_WATCH', true), // Reload keys.json on change (SIGHUP always works)
   requireHttps: getEnvBool('REQUIRE_HTTPS', false), // Allow HTTP in dev
+  allowPrivateNetworks: getEnvBool('ALLOW_PRIVATE_NETWORKS', false), // Let browsers reach private/loopback addresses
 
   // Rate Limiting
-  rateLimitWindow: getEnvInt('RATE_LIMIT_WINDOW', 60, 10, 3600),
+  rateLimitWindow: getEnvInt('RATE_LIMIT_WINDOW', 60, 10, 3600), // Seconds, per-key override: rateLimit.window
+  rateLimitAlgorithm: getEnvString('RATE_LIMIT_ALGORITHM', 'sliding-window'), // 'sliding-window' | 'token-bucket'
+  rateLimitIpRequests: getEnvInt('RATE_LIMIT_IP_REQUESTS', 2000, 1, 1000000),   // Per IP per window
+  rateLimitIpGenerations: getEnvInt('RATE_LIMIT_IP_GENERATIONS', 50, 1, 100000), // Per IP per window
+  rateLimitStore: getEnvString('RATE_LIMIT_STORE', 'memory'), // 'memory' | 'redis'
+  redisUrl: getEnvString('REDIS_URL', 'redis://localhost:6379'),
+  redisPrefix: getEnvString('REDIS_PREFIX', 'ogframe:rl:'),
 
   // Performance
   maxRequestSize: getEnvString('MAX_REQUEST_SIZE', '1mb'),
@@ -65,6 +97,11 @@ export const config = {
 
   // Monitoring
   enableMetrics: getEnvBool('ENABLE_METRICS', true),
+  metricsRequireAuth: getEnvBool('METRICS_REQUIRE_AUTH', true), // Admin key required for /metrics
+  metricsAllowedIps: getEnvString('METRICS_ALLOWED_IPS', '') // Comma-separated, e.g. "127.0.0.1,10.0.0.5"
+    .split(',')
+    .map(ip => ip.trim())
+    .filter(Boolean),
 
   get isDevelopment() {
     return this.nodeEnv === 'development';
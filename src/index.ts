@@ -8,19 +8,43 @@
  */
 
 import { serve } from '@hono/node-server';
+import { getConnInfo } from '@hono/node-server/conninfo';
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { routePath } from 'hono/route';
 import type { Context } from 'hono';
-import type { ApiKey, ImageRequest, HealthResponse, ErrorResponse } from './types.js';
-import { OGFrameError } from './types.js';
-import { initAuth, requireAuth, requireAdminAuth } from './services/auth.js';
-import { initCache, getFromCache, saveToCache, getCacheEntry, deleteCacheEntry, purgeCache, getCacheStats, getCacheHitRate } from './services/cache.js';
-import { checkRateLimit } from './services/rateLimit.js';
+import type { ApiKey, CacheEntry, CacheStatus, ImageRequest, OutputFormat, HealthResponse, ErrorResponse, RateLimitResult, ReadyResult, UsagePeriod } from './types.js';
+import { OGFrameError, RateLimitError, QuotaExceededError } from './types.js';
+import { initAuth, reloadKeys, watchKeys, unwatchKeys, requireAuth, requireAdminAuth, authorizeMetrics, verifySignature, getKeyConfig } from './services/auth.js';
+import { listKeys, getKey, createPublicKey, createAdminKey, updatePublicKey, rotatePublicKey, revokePublicKey } from './services/keys.js';
+import { initCache, closeCache, getFromCache, encodeVariant, getCacheEntry, deleteCacheEntry, purgeCache, getCacheStats, getCacheHitRate, getCacheBackendName, getCacheTtl, isEntryStale, setCacheEntryPinned, findCacheEntries, purgeCacheEntries } from './services/cache.js';
+import { initRateLimit, closeRateLimit, checkRateLimit, getRateLimitStoreStatus } from './services/rateLimit.js';
 import { generateScreenshot } from './services/screenshot.js';
-import { normalizeUrl, validateUrl } from './utils/url.js';
+import { browserPool } from './services/browserPool.js';
+import { startWarmJob, getWarmJob, listWarmJobs } from './services/warm.js';
+import { serveImage, refreshImage, type GenerationRequest } from './services/generation.js';
+import { initUsage, closeUsage, countRequest, checkQuota, getUsageReport, getPeriodKey } from './services/usage.js';
+import { initStats, closeStats, recordUsage, getTimeseries } from './services/stats.js';
+import { recordRequest, recordImage, renderMetrics } from './services/metrics.js';
+import { validateTemplateRequest, getTemplateCacheKey, getTemplateIdentifier, renderTemplate } from './services/template.js';
+import { normalizeUrl, normalizeUrlPrefix, validateUrl } from './utils/url.js';
+import { generateCacheKey } from './utils/crypto.js';
+import { resolveSize, getSizeVariant } from './utils/size.js';
+import { validateSelector, getSelectorVariant } from './utils/selector.js';
+import { initResources, getResourcesVariant } from './utils/resources.js';
+import { resolveReadiness, getReadyVariant } from './utils/readiness.js';
+import { resolveOutputFormat, getVariantName, FORMAT_CONTENT_TYPES } from './utils/format.js';
+import { PROMETHEUS_CONTENT_TYPE } from './utils/prometheus.js';
+import { parseAgeOrDate } from './utils/duration.js';
 import { logger } from './utils/logger.js';
 import config from './config.js';
 
+declare module 'hono' {
+  interface ContextVariableMap {
+    metricsKey: string;  // API key label for request metrics
+  }
+}
+
 const app = new Hono();
 
 // Track start time for uptime
@@ -29,8 +53,9 @@ const startTime = Date.now();
 // CORS middleware
 app.use('*', cors({
   origin: '*',
-  allowMethods: ['GET', 'DELETE', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization'],
+  exposeHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
   maxAge: 86400
 }));
 
@@ -40,6 +65,9 @@ app.use('*', async (c, next) => {
   await next();
   const duration = Date.now() - start;
 
+  // Matched route pattern, not the raw path, to keep label cardinality low
+  recordRequest(routePath(c, -1), c.res.status, c.get('metricsKey') ?? 'none');
+
   logger.info('Request completed', {
     method: c.req.method,
     path: c.req.path,
@@ -50,6 +78,17 @@ app.use('*', async (c, next) => {
 
 // Error handler
 app.onError((err, c) => {
+  if (err instanceof RateLimitError) {
+    c.header('Retry-After', err.retryAfter.toString());
+    c.header('RateLimit-Limit', err.limit.toString());
+    c.header('RateLimit-Remaining', '0');
+    c.header('RateLimit-Reset', err.retryAfter.toString());
+  }
+
+  if (err instanceof QuotaExceededError) {
+    c.header('Retry-After', err.retryAfter.toString());
+  }
+
   if (err instanceof OGFrameError) {
     logger.warn('Request error', {
       code: err.code,
@@ -80,76 +119,223 @@ app.onError((err, c) => {
 // Main Endpoint: Generate OG Image
 // ============================================
 
+/**
+ * Cache-Control for a served entry
+ * Only entries without a TTL are immutable
+ */
+function getCacheControl(entry: CacheEntry | null, status: CacheStatus): string {
+  if (!entry?.expiresAt || !entry.ttl) {
+    return 'public, max-age=31536000, immutable';
+  }
+
+  if (status === 'STALE') {
+    // A fresh image is being generated - ask clients to come back soon
+    return 'public, max-age=60';
+  }
+
+  const remaining = Math.max(0, Math.floor((new Date(entry.expiresAt).getTime() - Date.now()) / 1000));
+  return `public, max-age=${remaining}, stale-while-revalidate=${entry.ttl}`;
+}
+
+/**
+ * ETag for a served entry
+ * Entries with a TTL get regenerated under the same cache key, so include the version
+ */
+function getETag(entry: CacheEntry, output: OutputFormat): string {
+  let etag = entry.cacheKey;
+  if (entry.ttl) {
+    etag += `-${new Date(entry.createdAt).getTime().toString(36)}`;
+  }
+  if (output.format !== 'png') {
+    etag += `-${getVariantName(output)}`;
+  }
+  return etag;
+}
+
 app.get('/api/image', async (c: Context) => {
   const startTime = Date.now();
 
   // 1. Extract and validate parameters
   const key = c.req.query('key');
-  const url = c.req.query('url');
+  const mode = c.req.query('mode') || 'screenshot';
+
+  if (mode !== 'screenshot' && mode !== 'template') {
+    throw new OGFrameError(
+      'INVALID_PARAMS',
+      'Invalid mode: use "screenshot" or "template"',
+      400
+    );
+  }
 
-  if (!key || !url) {
+  if (!key) {
     throw new OGFrameError(
       'INVALID_PARAMS',
-      'Missing required parameters: key and url',
+      'Missing required parameter: key',
       400
     );
   }
 
-  // 2. Authenticate
+  // 2. Authenticate (and check the URL signature for keys with a signing secret)
   const apiKey: ApiKey = requireAuth(key);
+  const keyLabel = apiKey.type === 'admin' ? 'admin' : apiKey.keyId;
+  c.set('metricsKey', keyLabel);
+  verifySignature(apiKey, new URL(c.req.url).searchParams);
+
+  // 3. Resolve size and what to render, and its cache identity
+  const size = resolveSize(apiKey, {
+    size: c.req.query('size'),
+    width: c.req.query('width'),
+    height: c.req.query('height')
+  });
 
-  // 3. Validate and normalize URL
-  validateUrl(url, apiKey.allowedDomains, config.requireHttps);
-  const normalizedUrl = normalizeUrl(url);
+  let url: string;
+  let normalizedUrl: string;
+  let cacheKey: string;
+  let generate: () => Promise<{ png: Buffer; ready?: ReadyResult }>;
+  let selector: string | undefined;
+  let hostname: string | null = null;
+
+  if (mode === 'template') {
+    const templateRequest = validateTemplateRequest(apiKey, {
+      template: c.req.query('template'),
+      title: c.req.query('title'),
+      description: c.req.query('description')
+    });
 
-  // 4. Check cache first
-  const cached = await getFromCache(normalizedUrl);
-  const isCacheHit = cached !== null;
+    url = normalizedUrl = getTemplateIdentifier(templateRequest);
+    cacheKey = getTemplateCacheKey(apiKey, templateRequest, size);
+    generate = async () => ({ png: await renderTemplate(apiKey, templateRequest, size) });
+  } else {
+    const pageUrl = c.req.query('url');
+    const selectorParam = c.req.query('selector');
+    if (!pageUrl) {
+      throw new OGFrameError(
+        'INVALID_PARAMS',
+        'Missing required parameters: key and url',
+        400
+      );
+    }
+
+    // Validate and normalize URL
+    validateUrl(pageUrl, apiKey.allowedDomains, config.requireHttps);
+    url = pageUrl;
+    normalizedUrl = normalizeUrl(pageUrl);
+    hostname = new URL(normalizedUrl).hostname;
+    selector = selectorParam ? validateSelector(apiKey, selectorParam) : undefined;
+    const ready = resolveReadiness(apiKey, {
+      ready: c.req.query('ready'),
+      readySelector: c.req.query('readySelector'),
+      readyDelay: c.req.query('readyDelay')
+    });
+    cacheKey = generateCacheKey(normalizedUrl, [
+      getSizeVariant(size),
+      getSelectorVariant(selector),
+      getResourcesVariant(apiKey.resources),
+      getReadyVariant(ready)
+    ]);
+    generate = () => generateScreenshot(pageUrl, { size, selector, resources: apiKey.resources, ready });
+  }
+
+  // Output format (explicit format= or Accept negotiation)
+  const { output, negotiated } = resolveOutputFormat(
+    apiKey,
+    c.req.query('format'),
+    c.req.header('accept')
+  );
+
+  // Generate, save PNG master to cache
+  const generation: GenerationRequest = {
+    mode,
+    url,
+    normalizedUrl,
+    cacheKey,
+    size,
+    selector,
+    ttl: getCacheTtl(apiKey),
+    keyId: keyLabel,
+    hostname,
+    generate
+  };
 
-  // 5. Rate limiting
   const referer = c.req.header('referer') || null;
   const ip = c.req.header('x-real-ip') ||
              c.req.header('x-forwarded-for')?.split(',')[0] ||
              'unknown';
 
-  await checkRateLimit(apiKey, referer, ip, isCacheHit);
-
-  // 6. Return cached or generate new
+  // 4. Check cache first
+  const cached = await getFromCache(normalizedUrl, cacheKey, output);
+  let cacheEntry = cached?.entry ?? getCacheEntry(normalizedUrl, cacheKey);
+  let cacheStatus: CacheStatus;
   let imageBuffer: Buffer;
-  let cacheEntry = getCacheEntry(normalizedUrl);
+  let rateLimit: RateLimitResult;
 
   if (cached) {
-    // Cache HIT
-    imageBuffer = cached;
-    logger.debug('Serving from cache', { url: normalizedUrl });
+    // 5. Cache HIT (possibly stale). Quotas and rate limiting before any
+    // encoding: encoding a missing AVIF/WebP variant counts as generation work
+    const isStale = isEntryStale(cached.entry);
+    cacheStatus = isStale ? 'STALE' : 'HIT';
+    checkQuota(apiKey, cached.needsEncode);
+    rateLimit = await checkRateLimit(apiKey, referer, ip, !cached.needsEncode);
+
+    imageBuffer = cached.needsEncode
+      ? await encodeVariant(cached.entry, cached.buffer, output)
+      : cached.buffer;
+    logger.debug('Serving from cache', { url: normalizedUrl, stale: isStale });
+
+    // Stale-while-revalidate: refresh in the background, once
+    if (isStale) {
+      refreshImage(generation, apiKey, referer, ip).catch(error => {
+        logger.warn('Background refresh failed, keeping stale entry', {
+          url: normalizedUrl,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }
   } else {
-    // Cache MISS - generate screenshot
-    logger.info('Cache miss - generating screenshot', { url });
-    const generationStart = Date.now();
-
-    imageBuffer = await generateScreenshot(url);
-    const generationTime = Date.now() - generationStart;
+    // 5. Cache MISS - generate the image, or join the generation in flight.
+    // Only the leader pays for a generation; coalesced followers count as
+    // hits, whatever format they want
+    const served = await serveImage(generation, apiKey, referer, ip);
+    cacheStatus = served.leader ? 'MISS' : 'COALESCED';
+    rateLimit = served.rateLimit;
+
+    if (cacheStatus === 'COALESCED') {
+      logger.debug('Coalesced with in-flight generation', { url: normalizedUrl });
+    }
 
-    // Save to cache
-    cacheEntry = await saveToCache(url, normalizedUrl, imageBuffer, generationTime);
+    // Encode requested format (followers may want a different one)
+    cacheEntry = served.image.entry;
+    imageBuffer = await encodeVariant(served.image.entry, served.image.png, output);
   }
 
   const totalTime = Date.now() - startTime;
 
-  // 7. Set response headers
-  c.header('Content-Type', 'image/png');
+  // 6. Set response headers
+  c.header('Content-Type', FORMAT_CONTENT_TYPES[output.format]);
   c.header('Content-Length', imageBuffer.length.toString());
-  c.header('Cache-Control', 'public, max-age=31536000, immutable');
-  c.header('X-Cache-Status', isCacheHit ? 'HIT' : 'MISS');
+  c.header('Cache-Control', getCacheControl(cacheEntry, cacheStatus));
+  c.header('X-Cache-Status', cacheStatus);
   c.header('X-Generation-Time', `${cacheEntry?.generationTime || totalTime}ms`);
+  c.header('RateLimit-Limit', rateLimit.limit.toString());
+  c.header('RateLimit-Remaining', rateLimit.remaining.toString());
+  c.header('RateLimit-Reset', Math.max(0, Math.ceil((rateLimit.resetAt - Date.now()) / 1000)).toString());
+
+  if (negotiated) {
+    c.header('Vary', 'Accept');
+  }
 
   if (cacheEntry) {
-    c.header('ETag', `"${cacheEntry.cacheKey}"`);
+    c.header('ETag', `"${getETag(cacheEntry, output)}"`);
   }
 
+  recordImage(cacheStatus, output.format, imageBuffer.length);
+  recordUsage(cacheStatus === 'MISS' ? 'miss' : 'hit', keyLabel, hostname);
+  countRequest(keyLabel, cacheStatus !== 'MISS', imageBuffer.length);
+
   logger.info('Image served', {
     url: normalizedUrl,
-    cacheStatus: isCacheHit ? 'HIT' : 'MISS',
+    cacheStatus,
+    format: output.format,
     size: imageBuffer.length,
     totalTime
   });
@@ -167,27 +353,60 @@ app.get('/api/image', async (c: Context) => {
 app.get('/health', (c: Context) => {
   const uptime = Math.floor((Date.now() - startTime) / 1000);
   const stats = getCacheStats();
+  const rateLimit = getRateLimitStoreStatus();
 
   const response: HealthResponse = {
-    status: 'healthy',
+    // Still serving, but Redis-backed limits are per replica until it recovers
+    status: rateLimit.healthy ? 'healthy' : 'degraded',
     version: '1.0.0',
     uptime,
     timestamp: new Date().toISOString(),
     cache: {
       enabled: true,
+      backend: getCacheBackendName(),
       entries: stats.totalEntries,
       size: stats.totalSize,
       hitRate: getCacheHitRate()
-    }
+    },
+    rateLimit
   };
 
   return c.json(response);
 });
 
+// ============================================
+// Metrics
+// ============================================
+
+app.get('/metrics', (c: Context) => {
+  if (!config.enableMetrics) {
+    throw new OGFrameError('NOT_FOUND', 'Metrics are disabled', 404);
+  }
+
+  authorizeMetrics(
+    getConnInfo(c).remote.address,
+    c.req.header('authorization') ?? c.req.query('key') ?? null
+  );
+  return c.body(renderMetrics(), 200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+});
+
 // ============================================
 // Admin Endpoints
 // ============================================
 
+/**
+ * Parse an optional ISO date query parameter
+ */
+function parseDateParam(value: string | undefined, name: string): Date | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new OGFrameError('INVALID_PARAMS', `Invalid date for ${name}: use ISO 8601`, 400);
+  }
+  return date;
+}
+
 // Get cache stats
 app.get('/admin/cache/stats', (c: Context) => {
   const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
@@ -197,13 +416,78 @@ app.get('/admin/cache/stats', (c: Context) => {
   return c.json(stats);
 });
 
+// Hourly hits, misses and generations, optionally for one key and/or domain
+app.get('/admin/stats/timeseries', (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  const keyId = c.req.query('keyId') || undefined;
+  const domain = c.req.query('domain') || undefined;
+  const buckets = getTimeseries({
+    keyId,
+    domain,
+    since: parseDateParam(c.req.query('since'), 'since'),
+    until: parseDateParam(c.req.query('until'), 'until')
+  });
+
+  return c.json({ bucketSize: 'hour', keyId: keyId ?? null, domain: domain ?? null, buckets });
+});
+
+// Per-key usage for a day or month (default: current month)
+app.get('/admin/usage', (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  const period = (c.req.query('period') || 'monthly') as UsagePeriod;
+  if (period !== 'daily' && period !== 'monthly') {
+    throw new OGFrameError('INVALID_PARAMS', 'Invalid period: use "daily" or "monthly"', 400);
+  }
+
+  const date = c.req.query('date') || getPeriodKey(period);
+  const datePattern = period === 'daily' ? /^\d{4}-\d{2}-\d{2}$/ : /^\d{4}-\d{2}$/;
+  if (!datePattern.test(date)) {
+    throw new OGFrameError(
+      'INVALID_PARAMS',
+      `Invalid date: use ${period === 'daily' ? 'YYYY-MM-DD' : 'YYYY-MM'}`,
+      400
+    );
+  }
+
+  let keys = getUsageReport(getKeyConfig(), period, date);
+  const keyId = c.req.query('keyId');
+  if (keyId) {
+    keys = keys.filter(row => row.keyId === keyId);
+  }
+
+  return c.json({ period, date, keys });
+});
+
+// Query cache entries by URL, domain and/or creation date
+app.get('/admin/cache/entries', (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  const url = c.req.query('url');
+  const limit = parseInt(c.req.query('limit') || '100', 10);
+
+  const entries = findCacheEntries({
+    url: url ? normalizeUrl(url) : undefined,
+    domain: c.req.query('domain') || undefined,
+    since: parseDateParam(c.req.query('since'), 'since'),
+    until: parseDateParam(c.req.query('until'), 'until'),
+    limit: Math.min(Math.max(isNaN(limit) ? 100 : limit, 1), 1000)
+  });
+
+  return c.json({ count: entries.length, entries });
+});
+
 // Delete specific cache entry
-app.delete('/admin/cache/:key', (c: Context) => {
+app.delete('/admin/cache/:key', async (c: Context) => {
   const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
   requireAdminAuth(authHeader);
 
   const cacheKey = c.req.param('key');
-  const deleted = deleteCacheEntry(cacheKey);
+  const deleted = await deleteCacheEntry(cacheKey);
 
   if (!deleted) {
     throw new OGFrameError('NOT_FOUND', 'Cache entry not found', 404);
@@ -212,24 +496,223 @@ app.delete('/admin/cache/:key', (c: Context) => {
   return c.json({ success: true, cacheKey });
 });
 
-// Purge entire cache
-app.delete('/admin/cache', (c: Context) => {
+// Pin entry (never evicted)
+app.put('/admin/cache/:key/pin', async (c: Context) => {
   const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
   requireAdminAuth(authHeader);
 
-  const all = c.req.query('all');
-  if (all !== 'true') {
+  const cacheKey = c.req.param('key');
+  const entry = await setCacheEntryPinned(cacheKey, true);
+
+  if (!entry) {
+    throw new OGFrameError('NOT_FOUND', 'Cache entry not found', 404);
+  }
+
+  return c.json({ success: true, cacheKey, pinned: true });
+});
+
+// Unpin entry
+app.delete('/admin/cache/:key/pin', async (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  const cacheKey = c.req.param('key');
+  const entry = await setCacheEntryPinned(cacheKey, false);
+
+  if (!entry) {
+    throw new OGFrameError('NOT_FOUND', 'Cache entry not found', 404);
+  }
+
+  return c.json({ success: true, cacheKey, pinned: false });
+});
+
+/**
+ * Parse ?olderThan= as an ISO date ("2026", "2026-01-31T12:00Z") or a duration with a unit ("30d", "12h")
+ */
+function parseOlderThan(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+
+  const date = parseAgeOrDate(value);
+  if (!date) {
     throw new OGFrameError(
       'INVALID_PARAMS',
-      'Must provide ?all=true to purge entire cache',
+      'Invalid olderThan: use an ISO 8601 date or a duration with a unit (30d, 12h, 90m, 60s)',
       400
     );
   }
+  return date;
+}
+
+// Purge the entire cache (?all=true) or entries matching filters
+// Filters: url, domain, prefix, olderThan, keyId; ?dryRun=true only lists matches
+app.delete('/admin/cache', async (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  const url = c.req.query('url');
+  const prefix = c.req.query('prefix');
+  const query = {
+    url: url ? normalizeUrl(url) : undefined,
+    domain: c.req.query('domain') || undefined,
+    prefix: prefix ? normalizeUrlPrefix(prefix) : undefined,
+    until: parseOlderThan(c.req.query('olderThan')),
+    keyId: c.req.query('keyId') || undefined
+  };
+  const hasFilter = Object.values(query).some(value => value !== undefined);
+  const dryRun = c.req.query('dryRun') === 'true';
+
+  if (!hasFilter) {
+    if (c.req.query('all') !== 'true') {
+      throw new OGFrameError(
+        'INVALID_PARAMS',
+        'Provide a filter (url, domain, prefix, olderThan, keyId) or ?all=true to purge entire cache',
+        400
+      );
+    }
+    if (dryRun) {
+      return c.json({ success: true, dryRun, purgedEntries: getCacheStats().totalEntries });
+    }
+
+    const count = await purgeCache();
+    logger.info('Cache purged by admin', { count });
+
+    return c.json({ success: true, dryRun, purgedEntries: count });
+  }
+
+  const entries = await purgeCacheEntries(query, dryRun);
+  if (!dryRun) {
+    logger.info('Cache entries purged by admin', { ...query, count: entries.length });
+  }
+
+  return c.json({
+    success: true,
+    dryRun,
+    purgedEntries: entries.length,
+    entries: entries.map(entry => ({
+      cacheKey: entry.cacheKey,
+      url: entry.url,
+      width: entry.width,
+      height: entry.height,
+      size: entry.size,
+      createdAt: entry.createdAt,
+      ...(entry.keyId && { keyId: entry.keyId })
+    }))
+  });
+});
+
+/**
+ * Parse a JSON object request body
+ */
+async function readJsonBody(c: Context): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    throw new OGFrameError('INVALID_PARAMS', 'Request body must be valid JSON', 400);
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new OGFrameError('INVALID_PARAMS', 'Request body must be a JSON object', 400);
+  }
+  return body as Record<string, unknown>;
+}
+
+// Warm cache from a list of URLs or a sitemap (runs in the background)
+app.post('/admin/warm', async (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  const job = startWarmJob(await readJsonBody(c));
+  return c.json({ success: true, job }, 202);
+});
+
+// List warming jobs
+app.get('/admin/warm', (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  return c.json({ jobs: listWarmJobs() });
+});
+
+// Warming job progress
+app.get('/admin/warm/:jobId', (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  const job = getWarmJob(c.req.param('jobId'));
+  if (!job) {
+    throw new OGFrameError('NOT_FOUND', 'Warming job not found', 404);
+  }
+
+  return c.json({ job });
+});
 
-  const count = purgeCache();
-  logger.info('Cache purged by admin', { count });
+// List keys (secrets are never returned)
+app.get('/admin/keys', (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
 
-  return c.json({ success: true, purgedEntries: count });
+  return c.json({ keys: listKeys() });
+});
+
+// Create public or admin key
+app.post('/admin/keys', async (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  const body = await readJsonBody(c);
+  const type = body.type ?? 'public';
+
+  if (type === 'admin') {
+    const { key, apiKey } = createAdminKey(body);
+    // Only chance to see the plaintext admin key
+    return c.json({ success: true, key, apiKey }, 201);
+  }
+
+  if (type !== 'public') {
+    throw new OGFrameError('INVALID_PARAMS', 'Invalid type: use "public" or "admin"', 400);
+  }
+
+  return c.json({ success: true, ...createPublicKey(body) }, 201);
+});
+
+// Get public key
+app.get('/admin/keys/:keyId', (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  return c.json({ key: getKey(c.req.param('keyId')) });
+});
+
+// Update domains, rate limits and other settings
+app.patch('/admin/keys/:keyId', async (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  const body = await readJsonBody(c);
+  return c.json({ success: true, ...updatePublicKey(c.req.param('keyId'), body) });
+});
+
+// Rotate key (old key revoked, or valid for gracePeriod seconds)
+app.post('/admin/keys/:keyId/rotate', async (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  const body = c.req.header('content-type')?.includes('application/json') ? await readJsonBody(c) : {};
+  const gracePeriod = body.gracePeriod ?? 0;
+  if (typeof gracePeriod !== 'number' || !Number.isInteger(gracePeriod) || gracePeriod < 0) {
+    throw new OGFrameError('INVALID_PARAMS', 'gracePeriod must be a non-negative number of seconds', 400);
+  }
+
+  return c.json({ success: true, ...rotatePublicKey(c.req.param('keyId'), gracePeriod) });
+});
+
+// Revoke key
+app.delete('/admin/keys/:keyId', (c: Context) => {
+  const authHeader = c.req.header('authorization') ?? c.req.query('key') ?? null;
+  requireAdminAuth(authHeader);
+
+  return c.json({ success: true, key: revokePublicKey(c.req.param('keyId')) });
 });
 
 // ============================================
@@ -243,7 +726,14 @@ async function main() {
     // Initialize services
     logger.info('Initializing services...');
     initAuth();
-    initCache();
+    initResources();
+    if (config.watchApiKeys) {
+      watchKeys();
+    }
+    initRateLimit();
+    initStats();
+    initUsage();
+    await initCache();
 
     // Start server
     const port = config.port;
@@ -257,6 +747,8 @@ async function main() {
     logger.info('OGFrame server started successfully', {
       port,
       environment: config.nodeEnv,
+      cacheBackend: config.cacheBackend,
+      rateLimitStore: config.rateLimitStore,
       cacheDir: config.cacheDir
     });
 
@@ -283,15 +775,37 @@ async function main() {
 }
 
 // Handle graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully...');
-  process.exit(0);
-});
+async function shutdown(signal: string) {
+  logger.info(`${signal} received, shutting down gracefully...`);
+  unwatchKeys();
+
+  try {
+    await closeCache();
+  } catch (error) {
+    logger.error('Failed to flush cache on shutdown', { error });
+  }
+
+  closeStats();
+  closeUsage();
+
+  try {
+    await closeRateLimit();
+  } catch (error) {
+    logger.error('Failed to close rate limit store on shutdown', { error });
+  }
+
+  try {
+    await browserPool.close();
+  } catch (error) {
+    logger.error('Failed to close browsers on shutdown', { error });
+  }
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully...');
   process.exit(0);
-});
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGHUP', () => reloadKeys('SIGHUP'));
 
 // Start server
 main();
@@ -1,29 +1,119 @@
 /**
  * Authentication Service
  * API key validation and domain scoping
+ *
+ * keys.json is reloaded when the file changes and on SIGHUP. A new file
+ * is validated in full first; if it is invalid the current keys stay active.
  */
 
+import { watch, type FSWatcher } from 'fs';
+import { basename, dirname, resolve } from 'path';
 import type { ApiKey, AdminKey, KeyConfig } from '../types.js';
 import { OGFrameError } from '../types.js';
 import { timingSafeCompare, hashKey } from '../utils/crypto.js';
-import { loadKeys } from '../config.js';
+import { signParams, SIGNATURE_PARAM, EXPIRY_PARAM } from '../utils/signing.js';
+import { validateKeyConfig } from '../utils/keyValidation.js';
+import config, { loadKeys } from '../config.js';
 import { logger } from '../utils/logger.js';
 
+const RELOAD_DEBOUNCE = 250; // Editors emit several events per save
+
 let keyConfig: KeyConfig;
+let watcher: FSWatcher | null = null;
+let reloadTimer: NodeJS.Timeout | null = null;
 
 /**
  * Initialize auth service by loading keys
  */
 export function initAuth(): void {
-  keyConfig = loadKeys();
+  keyConfig = validateKeyConfig(loadKeys());
   logger.info('Auth service initialized', {
     publicKeys: keyConfig.keys.filter(k => k.type === 'public').length,
     adminKeys: keyConfig.keys.filter(k => k.type === 'admin').length
   });
 }
 
+/**
+ * Reload keys.json, keeping the current keys if the new file is invalid
+ */
+export function reloadKeys(reason: string): boolean {
+  let next: KeyConfig;
+  try {
+    next = validateKeyConfig(loadKeys());
+  } catch (error) {
+    logger.error('Rejected API keys reload, keeping current keys', {
+      reason,
+      error: error instanceof Error ? error.message : String(error),
+      ...(error instanceof OGFrameError && { details: error.details })
+    });
+    return false;
+  }
+
+  const diff = diffKeyConfigs(keyConfig, next);
+  keyConfig = next;
+
+  if (diff.added.length + diff.removed.length + diff.changed.length === 0) {
+    logger.debug('API keys reloaded, no changes', { reason });
+  } else {
+    logger.audit('API keys reloaded', { reason, ...diff });
+  }
+  return true;
+}
+
+/**
+ * Watch API_KEYS_FILE for changes
+ * Watches the directory, since editors and atomic writes replace the file
+ */
+export function watchKeys(): void {
+  if (watcher) return;
+
+  const keysPath = resolve(config.apiKeysFile);
+  const fileName = basename(keysPath);
+
+  try {
+    watcher = watch(dirname(keysPath), (_event, changed) => {
+      if (changed !== fileName) return;
+
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        reloadTimer = null;
+        reloadKeys('file change');
+      }, RELOAD_DEBOUNCE);
+    });
+    watcher.unref();
+    logger.info('Watching API keys file', { path: keysPath });
+  } catch (error) {
+    // Reload via SIGHUP still works
+    logger.warn('Cannot watch API keys file', { path: keysPath, error });
+  }
+}
+
+export function unwatchKeys(): void {
+  if (reloadTimer) clearTimeout(reloadTimer);
+  watcher?.close();
+  watcher = null;
+}
+
+/**
+ * Current key config (for key management)
+ */
+export function getKeyConfig(): KeyConfig {
+  if (!keyConfig) {
+    throw new Error('Auth service not initialized');
+  }
+  return keyConfig;
+}
+
+/**
+ * Swap in a new key config (takes effect for the next request)
+ */
+export function setKeyConfig(next: KeyConfig): void {
+  keyConfig = next;
+}
+
 /**
  * Validate API key and return key config
+ * Throws KEY_REVOKED for revoked keys, returns null for unknown/expired keys
  */
 export function validateApiKey(providedKey: string): ApiKey | null {
   if (!keyConfig) {
@@ -35,6 +125,13 @@ export function validateApiKey(providedKey: string): ApiKey | null {
     if (key.type === 'public') {
       const publicKey = key as ApiKey;
       if (timingSafeCompare(publicKey.keyId, providedKey)) {
+        if (publicKey.revokedAt) {
+          logger.warn('Revoked key used', { keyId: publicKey.keyId });
+          throw new OGFrameError('KEY_REVOKED', 'API key has been revoked', 401, {
+            revokedAt: publicKey.revokedAt
+          });
+        }
+
         // Check expiration
         if (publicKey.expiresAt) {
           const expiryDate = new Date(publicKey.expiresAt);
@@ -56,6 +153,13 @@ export function validateApiKey(providedKey: string): ApiKey | null {
     if (key.type === 'admin') {
       const adminKey = key as AdminKey;
       if (timingSafeCompare(adminKey.keyHash, providedHash)) {
+        if (adminKey.revokedAt) {
+          logger.warn('Revoked admin key used', { name: adminKey.name });
+          throw new OGFrameError('KEY_REVOKED', 'API key has been revoked', 401, {
+            revokedAt: adminKey.revokedAt
+          });
+        }
+
         logger.debug('Valid admin key', { name: adminKey.name });
         // Convert AdminKey to ApiKey format for consistency
         return {
@@ -122,3 +226,97 @@ export function requireAdminAuth(authHeader: string | null): ApiKey {
 
   return key;
 }
+
+/**
+ * Allow metrics scrapes from METRICS_ALLOWED_IPS and/or with an admin key
+ * The allowlist is checked against the socket address, not X-Forwarded-For
+ */
+export function authorizeMetrics(remoteAddress: string | undefined, authHeader: string | null): void {
+  const allowedIps = config.metricsAllowedIps;
+
+  if (allowedIps.length > 0) {
+    const address = remoteAddress?.replace(/^::ffff:/, '');
+    if (address && allowedIps.includes(address)) return;
+
+    if (!config.metricsRequireAuth) {
+      throw new OGFrameError('FORBIDDEN', 'Metrics are not available from this address', 403);
+    }
+  }
+
+  if (config.metricsRequireAuth) {
+    requireAdminAuth(authHeader);
+  }
+}
+
+/**
+ * Verify signed request parameters for keys with a signing secret
+ * "optional" keys accept unsigned requests but still reject bad signatures
+ */
+export function verifySignature(apiKey: ApiKey, params: URLSearchParams): void {
+  if (!apiKey.signingSecret) return;
+
+  const signature = params.get(SIGNATURE_PARAM);
+  if (!signature) {
+    if ((apiKey.signature ?? 'required') === 'optional') return;
+    throw new OGFrameError(
+      'SIGNATURE_REQUIRED',
+      'This key requires a signed URL (sig parameter)',
+      403
+    );
+  }
+
+  const expected = signParams(params.entries(), apiKey.signingSecret);
+  if (!timingSafeCompare(expected, signature)) {
+    logger.warn('Invalid URL signature', { keyId: apiKey.keyId });
+    throw new OGFrameError('INVALID_SIGNATURE', 'Invalid URL signature', 403);
+  }
+
+  // Expiry is covered by the signature, so it can only be checked after it
+  const expiry = params.get(EXPIRY_PARAM);
+  if (expiry !== null) {
+    const expiresAt = parseInt(expiry, 10) * 1000;
+    if (isNaN(expiresAt) || expiresAt < Date.now()) {
+      throw new OGFrameError('SIGNATURE_EXPIRED', 'Signed URL has expired', 403, {
+        expiredAt: isNaN(expiresAt) ? null : new Date(expiresAt).toISOString()
+      });
+    }
+  }
+}
+
+/**
+ * Identity of a key for diffs (admin keys by name and hash prefix)
+ */
+function keyIdentity(key: ApiKey | AdminKey): string {
+  return key.type === 'admin'
+    ? `admin:${key.name}:${(key as AdminKey).keyHash.slice(0, 8)}`
+    : (key as ApiKey).keyId;
+}
+
+/**
+ * Which keys were added, removed or changed (and which fields)
+ */
+function diffKeyConfigs(previous: KeyConfig, next: KeyConfig): {
+  added: string[];
+  removed: string[];
+  changed: Array<{ key: string; fields: string[] }>;
+} {
+  const before = new Map(previous.keys.map(k => [keyIdentity(k), k as unknown as Record<string, unknown>]));
+  const after = new Map(next.keys.map(k => [keyIdentity(k), k as unknown as Record<string, unknown>]));
+
+  const added = [...after.keys()].filter(id => !before.has(id));
+  const removed = [...before.keys()].filter(id => !after.has(id));
+  const changed: Array<{ key: string; fields: string[] }> = [];
+
+  for (const [id, key] of after) {
+    const old = before.get(id);
+    if (!old) continue;
+
+    const fields = [...new Set([...Object.keys(old), ...Object.keys(key)])]
+      .filter(field => JSON.stringify(old[field]) !== JSON.stringify(key[field]));
+    if (fields.length > 0) {
+      changed.push({ key: id, fields });
+    }
+  }
+
+  return { added, removed, changed };
+}
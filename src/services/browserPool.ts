@@ -0,0 +1,251 @@
+/**
+ * Browser Pool
+ * Long-lived Chromium instances with an isolated BrowserContext per job
+ *
+ * - One slot per concurrent screenshot (MAX_CONCURRENT_SCREENSHOTS)
+ * - Browsers are recycled after BROWSER_RECYCLE_PAGES jobs or when their
+ *   largest process exceeds BROWSER_MAX_MEMORY_MB (checked at most every
+ *   MEMORY_CHECK_INTERVAL per browser)
+ * - Crashed browsers are relaunched automatically
+ * - Jobs wait for a free slot at most BROWSER_QUEUE_TIMEOUT, then fail with
+ *   SCREENSHOT_QUEUE_TIMEOUT
+ */
+
+import { chromium, type Browser, type BrowserContext, type BrowserContextOptions, type BrowserServer } from 'playwright';
+import { logger } from '../utils/logger.js';
+import { getLargestProcessRss } from '../utils/process.js';
+import { OGFrameError } from '../types.js';
+import config from '../config.js';
+
+const MEMORY_CHECK_INTERVAL = 10000; // Milliseconds between memory checks per browser
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-gpu',
+  '--hide-scrollbars',
+  '--mute-audio'
+];
+
+interface PoolSlot {
+  id: number;
+  server: BrowserServer | null;
+  browser: Browser | null;
+  launching: Promise<Browser> | null;
+  pages: number;
+  busy: boolean;
+  memoryCheckedAt: number;
+}
+
+interface Waiter {
+  resolve: (slot: PoolSlot) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface PoolStats {
+  size: number;
+  busy: number;
+  queued: number;
+  browsers: number;
+  recycled: number;
+  crashed: number;
+}
+
+export class BrowserPool {
+  private slots: PoolSlot[];
+  private queue: Waiter[] = [];
+  private closing = false;
+  private recycled = 0;
+  private crashed = 0;
+
+  constructor(size: number) {
+    this.slots = Array.from({ length: size }, (_, id) => ({
+      id,
+      server: null,
+      browser: null,
+      launching: null,
+      pages: 0,
+      busy: false,
+      memoryCheckedAt: 0
+    }));
+  }
+
+  /**
+   * Run a job in a fresh context on a pooled browser
+   */
+  async run<T>(
+    contextOptions: BrowserContextOptions,
+    job: (context: BrowserContext) => Promise<T>
+  ): Promise<T> {
+    const slot = await this.acquire();
+
+    try {
+      const browser = await this.ensureBrowser(slot);
+      const context = await browser.newContext(contextOptions);
+
+      try {
+        return await job(context);
+      } finally {
+        slot.pages++;
+        await context.close().catch(error => {
+          logger.warn('Error closing browser context', { slot: slot.id, error });
+        });
+      }
+    } finally {
+      await this.maybeRecycle(slot);
+      this.release(slot);
+    }
+  }
+
+  getStats(): PoolStats {
+    return {
+      size: this.slots.length,
+      busy: this.slots.filter(s => s.busy).length,
+      queued: this.queue.length,
+      browsers: this.slots.filter(s => s.browser).length,
+      recycled: this.recycled,
+      crashed: this.crashed
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    await Promise.all(this.slots.map(slot => this.closeBrowser(slot)));
+  }
+
+  private async acquire(): Promise<PoolSlot> {
+    const free = this.slots.find(s => !s.busy);
+    if (free) {
+      free.busy = true;
+      return free;
+    }
+
+    return new Promise<PoolSlot>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          reject(new OGFrameError(
+            'SCREENSHOT_QUEUE_TIMEOUT',
+            `No browser became free within ${config.browserQueueTimeout}ms`,
+            503,
+            { queued: this.queue.length }
+          ));
+        }, config.browserQueueTimeout)
+      };
+      this.queue.push(waiter);
+    });
+  }
+
+  private release(slot: PoolSlot): void {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      clearTimeout(next.timer);
+      next.resolve(slot);
+    } else {
+      slot.busy = false;
+    }
+  }
+
+  private async ensureBrowser(slot: PoolSlot): Promise<Browser> {
+    if (slot.browser?.isConnected()) return slot.browser;
+    if (slot.launching) return slot.launching;
+
+    slot.launching = this.launch(slot).finally(() => {
+      slot.launching = null;
+    });
+    return slot.launching;
+  }
+
+  private async launch(slot: PoolSlot): Promise<Browser> {
+    const startTime = Date.now();
+
+    // launchServer gives us the process (for memory checks), connect gives the API
+    const server = await chromium.launchServer({
+      headless: true,
+      args: LAUNCH_ARGS,
+      timeout: 30000
+    });
+
+    let browser: Browser;
+    try {
+      browser = await chromium.connect(server.wsEndpoint());
+    } catch (error) {
+      await server.kill().catch(() => undefined);
+      throw error;
+    }
+
+    slot.server = server;
+    slot.browser = browser;
+    slot.pages = 0;
+
+    browser.on('disconnected', () => {
+      if (slot.browser !== browser) return; // Closed deliberately
+
+      this.crashed++;
+      slot.browser = null;
+      logger.error('Browser disconnected unexpectedly', { slot: slot.id });
+
+      server.kill().catch(() => undefined);
+      slot.server = null;
+
+      // Relaunch in the background so the next job doesn't pay for it
+      if (!this.closing && !slot.launching) {
+        this.ensureBrowser(slot).catch(error => {
+          logger.error('Failed to relaunch browser', { slot: slot.id, error });
+        });
+      }
+    });
+
+    logger.info('Browser launched', {
+      slot: slot.id,
+      pid: server.process().pid,
+      duration: Date.now() - startTime
+    });
+
+    return browser;
+  }
+
+  private async maybeRecycle(slot: PoolSlot): Promise<void> {
+    if (!slot.browser || !slot.server) return;
+
+    let reason: string | null = null;
+
+    if (slot.pages >= config.browserRecyclePages) {
+      reason = 'page limit';
+    } else if (config.browserMaxMemoryMb > 0 && Date.now() - slot.memoryCheckedAt >= MEMORY_CHECK_INTERVAL) {
+      slot.memoryCheckedAt = Date.now();
+      const pid = slot.server.process().pid;
+      const rss = pid ? await getLargestProcessRss(pid) : null;
+      if (rss !== null && rss > config.browserMaxMemoryMb * 1024 * 1024) {
+        reason = `memory ${Math.round(rss / 1024 / 1024)}MB`;
+      }
+    }
+
+    if (!reason) return;
+
+    logger.info('Recycling browser', { slot: slot.id, pages: slot.pages, reason });
+    this.recycled++;
+    await this.closeBrowser(slot);
+  }
+
+  private async closeBrowser(slot: PoolSlot): Promise<void> {
+    const { browser, server } = slot;
+    slot.browser = null;
+    slot.server = null;
+
+    try {
+      if (browser) await browser.close();
+      if (server) await server.close();
+    } catch (error) {
+      logger.warn('Error during browser cleanup', { slot: slot.id, error });
+      if (server) await server.kill().catch(() => undefined);
+    }
+  }
+}
+
+export const browserPool = new BrowserPool(config.maxConcurrentScreenshots);
+
+export default browserPool;
@@ -1,134 +1,371 @@
 /**
  * Cache Service
- * File-based caching with metadata tracking
+ * Pluggable storage (file system or S3) with in-memory metadata tracking
+ * and LRU/LFU eviction against CACHE_MAX_SIZE / CACHE_MAX_ENTRIES
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync, statSync, unlinkSync, readdirSync } from 'fs';
-import { join, dirname } from 'path';
-import type { CacheEntry, CacheMetadata, CacheStatsResponse } from '../types.js';
+import type { ApiKey, CacheBackend, CacheEntry, CacheMetadata, CacheQuery, CacheStatsResponse, ImageSize, OutputFormat, ReadyResult } from '../types.js';
 import { generateCacheKey } from '../utils/crypto.js';
-import { logger } from '../utils/logger.js';
+import { DEFAULT_SIZE } from '../utils/size.js';
+import { PNG_OUTPUT, getVariantName } from '../utils/format.js';
+import { formatBytes, parseBytes } from '../utils/bytes.js';
+import { encodeImage } from './encoder.js';
+import { EvictionQueue, getEntryBytes, selectForEviction, type EvictionPolicy } from './eviction.js';
+import { CacheIndex } from './cacheIndex.js';
+import { getHitRates } from './stats.js';
 import config from '../config.js';
+import { logger } from '../utils/logger.js';
+import { createCacheBackend } from './storage/index.js';
+
+interface SaveOptions {
+  cacheKey?: string;   // Defaults to hash of normalized URL
+  size?: ImageSize;    // Defaults to the "og" preset
+  selector?: string;   // Element screenshot selector
+  ready?: ReadyResult; // How the page was judged ready
+  keyId?: string;      // Key that requested the generation
+  ttl?: number;        // Seconds until stale, 0/absent = never
+}
 
-const CACHE_DIR = config.cacheDir;
-const IMAGES_DIR = join(CACHE_DIR, 'images');
-const METADATA_FILE = join(CACHE_DIR, 'metadata.json');
+/**
+ * Cached image for a request
+ */
+export interface CachedImage {
+  buffer: Buffer;        // Requested format, or the PNG master when needsEncode is set
+  entry: CacheEntry;
+  needsEncode: boolean;  // Variant missing: pass buffer to encodeVariant()
+}
+
+let backend: CacheBackend;
+
+const DEFAULT_MAX_BYTES = 10 * 1024 ** 3; // 10GB
 
 // In-memory cache for fast access
 let metadata: CacheMetadata = {};
+const index = new CacheIndex();
 let cacheHits = 0;
 let cacheMisses = 0;
 
+// Size tracking and eviction
+let totalBytes = 0;
+let maxBytes = DEFAULT_MAX_BYTES;
+let evictionPolicy: EvictionPolicy = 'lru';
+let evictionQueue = new EvictionQueue(evictionPolicy);
+let evictionCount = 0;
+let evictedBytes = 0;
+let lastEvictedAt: string | null = null;
+
 /**
- * Initialize cache directories and load metadata
+ * Initialize storage backend and load metadata
  */
-export function initCache(): void {
-  // Create directories
-  if (!existsSync(CACHE_DIR)) {
-    mkdirSync(CACHE_DIR, { recursive: true });
-    logger.info('Created cache directory', { path: CACHE_DIR });
+export async function initCache(): Promise<void> {
+  backend = createCacheBackend();
+  await backend.init();
+
+  const parsedMaxBytes = parseBytes(config.cacheMaxSize);
+  if (parsedMaxBytes === null || parsedMaxBytes <= 0) {
+    logger.warn('Invalid CACHE_MAX_SIZE, using default', {
+      value: config.cacheMaxSize,
+      default: formatBytes(DEFAULT_MAX_BYTES)
+    });
+    maxBytes = DEFAULT_MAX_BYTES;
+  } else {
+    maxBytes = parsedMaxBytes;
   }
 
-  if (!existsSync(IMAGES_DIR)) {
-    mkdirSync(IMAGES_DIR, { recursive: true });
-    logger.info('Created images directory', { path: IMAGES_DIR });
+  if (config.cacheEviction !== 'lru' && config.cacheEviction !== 'lfu') {
+    logger.warn('Invalid CACHE_EVICTION, using lru', { value: config.cacheEviction });
+    evictionPolicy = 'lru';
+  } else {
+    evictionPolicy = config.cacheEviction;
   }
 
-  // Load or create metadata
-  if (existsSync(METADATA_FILE)) {
-    try {
-      const data = readFileSync(METADATA_FILE, 'utf-8');
-      metadata = JSON.parse(data);
-      logger.info('Loaded cache metadata', {
+  metadata = await backend.loadMetadata();
+  totalBytes = Object.values(metadata).reduce((sum, e) => sum + getEntryBytes(e), 0);
+  index.rebuild(Object.values(metadata));
+  evictionQueue = new EvictionQueue(evictionPolicy);
+  for (const entry of Object.values(metadata)) {
+    evictionQueue.update(entry);
+  }
+
+  logger.info('Loaded cache metadata', {
+    backend: backend.name,
+    entries: Object.keys(metadata).length,
+    size: formatBytes(totalBytes),
+    maxSize: formatBytes(maxBytes),
+    maxEntries: config.cacheMaxEntries,
+    eviction: evictionPolicy
+  });
+
+  // Limits may have been lowered since the cache was written
+  await makeRoom(0, 0);
+}
+
+/**
+ * Add or replace entry in the in-memory index, keeping totals in sync
+ */
+function indexEntry(entry: CacheEntry): void {
+  const previous = metadata[entry.cacheKey];
+  if (previous) {
+    totalBytes -= getEntryBytes(previous);
+    index.remove(previous);
+  }
+  metadata[entry.cacheKey] = entry;
+  totalBytes += getEntryBytes(entry);
+  index.add(entry);
+  evictionQueue.update(entry);
+}
+
+/**
+ * Remove entry from the in-memory index, keeping totals in sync
+ */
+function unindexEntry(cacheKey: string): void {
+  const previous = metadata[cacheKey];
+  if (!previous) return;
+  totalBytes -= getEntryBytes(previous);
+  index.remove(previous);
+  evictionQueue.remove(cacheKey);
+  delete metadata[cacheKey];
+}
+
+/**
+ * Evict entries until incoming bytes/entries fit within the limits
+ */
+async function makeRoom(
+  incomingBytes: number,
+  incomingEntries: number,
+  protect: Set<string> = new Set()
+): Promise<void> {
+  const bytesToFree = totalBytes + incomingBytes - maxBytes;
+  const entriesToFree = Object.keys(metadata).length + incomingEntries - config.cacheMaxEntries;
+
+  const victims = selectForEviction(evictionQueue, bytesToFree, entriesToFree, protect);
+
+  if (victims.length === 0) {
+    if (bytesToFree > 0 || entriesToFree > 0) {
+      logger.warn('Cache over limit but nothing evictable (pinned entries)', {
+        size: formatBytes(totalBytes),
         entries: Object.keys(metadata).length
       });
-    } catch (error) {
-      logger.error('Failed to load cache metadata', { error });
-      metadata = {};
     }
-  } else {
-    metadata = {};
-    saveMetadata();
-    logger.info('Initialized new cache metadata');
+    return;
   }
+
+  let freed = 0;
+  for (const entry of victims) {
+    const bytes = getEntryBytes(entry);
+    if (await deleteCacheEntry(entry.cacheKey)) {
+      freed += bytes;
+      evictionCount++;
+      evictedBytes += bytes;
+    }
+  }
+  lastEvictedAt = new Date().toISOString();
+
+  logger.info('Evicted cache entries', {
+    count: victims.length,
+    freed: formatBytes(freed),
+    policy: evictionPolicy,
+    size: formatBytes(totalBytes),
+    entries: Object.keys(metadata).length
+  });
 }
 
 /**
- * Save metadata to disk
+ * Flush buffered metadata writes (call on shutdown)
  */
-function saveMetadata(): void {
-  try {
-    writeFileSync(METADATA_FILE, JSON.stringify(metadata, null, 2), 'utf-8');
-  } catch (error) {
-    logger.error('Failed to save cache metadata', { error });
+export async function closeCache(): Promise<void> {
+  if (backend) {
+    await backend.flush();
   }
 }
 
 /**
- * Get cache file path for a cache key
+ * Get name of the active storage backend
  */
-function getCacheFilePath(cacheKey: string): string {
-  // Use first 2 characters as subdirectory to avoid too many files in one dir
-  const subdir = cacheKey.slice(0, 2);
-  const subdirPath = join(IMAGES_DIR, subdir);
+export function getCacheBackendName(): string {
+  return backend ? backend.name : 'none';
+}
 
-  if (!existsSync(subdirPath)) {
-    mkdirSync(subdirPath, { recursive: true });
-  }
+/**
+ * Look up entry in memory, falling back to the backend
+ * (another replica may have written it)
+ */
+async function lookupEntry(cacheKey: string): Promise<CacheEntry | null> {
+  const entry = metadata[cacheKey];
+  if (entry) return entry;
 
-  return join(subdirPath, `${cacheKey}.png`);
+  try {
+    const remote = await backend.getEntry(cacheKey);
+    if (remote) {
+      indexEntry(remote);
+    }
+    return remote;
+  } catch (error) {
+    logger.error('Failed to look up cache entry', { cacheKey, error });
+    return null;
+  }
 }
 
 /**
  * Get cached image if exists
+ * A missing format variant is not encoded here: the PNG master is returned
+ * with needsEncode set, so the caller can rate limit before encodeVariant()
  */
-export async function getFromCache(normalizedUrl: string): Promise<Buffer | null> {
-  const cacheKey = generateCacheKey(normalizedUrl);
-  const entry = metadata[cacheKey];
+export async function getFromCache(
+  normalizedUrl: string,
+  cacheKey: string = generateCacheKey(normalizedUrl),
+  output: OutputFormat = PNG_OUTPUT
+): Promise<CachedImage | null> {
+  const entry = await lookupEntry(cacheKey);
 
   if (!entry) {
     cacheMisses++;
     return null;
   }
 
-  // Check if file exists
-  if (!existsSync(entry.filePath)) {
+  // Stored variant for the requested format, if any
+  const variantBuffer = await readVariant(entry, output);
+  if (variantBuffer) {
+    recordHit(entry, normalizedUrl);
+    return { buffer: variantBuffer, entry, needsEncode: false };
+  }
+
+  // Read PNG master
+  let imageBuffer: Buffer | null;
+  try {
+    imageBuffer = await backend.readImage(entry.filePath);
+  } catch (error) {
+    logger.error('Failed to read cached image', {
+      url: normalizedUrl,
+      cacheKey,
+      error
+    });
+    cacheMisses++;
+    return null;
+  }
+
+  if (!imageBuffer) {
     logger.warn('Cache metadata exists but file missing', {
       url: normalizedUrl,
       cacheKey
     });
-    delete metadata[cacheKey];
-    saveMetadata();
+    unindexEntry(cacheKey);
+    await backend.deleteEntry(cacheKey).catch(error => {
+      logger.error('Failed to delete orphaned cache entry', { cacheKey, error });
+    });
     cacheMisses++;
     return null;
   }
 
-  // Update access stats
+  recordHit(entry, normalizedUrl);
+  return { buffer: imageBuffer, entry, needsEncode: output.format !== 'png' };
+}
+
+/**
+ * Update access stats for a cache hit
+ */
+function recordHit(entry: CacheEntry, normalizedUrl: string): void {
   entry.lastAccessed = new Date().toISOString();
   entry.accessCount++;
-  saveMetadata();
+  if (metadata[entry.cacheKey] === entry) {
+    evictionQueue.update(entry);  // Unless it was deleted meanwhile
+  }
+  backend.touchEntry(entry).catch(error => {
+    logger.error('Failed to update cache access stats', { cacheKey: entry.cacheKey, error });
+  });
+
+  cacheHits++;
+  logger.debug('Cache hit', {
+    url: normalizedUrl,
+    cacheKey: entry.cacheKey,
+    accessCount: entry.accessCount
+  });
+}
+
+/**
+ * Read stored variant (only if encoded with the requested quality)
+ */
+async function readVariant(entry: CacheEntry, output: OutputFormat): Promise<Buffer | null> {
+  if (output.format === 'png') return null;
+
+  const variant = entry.variants?.[getVariantName(output)];
+  if (!variant) return null;
 
-  // Read and return image
   try {
-    const imageBuffer = readFileSync(entry.filePath);
-    cacheHits++;
-    logger.debug('Cache hit', {
-      url: normalizedUrl,
-      cacheKey,
-      accessCount: entry.accessCount
-    });
-    return imageBuffer;
+    return await backend.readImage(variant.filePath);
   } catch (error) {
-    logger.error('Failed to read cached image', {
-      url: normalizedUrl,
-      cacheKey,
+    logger.warn('Failed to read cache variant', {
+      cacheKey: entry.cacheKey,
+      format: output.format,
       error
     });
-    cacheMisses++;
     return null;
   }
 }
 
+/**
+ * Encode and store a format variant under an existing entry
+ */
+export async function encodeVariant(
+  entry: CacheEntry,
+  png: Buffer,
+  output: OutputFormat
+): Promise<Buffer> {
+  if (output.format === 'png') return png;
+
+  const encoded = await encodeImage(png, output);
+  const variantName = getVariantName(output);
+
+  try {
+    const replacedBytes = entry.variants?.[variantName]?.size ?? 0;
+    await makeRoom(encoded.length - replacedBytes, 0, new Set([entry.cacheKey]));
+
+    // A refresh may have replaced the entry (or a purge removed it) meanwhile:
+    // its metadata is newer, and the variant was encoded from the old master
+    if (metadata[entry.cacheKey] !== entry) {
+      logger.debug('Cache entry changed, not saving variant', { cacheKey: entry.cacheKey, variant: variantName });
+      return encoded;
+    }
+
+    const filePath = await backend.writeImage(`${entry.cacheKey}-q${output.quality}`, encoded, output.format);
+    if (metadata[entry.cacheKey] !== entry) {
+      if (metadata[entry.cacheKey]?.variants?.[variantName]?.filePath !== filePath) {
+        await backend.deleteImage(filePath);
+      }
+      logger.debug('Cache entry changed, not saving variant', { cacheKey: entry.cacheKey, variant: variantName });
+      return encoded;
+    }
+
+    const bytesBefore = getEntryBytes(entry);
+    entry.variants = {
+      ...entry.variants,
+      [variantName]: {
+        filePath,
+        size: encoded.length,
+        quality: output.quality,
+        createdAt: new Date().toISOString()
+      }
+    };
+    totalBytes += getEntryBytes(entry) - bytesBefore;
+    await backend.saveEntry(entry);
+
+    logger.info('Saved cache variant', {
+      cacheKey: entry.cacheKey,
+      variant: variantName,
+      size: encoded.length
+    });
+  } catch (error) {
+    // Still serve the encoded image, it just won't be cached
+    logger.error('Failed to save cache variant', {
+      cacheKey: entry.cacheKey,
+      format: output.format,
+      error
+    });
+  }
+
+  return encoded;
+}
+
 /**
  * Save image to cache
  */
@@ -136,14 +373,24 @@ export async function saveToCache(
   url: string,
   normalizedUrl: string,
   imageBuffer: Buffer,
-  generationTime: number
+  generationTime: number,
+  options: SaveOptions = {}
 ): Promise<CacheEntry> {
-  const cacheKey = generateCacheKey(normalizedUrl);
-  const filePath = getCacheFilePath(cacheKey);
+  const cacheKey = options.cacheKey ?? generateCacheKey(normalizedUrl);
+  const size = options.size ?? DEFAULT_SIZE;
+  const previous = metadata[cacheKey];
+
+  // Evict first if this save would exceed CACHE_MAX_SIZE / CACHE_MAX_ENTRIES
+  await makeRoom(
+    imageBuffer.length - (previous ? getEntryBytes(previous) : 0),
+    previous ? 0 : 1,
+    new Set([cacheKey])
+  );
 
-  // Write image file
+  // Write PNG master
+  let filePath: string;
   try {
-    writeFileSync(filePath, imageBuffer);
+    filePath = await backend.writeImage(cacheKey, imageBuffer, 'png');
   } catch (error) {
     logger.error('Failed to write cache file', {
       url,
@@ -153,6 +400,17 @@ export async function saveToCache(
     throw error;
   }
 
+  // Replacing an entry (refresh) - variants were encoded from the old master
+  if (previous?.variants) {
+    for (const variant of Object.values(previous.variants)) {
+      await backend.deleteImage(variant.filePath).catch(error => {
+        logger.warn('Failed to delete outdated cache variant', { cacheKey, error });
+      });
+    }
+  }
+
+  const now = new Date();
+
   // Create metadata entry
   const entry: CacheEntry = {
     url,
@@ -160,14 +418,36 @@ export async function saveToCache(
     cacheKey,
     filePath,
     size: imageBuffer.length,
-    createdAt: new Date().toISOString(),
-    lastAccessed: new Date().toISOString(),
-    accessCount: 1,
+    width: size.width,
+    height: size.height,
+    ...(options.selector && { selector: options.selector }),
+    ...(options.ready && { ready: options.ready }),
+    ...(options.keyId && { keyId: options.keyId }),
+    ...(previous?.pinned && { pinned: true }),
+    ...(options.ttl && {
+      ttl: options.ttl,
+      expiresAt: new Date(now.getTime() + options.ttl * 1000).toISOString()
+    }),
+    createdAt: now.toISOString(),
+    lastAccessed: now.toISOString(),
+    accessCount: (previous?.accessCount ?? 0) + 1,
     generationTime
   };
 
-  metadata[cacheKey] = entry;
-  saveMetadata();
+  // Index only what the backend has: a failed save leaves the image uncached
+  // (still served), and the previous entry, if any, in place
+  try {
+    await backend.saveEntry(entry);
+  } catch (error) {
+    logger.error('Failed to save cache metadata', { url, cacheKey, error });
+    if (!previous) {
+      await backend.deleteImage(filePath).catch(deleteError => {
+        logger.warn('Failed to delete unsaved cache file', { cacheKey, error: deleteError });
+      });
+    }
+    return entry;
+  }
+  indexEntry(entry);
 
   logger.info('Saved to cache', {
     url,
@@ -182,72 +462,153 @@ export async function saveToCache(
 /**
  * Get cache entry metadata
  */
-export function getCacheEntry(normalizedUrl: string): CacheEntry | null {
-  const cacheKey = generateCacheKey(normalizedUrl);
+export function getCacheEntry(
+  normalizedUrl: string,
+  cacheKey: string = generateCacheKey(normalizedUrl)
+): CacheEntry | null {
   return metadata[cacheKey] || null;
 }
 
+/**
+ * Find entries by URL, domain and/or creation date (oldest first)
+ */
+export function findCacheEntries(query: CacheQuery): CacheEntry[] {
+  return index.find(query).map(key => metadata[key]);
+}
+
+/**
+ * Check whether an entry has passed its TTL
+ */
+export function isEntryStale(entry: CacheEntry): boolean {
+  return entry.expiresAt !== undefined && new Date(entry.expiresAt).getTime() <= Date.now();
+}
+
+/**
+ * Resolve TTL for a key (per-key setting or CACHE_TTL)
+ */
+export function getCacheTtl(apiKey: ApiKey): number {
+  return Math.max(0, apiKey.cacheTtl ?? config.cacheTtl);
+}
+
 /**
  * Delete cache entry
  */
-export function deleteCacheEntry(cacheKey: string): boolean {
-  const entry = metadata[cacheKey];
+export async function deleteCacheEntry(cacheKey: string): Promise<boolean> {
+  const entry = await lookupEntry(cacheKey);
   if (!entry) return false;
 
-  // Delete file
-  try {
-    if (existsSync(entry.filePath)) {
-      unlinkSync(entry.filePath);
+  // Delete master and variants
+  const locations = [
+    entry.filePath,
+    ...Object.values(entry.variants || {}).map(v => v.filePath)
+  ];
+  for (const location of locations) {
+    try {
+      await backend.deleteImage(location);
+    } catch (error) {
+      logger.error('Failed to delete cache file', { cacheKey, location, error });
     }
-  } catch (error) {
-    logger.error('Failed to delete cache file', { cacheKey, error });
   }
 
   // Delete metadata
-  delete metadata[cacheKey];
-  saveMetadata();
+  unindexEntry(cacheKey);
+  try {
+    await backend.deleteEntry(cacheKey);
+  } catch (error) {
+    logger.error('Failed to delete cache metadata', { cacheKey, error });
+  }
 
   logger.info('Deleted cache entry', { cacheKey, url: entry.url });
   return true;
 }
 
+/**
+ * Pin or unpin an entry (pinned entries are never evicted)
+ */
+export async function setCacheEntryPinned(cacheKey: string, pinned: boolean): Promise<CacheEntry | null> {
+  const entry = await lookupEntry(cacheKey);
+  if (!entry) return null;
+
+  if (pinned) {
+    entry.pinned = true;
+  } else {
+    delete entry.pinned;
+  }
+  await backend.saveEntry(entry);
+
+  logger.info(pinned ? 'Pinned cache entry' : 'Unpinned cache entry', {
+    cacheKey,
+    url: entry.url
+  });
+  return entry;
+}
+
 /**
  * Purge entire cache
  */
-export function purgeCache(): number {
+export async function purgeCache(): Promise<number> {
   const keys = Object.keys(metadata);
 
   for (const key of keys) {
-    deleteCacheEntry(key);
+    await deleteCacheEntry(key);
   }
 
   logger.info('Purged entire cache', { count: keys.length });
   return keys.length;
 }
 
+/**
+ * Delete every entry matching the query, or only list them (dry run)
+ * Pinned entries are included - the caller asked for them explicitly
+ */
+export async function purgeCacheEntries(query: CacheQuery, dryRun: boolean = false): Promise<CacheEntry[]> {
+  const entries = findCacheEntries(query);
+  if (dryRun) return entries;
+
+  const purged: CacheEntry[] = [];
+  for (const entry of entries) {
+    if (await deleteCacheEntry(entry.cacheKey)) {
+      purged.push(entry);
+    }
+  }
+
+  logger.info('Purged cache entries', { query, count: purged.length });
+  return purged;
+}
+
 /**
  * Get cache statistics
  */
 export function getCacheStats(): CacheStatsResponse {
   const entries = Object.values(metadata);
 
+  const limits = {
+    maxSize: formatBytes(maxBytes),
+    maxEntries: config.cacheMaxEntries,
+    policy: evictionPolicy
+  };
+
+  const evictions = {
+    total: evictionCount,
+    freed: formatBytes(evictedBytes),
+    lastEvictedAt
+  };
+
   if (entries.length === 0) {
     return {
       totalEntries: 0,
       totalSize: '0 B',
+      pinnedEntries: 0,
+      limits,
+      evictions,
       oldestEntry: null,
       newestEntry: null,
-      hitRate: {
-        last1h: 0,
-        last24h: 0,
-        last7d: 0
-      },
+      hitRate: getHitRates(),
       topUrls: []
     };
   }
 
-  // Calculate total size
-  const totalBytes = entries.reduce((sum, e) => sum + e.size, 0);
+  // Total size is tracked incrementally
   const totalSize = formatBytes(totalBytes);
 
   // Find oldest and newest
@@ -257,10 +618,6 @@ export function getCacheStats(): CacheStatsResponse {
   const oldestEntry = sorted[0].createdAt;
   const newestEntry = sorted[sorted.length - 1].createdAt;
 
-  // Calculate hit rate
-  const totalRequests = cacheHits + cacheMisses;
-  const hitRate = totalRequests > 0 ? cacheHits / totalRequests : 0;
-
   // Top URLs by access count
   const topUrls = [...entries]
     .sort((a, b) => b.accessCount - a.accessCount)
@@ -268,40 +625,46 @@ export function getCacheStats(): CacheStatsResponse {
     .map(e => ({
       url: e.url,
       hits: e.accessCount,
-      size: formatBytes(e.size)
+      size: formatBytes(getEntryBytes(e))
     }));
 
   return {
     totalEntries: entries.length,
     totalSize,
+    pinnedEntries: entries.filter(e => e.pinned).length,
+    limits,
+    evictions,
     oldestEntry,
     newestEntry,
-    hitRate: {
-      last1h: hitRate,
-      last24h: hitRate,
-      last7d: hitRate
-    },
+    hitRate: getHitRates(),
     topUrls
   };
 }
 
 /**
- * Format bytes to human-readable string
+ * Get cache hit rate over the last 24 hours
  */
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B';
-
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-
-  return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
+export function getCacheHitRate(): number {
+  return getHitRates().last24h;
 }
 
 /**
- * Get cache hit rate
+ * Raw counters since startup (for /metrics)
  */
-export function getCacheHitRate(): number {
-  const total = cacheHits + cacheMisses;
-  return total > 0 ? cacheHits / total : 0;
+export function getCacheCounters(): {
+  hits: number;
+  misses: number;
+  evictions: number;
+  evictedBytes: number;
+  entries: number;
+  bytes: number;
+} {
+  return {
+    hits: cacheHits,
+    misses: cacheMisses,
+    evictions: evictionCount,
+    evictedBytes,
+    entries: Object.keys(metadata).length,
+    bytes: totalBytes
+  };
 }
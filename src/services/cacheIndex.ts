@@ -0,0 +1,157 @@
+/**
+ * Cache Index
+ * Secondary indexes over cache metadata (URL, domain, key, creation date)
+ * so lookups and purges don't scan every entry
+ */
+
+import type { CacheEntry, CacheQuery } from '../types.js';
+import { SortedSet } from '../utils/sortedSet.js';
+
+interface DatedKey {
+  time: number;
+  cacheKey: string;
+}
+
+export class CacheIndex {
+  private byUrl = new Map<string, Set<string>>();
+  private byHost = new Map<string, Set<string>>();
+  private byKey = new Map<string, Set<string>>();
+  private byDate = new SortedSet<DatedKey>(compareDated);
+
+  add(entry: CacheEntry): void {
+    addToSet(this.byUrl, entry.normalizedUrl, entry.cacheKey);
+
+    const host = getHost(entry.normalizedUrl);
+    if (host) {
+      addToSet(this.byHost, host, entry.cacheKey);
+    }
+    if (entry.keyId) {
+      addToSet(this.byKey, entry.keyId, entry.cacheKey);
+    }
+
+    this.byDate.add(toDated(entry));
+  }
+
+  remove(entry: CacheEntry): void {
+    removeFromSet(this.byUrl, entry.normalizedUrl, entry.cacheKey);
+
+    const host = getHost(entry.normalizedUrl);
+    if (host) {
+      removeFromSet(this.byHost, host, entry.cacheKey);
+    }
+    if (entry.keyId) {
+      removeFromSet(this.byKey, entry.keyId, entry.cacheKey);
+    }
+
+    this.byDate.delete(toDated(entry));
+  }
+
+  /**
+   * Rebuild from scratch
+   */
+  rebuild(entries: CacheEntry[]): void {
+    this.byUrl.clear();
+    this.byHost.clear();
+    this.byKey.clear();
+    this.byDate.clear();
+
+    for (const entry of entries) {
+      this.add(entry);
+    }
+  }
+
+  /**
+   * Cache keys matching every given field, oldest first
+   */
+  find(query: CacheQuery): string[] {
+    const candidates: Set<string>[] = [];
+
+    if (query.url !== undefined) {
+      candidates.push(this.byUrl.get(query.url) || new Set());
+    }
+
+    if (query.domain !== undefined) {
+      const domain = query.domain.toLowerCase();
+      const keys = new Set<string>();
+      for (const [host, hostKeys] of this.byHost) {
+        if (host === domain || host.endsWith('.' + domain)) {
+          hostKeys.forEach(key => keys.add(key));
+        }
+      }
+      candidates.push(keys);
+    }
+
+    if (query.prefix !== undefined) {
+      // "https://example.com/blog/" also matches the section page itself
+      const prefix = query.prefix.toLowerCase();
+      const page = prefix.endsWith('/') ? prefix.slice(0, -1) : null;
+      const keys = new Set<string>();
+      for (const [url, urlKeys] of this.byUrl) {
+        if (url.startsWith(prefix) || url === page) {
+          urlKeys.forEach(key => keys.add(key));
+        }
+      }
+      candidates.push(keys);
+    }
+
+    if (query.keyId !== undefined) {
+      candidates.push(this.byKey.get(query.keyId) || new Set());
+    }
+
+    // Date range narrows the sorted index, the other indexes filter it
+    const from = query.since ? { time: query.since.getTime(), cacheKey: '' } : undefined;
+    const until = query.until?.getTime() ?? Infinity;
+    const limit = query.limit ?? Infinity;
+
+    const results: string[] = [];
+    for (const { time, cacheKey } of this.byDate.values(from)) {
+      if (time >= until || results.length >= limit) break;
+      if (candidates.every(set => set.has(cacheKey))) {
+        results.push(cacheKey);
+      }
+    }
+
+    return results;
+  }
+}
+
+function getHost(normalizedUrl: string): string | null {
+  try {
+    const parsed = new URL(normalizedUrl);
+    // Template entries (template://...) have no domain
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    return parsed.hostname;
+  } catch {
+    return null;
+  }
+}
+
+function toDated(entry: CacheEntry): DatedKey {
+  return { time: new Date(entry.createdAt).getTime(), cacheKey: entry.cacheKey };
+}
+
+/**
+ * By creation date, then cache key (the empty key sorts first, for lookups)
+ */
+function compareDated(a: DatedKey, b: DatedKey): number {
+  if (a.time !== b.time) return a.time - b.time;
+  return a.cacheKey < b.cacheKey ? -1 : a.cacheKey > b.cacheKey ? 1 : 0;
+}
+
+function addToSet(map: Map<string, Set<string>>, key: string, value: string): void {
+  const set = map.get(key);
+  if (set) {
+    set.add(value);
+  } else {
+    map.set(key, new Set([value]));
+  }
+}
+
+function removeFromSet(map: Map<string, Set<string>>, key: string, value: string): void {
+  const set = map.get(key);
+  if (!set) return;
+  set.delete(value);
+  if (set.size === 0) {
+    map.delete(key);
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Egress Guard
+ * Keeps browsers and server-side fetches off private networks (SSRF protection)
+ *
+ * Browser contexts route every request through a resolved-address check and
+ * fetch it from here, connected to the checked address. Redirects are not
+ * followed, so the browser requests each Location itself and it comes back
+ * through the same check. WebSockets cannot be pinned and are refused.
+ * Responses are buffered for route.fulfill, so a capture may fetch at most
+ * CAPTURE_MAX_MB in total (and MAX_RESPONSE_BYTES per response).
+ * Set ALLOW_PRIVATE_NETWORKS=true to screenshot local or internal sites.
+ */
+
+import type { BrowserContext, Request } from 'playwright';
+import type { IncomingHttpHeaders } from 'http';
+import { OGFrameError } from '../types.js';
+import { checkDestination, pinnedRequest, resolveHost, type HostResolver } from '../utils/network.js';
+import { logger } from '../utils/logger.js';
+import config from '../config.js';
+
+const MAX_RESPONSE_BYTES = 50 * 1024 * 1024;
+
+// Set by the connection, not forwarded (bodies are sent and returned uncompressed)
+const HOP_BY_HOP_HEADERS = ['connection', 'keep-alive', 'transfer-encoding', 'upgrade', 'accept-encoding'];
+const DROPPED_RESPONSE_HEADERS = ['connection', 'keep-alive', 'transfer-encoding', 'content-length', 'content-encoding'];
+
+export interface EgressGuard {
+  blockedNavigation: OGFrameError | null;  // First blocked main-frame navigation
+}
+
+// Response bytes a context has fetched so far
+interface ByteBudget {
+  used: number;
+  max: number;
+}
+
+/**
+ * Reject (and audit) a destination that resolves to a non-public address
+ * Returns the checked address to connect to (null with ALLOW_PRIVATE_NETWORKS)
+ * `target` is what was being generated, for the audit log
+ */
+export async function assertPublicDestination(
+  url: string,
+  target: string,
+  resolve: HostResolver = resolveHost
+): Promise<string | null> {
+  if (config.allowPrivateNetworks) return null;
+
+  try {
+    return await checkDestination(url, resolve);
+  } catch (error) {
+    if (error instanceof OGFrameError && error.code === 'BLOCKED_DESTINATION') {
+      logger.audit('Blocked destination', { target, ...error.details, reason: error.message });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check and pin every request and redirect of a browser context
+ * Blocked requests are aborted; a blocked main-frame navigation is kept on the guard
+ */
+export async function confineContext(
+  context: BrowserContext,
+  target: string,
+  resolveAddresses: HostResolver = resolveHost
+): Promise<EgressGuard> {
+  const guard: EgressGuard = { blockedNavigation: null };
+  if (config.allowPrivateNetworks) return guard;
+
+  const budget: ByteBudget = { used: 0, max: config.captureMaxMb * 1024 * 1024 };
+
+  // Pages load many resources from the same few hosts
+  const lookups = new Map<string, Promise<string[]>>();
+  const resolve: HostResolver = hostname => {
+    let addresses = lookups.get(hostname);
+    if (!addresses) {
+      addresses = resolveAddresses(hostname);
+      lookups.set(hostname, addresses);
+    }
+    return addresses;
+  };
+
+  await context.route('**/*', async route => {
+    const request = route.request();
+    let address: string | null;
+
+    try {
+      address = await assertPublicDestination(request.url(), target, resolve);
+    } catch (error) {
+      if (
+        error instanceof OGFrameError &&
+        error.code === 'BLOCKED_DESTINATION' &&
+        request.isNavigationRequest() &&
+        !request.frame().parentFrame()
+      ) {
+        guard.blockedNavigation ??= error;
+      }
+      await route.abort('blockedbyclient').catch(() => {});
+      return;
+    }
+
+    if (budget.used >= budget.max) {
+      await route.abort('failed').catch(() => {});
+      return;
+    }
+
+    try {
+      await route.fulfill(await fetchPinned(request, address, budget));
+    } catch (error) {
+      logger.debug('Request failed', { target, url: request.url(), error: error instanceof Error ? error.message : String(error) });
+      await route.abort('failed').catch(() => {});
+    }
+  });
+
+  await context.routeWebSocket(() => true, async ws => {
+    logger.debug('WebSocket refused', { target, url: ws.url() });
+    await ws.close({ code: 1008, reason: 'WebSockets are not available while capturing' }).catch(() => {});
+  });
+
+  return guard;
+}
+
+/**
+ * Send a browser request to the checked address and read the response,
+ * charging its body to the context's budget
+ */
+async function fetchPinned(
+  request: Request,
+  address: string | null,
+  budget: ByteBudget
+): Promise<{ status: number; headers: Record<string, string>; body: Buffer }> {
+  const headers = Object.fromEntries(
+    Object.entries(await request.allHeaders())
+      .filter(([name]) => !name.startsWith(':') && !HOP_BY_HOP_HEADERS.includes(name))
+  );
+
+  const response = await pinnedRequest(request.url(), {
+    method: request.method(),
+    headers,
+    body: request.postDataBuffer(),
+    address,
+    timeout: config.screenshotTimeout
+  });
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of response) {
+    total += chunk.length;
+    budget.used += chunk.length;
+    if (total > MAX_RESPONSE_BYTES) {
+      response.destroy();
+      throw new Error(`Response larger than ${MAX_RESPONSE_BYTES} bytes`);
+    }
+    if (budget.used > budget.max) {
+      response.destroy();
+      logger.warn('Capture fetched too much, failing remaining requests', {
+        url: request.url(),
+        limit: `${config.captureMaxMb}MB`
+      });
+      throw new Error(`Capture larger than ${config.captureMaxMb}MB`);
+    }
+    chunks.push(chunk);
+  }
+
+  return {
+    status: response.statusCode ?? 502,
+    headers: toFulfillHeaders(response.headers),
+    body: Buffer.concat(chunks, total)
+  };
+}
+
+/**
+ * Response headers for route.fulfill (multiple Set-Cookie values go one per line)
+ */
+function toFulfillHeaders(headers: IncomingHttpHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || DROPPED_RESPONSE_HEADERS.includes(name)) continue;
+    result[name] = Array.isArray(value) ? value.join(name === 'set-cookie' ? '\n' : ', ') : value;
+  }
+  return result;
+}
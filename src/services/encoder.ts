@@ -0,0 +1,59 @@
+/**
+ * Encoder Service
+ * Converts PNG masters to WebP, AVIF and JPEG
+ */
+
+import sharp from 'sharp';
+import type { OutputFormat } from '../types.js';
+import { OGFrameError } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Encode PNG master into the requested format
+ */
+export async function encodeImage(png: Buffer, output: OutputFormat): Promise<Buffer> {
+  if (output.format === 'png') return png;
+
+  const startTime = Date.now();
+
+  try {
+    const image = sharp(png);
+    let encoded: Buffer;
+
+    switch (output.format) {
+      case 'webp':
+        encoded = await image.webp({ quality: output.quality }).toBuffer();
+        break;
+      case 'avif':
+        encoded = await image.avif({ quality: output.quality }).toBuffer();
+        break;
+      case 'jpeg':
+        encoded = await image
+          .flatten({ background: '#ffffff' })
+          .jpeg({ quality: output.quality, mozjpeg: true })
+          .toBuffer();
+        break;
+    }
+
+    logger.debug('Image encoded', {
+      format: output.format,
+      quality: output.quality,
+      inputSize: png.length,
+      outputSize: encoded.length,
+      duration: Date.now() - startTime
+    });
+
+    return encoded;
+  } catch (error) {
+    logger.error('Image encoding failed', {
+      format: output.format,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    throw new OGFrameError(
+      'ENCODING_FAILED',
+      `Failed to encode image as ${output.format}`,
+      500
+    );
+  }
+}
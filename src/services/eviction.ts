@@ -0,0 +1,118 @@
+/**
+ * Eviction Service
+ * Chooses which cache entries to drop when CACHE_MAX_SIZE / CACHE_MAX_ENTRIES
+ * would be exceeded. Pinned entries are never evicted.
+ */
+
+import type { CacheEntry } from '../types.js';
+import { SortedSet } from '../utils/sortedSet.js';
+
+export type EvictionPolicy = 'lru' | 'lfu';
+
+/**
+ * Total stored bytes for an entry (PNG master + format variants)
+ */
+export function getEntryBytes(entry: CacheEntry): number {
+  let total = entry.size;
+  for (const variant of Object.values(entry.variants || {})) {
+    total += variant.size;
+  }
+  return total;
+}
+
+interface RankedEntry {
+  entry: CacheEntry;
+  lastAccessed: number;
+  accessCount: number;
+}
+
+/**
+ * Order entries from first-to-evict to last
+ * - lru: least recently accessed first
+ * - lfu: least accessed first, ties broken by recency
+ */
+function compareForEviction(policy: EvictionPolicy) {
+  return (a: RankedEntry, b: RankedEntry): number => {
+    if (policy === 'lfu' && a.accessCount !== b.accessCount) {
+      return a.accessCount - b.accessCount;
+    }
+    if (a.lastAccessed !== b.lastAccessed) {
+      return a.lastAccessed - b.lastAccessed;
+    }
+    const keyA = a.entry.cacheKey;
+    const keyB = b.entry.cacheKey;
+    return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+  };
+}
+
+/**
+ * Cache entries in eviction order
+ * Kept up to date as entries are saved, accessed and removed, so eviction
+ * walks from the front instead of sorting the whole cache
+ */
+export class EvictionQueue {
+  private order: SortedSet<RankedEntry>;
+  private ranks = new Map<string, RankedEntry>();
+
+  constructor(readonly policy: EvictionPolicy) {
+    this.order = new SortedSet(compareForEviction(policy));
+  }
+
+  /**
+   * Add an entry, or move it after an access or a replacement
+   */
+  update(entry: CacheEntry): void {
+    this.remove(entry.cacheKey);
+    const rank = {
+      entry,
+      lastAccessed: new Date(entry.lastAccessed).getTime(),
+      accessCount: entry.accessCount
+    };
+    this.ranks.set(entry.cacheKey, rank);
+    this.order.add(rank);
+  }
+
+  remove(cacheKey: string): void {
+    const rank = this.ranks.get(cacheKey);
+    if (!rank) return;
+    this.order.delete(rank);
+    this.ranks.delete(cacheKey);
+  }
+
+  /**
+   * Entries from first-to-evict to last
+   */
+  *entries(): Generator<CacheEntry> {
+    for (const rank of this.order.values()) {
+      yield rank.entry;
+    }
+  }
+}
+
+/**
+ * Select entries to evict so that the cache fits the given budget
+ *
+ * @param bytesToFree   Bytes that must be released (<= 0 if none)
+ * @param entriesToFree Entries that must be released (<= 0 if none)
+ * @param protect       Cache keys that must not be evicted (e.g. the entry being saved)
+ */
+export function selectForEviction(
+  queue: EvictionQueue,
+  bytesToFree: number,
+  entriesToFree: number,
+  protect: Set<string> = new Set()
+): CacheEntry[] {
+  if (bytesToFree <= 0 && entriesToFree <= 0) return [];
+
+  const selected: CacheEntry[] = [];
+  let freedBytes = 0;
+
+  for (const entry of queue.entries()) {
+    if (freedBytes >= bytesToFree && selected.length >= entriesToFree) break;
+    if (entry.pinned || protect.has(entry.cacheKey)) continue;
+    selected.push(entry);
+    freedBytes += getEntryBytes(entry);
+  }
+
+  return selected;
+}
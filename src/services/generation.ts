@@ -0,0 +1,190 @@
+/**
+ * Image Generation
+ * Generate an image and save it as the PNG master of its cache entry
+ *
+ * Requests, background refreshes and cache warming all go through here, so
+ * concurrent generations of the same cache key run once and every generation
+ * is counted against its key (refreshes are also rate limited here).
+ */
+
+import type { ApiKey, CacheEntry, ImageSize, RateLimitResult, ReadyResult } from '../types.js';
+import { RateLimitError, QuotaExceededError } from '../types.js';
+import { saveToCache } from './cache.js';
+import { checkQuota, countGeneration } from './usage.js';
+import { checkGenerationLimit, checkRateLimit } from './rateLimit.js';
+import { recordGeneration } from './metrics.js';
+import { recordUsage } from './stats.js';
+import { SingleFlight, type FlightClaim } from '../utils/singleFlight.js';
+import { logger } from '../utils/logger.js';
+
+export interface GenerationRequest {
+  mode: string;                 // "screenshot" or "template" (metrics)
+  url: string;
+  normalizedUrl: string;
+  cacheKey: string;
+  size: ImageSize;
+  selector?: string;
+  ttl: number;
+  keyId: string;                // Key label for usage ("admin" for admin keys)
+  hostname: string | null;      // Page host for usage stats (null for templates)
+  generate: () => Promise<{ png: Buffer; ready?: ReadyResult }>;
+}
+
+export interface GeneratedImage {
+  png: Buffer;
+  entry: CacheEntry;
+}
+
+/**
+ * A request's place in the generation of its image
+ * The leader generates (or releases the claim if it is turned away),
+ * followers wait for the leader's image (null if it was released)
+ */
+export interface GenerationClaim {
+  readonly leader: boolean;
+  generate(): Promise<GeneratedImage>;
+  release(): void;
+  wait(): Promise<GeneratedImage | null>;
+}
+
+// In-flight generations, keyed by cache key (normalized URL + variants)
+const generations = new SingleFlight<GeneratedImage>();
+
+/**
+ * Check whether an image is being generated right now
+ */
+export function isGenerating(cacheKey: string): boolean {
+  return generations.has(cacheKey);
+}
+
+/**
+ * Claim the generation of an image before charging for it
+ * Concurrent requests for the same cache key join the claim as followers
+ * from this point on, so only the leader has to pay for the generation
+ */
+export function claimGeneration(request: GenerationRequest): GenerationClaim {
+  const claim: FlightClaim<GeneratedImage> = generations.claim(request.cacheKey);
+  return {
+    leader: claim.leader,
+    generate: () => claim.start(() => produce(request)),
+    release: () => claim.release(),
+    wait: () => claim.wait()
+  };
+}
+
+export interface ServedImage {
+  image: GeneratedImage;
+  leader: boolean;              // false: coalesced with another request's generation
+  rateLimit: RateLimitResult;
+}
+
+/**
+ * Serve an uncached image to a request: claim its generation, charge the
+ * request, then generate it or wait for the leader's image
+ * Only the leader pays for the generation, followers count as hits. A
+ * follower whose leader was turned away claims the generation again, and
+ * pays for it if it ends up leading.
+ */
+export async function serveImage(
+  request: GenerationRequest,
+  apiKey: ApiKey,
+  referer: string | null,
+  ip: string
+): Promise<ServedImage> {
+  // Claim before any await, so concurrent misses coalesce behind one leader
+  let claim = claimGeneration(request);
+  let leader = claim.leader;
+
+  let rateLimit: RateLimitResult;
+  try {
+    checkQuota(apiKey, leader);
+    rateLimit = await checkRateLimit(apiKey, referer, ip, !leader);
+  } catch (error) {
+    // Turned away: let a follower generate instead
+    claim.release();
+    throw error;
+  }
+
+  let image = leader ? await claim.generate() : await claim.wait();
+
+  while (image === null) {
+    // The leader was turned away before generating: claim it again
+    claim = claimGeneration(request);
+    if (claim.leader) {
+      try {
+        checkQuota(apiKey, true);
+        await checkGenerationLimit(apiKey, referer, ip);
+      } catch (error) {
+        claim.release();
+        throw error;
+      }
+      leader = true;
+      image = await claim.generate();
+    } else {
+      image = await claim.wait();
+    }
+  }
+
+  return { image, leader, rateLimit };
+}
+
+/**
+ * Generate and cache an image, or join the generation already in flight
+ * `shared` is true when another caller's generation produced it
+ */
+export function generateImage(request: GenerationRequest): Promise<{ value: GeneratedImage; shared: boolean }> {
+  return generations.run(request.cacheKey, () => produce(request));
+}
+
+/**
+ * Regenerate a stale image unless it is already being generated
+ * Charged to the key's generation limits and quota; a key that is out of
+ * generations keeps being served the stale image. Returns whether it ran.
+ */
+export async function refreshImage(
+  request: GenerationRequest,
+  apiKey: ApiKey,
+  referer: string | null,
+  ip: string
+): Promise<boolean> {
+  const claim = generations.claim(request.cacheKey);
+  if (!claim.leader) return false;
+
+  try {
+    checkQuota(apiKey, true);
+    await checkGenerationLimit(apiKey, referer, ip);
+  } catch (error) {
+    claim.release();
+    if (error instanceof RateLimitError || error instanceof QuotaExceededError) {
+      logger.info('Skipping stale refresh, key is out of generations', { url: request.normalizedUrl, code: error.code });
+      return false;
+    }
+    throw error;
+  }
+
+  logger.info('Refreshing stale cache entry', { url: request.normalizedUrl, cacheKey: request.cacheKey });
+  await claim.start(() => produce(request));
+  return true;
+}
+
+async function produce(request: GenerationRequest): Promise<GeneratedImage> {
+  const { url, normalizedUrl, mode, size, keyId } = request;
+  logger.info('Generating image', { url, mode, size: size.name });
+  const generationStart = Date.now();
+
+  const { png, ready } = await request.generate();
+  const generationTime = Date.now() - generationStart;
+  recordGeneration(mode, generationTime);
+  recordUsage('generation', keyId, request.hostname);
+  countGeneration(keyId);
+
+  const entry = await saveToCache(url, normalizedUrl, png, generationTime, {
+    cacheKey: request.cacheKey,
+    size,
+    selector: request.selector,
+    ready,
+    ttl: request.ttl,
+    keyId
+  });
+  return { png, entry };
+}
@@ -0,0 +1,305 @@
+/**
+ * Key Management Service
+ * Create, update, rotate and revoke keys at runtime
+ *
+ * Every change is validated, written atomically to API_KEYS_FILE and
+ * swapped into the auth service, so it takes effect without a restart.
+ */
+
+import { resolve } from 'path';
+import type { ApiKey, AdminKey, KeyConfig } from '../types.js';
+import { OGFrameError } from '../types.js';
+import { generateApiKey, hashKey } from '../utils/crypto.js';
+import { generateSigningSecret } from '../utils/signing.js';
+import { writeFileAtomic } from '../utils/fs.js';
+import { validateKeyConfig } from '../utils/keyValidation.js';
+import { getKeyConfig, setKeyConfig } from './auth.js';
+import { logger } from '../utils/logger.js';
+import config from '../config.js';
+
+export type KeyStatus = 'active' | 'expired' | 'revoked';
+
+export type PublicKeyView = Omit<ApiKey, 'signingSecret'> & {
+  hasSigningSecret: boolean;
+  status: KeyStatus;
+};
+
+export interface AdminKeyView {
+  type: 'admin';
+  name: string;
+  keyHash: string;  // Prefix only
+  createdAt: string;
+  revokedAt?: string | null;
+  status: KeyStatus;
+}
+
+// Fields an admin may change on a public key
+const UPDATABLE_FIELDS = [
+  'name', 'allowedDomains', 'rateLimit', 'template', 'sizes', 'selectors', 'readySelectors',
+  'formats', 'quality', 'cacheTtl', 'quota', 'resources', 'ready', 'signature', 'expiresAt'
+] as const;
+
+const ADMIN_FIELDS = ['type', 'name'] as const;
+
+const DEFAULT_RATE_LIMIT = { requests: 1000, generations: 10 };
+
+/**
+ * All keys, without secrets
+ */
+export function listKeys(): Array<PublicKeyView | AdminKeyView> {
+  return getKeyConfig().keys.map(toKeyView);
+}
+
+/**
+ * Get a public key by ID, without secrets
+ */
+export function getKey(keyId: string): PublicKeyView {
+  return toKeyView(findPublicKey(getKeyConfig(), keyId)) as PublicKeyView;
+}
+
+/**
+ * Create a public key
+ * Returns the signing secret once if signature was requested
+ */
+export function createPublicKey(input: Record<string, unknown>): {
+  key: PublicKeyView;
+  signingSecret?: string;
+} {
+  rejectUnknownFields(input, [...UPDATABLE_FIELDS, 'type']);
+  const next = cloneConfig();
+
+  const key: ApiKey = {
+    keyId: generateApiKey('public'),
+    type: 'public',
+    name: input.name as string,
+    allowedDomains: input.allowedDomains as string[],
+    rateLimit: { ...DEFAULT_RATE_LIMIT },
+    createdAt: new Date().toISOString(),
+    expiresAt: null
+  };
+  applyUpdates(key, input, UPDATABLE_FIELDS);
+  const signingSecret = ensureSigningSecret(key);
+
+  next.keys.push(key);
+  persist(next);
+
+  logger.audit('API key created', { keyId: key.keyId, name: key.name, domains: key.allowedDomains });
+  return { key: toKeyView(key) as PublicKeyView, ...(signingSecret && { signingSecret }) };
+}
+
+/**
+ * Create an admin key
+ * The plaintext key is only returned here - only its hash is stored
+ */
+export function createAdminKey(input: Record<string, unknown>): { key: AdminKeyView; apiKey: string } {
+  rejectUnknownFields(input, ADMIN_FIELDS);
+  const next = cloneConfig();
+
+  const apiKey = generateApiKey('admin');
+  const key: AdminKey = {
+    keyHash: hashKey(apiKey),
+    type: 'admin',
+    name: input.name as string,
+    createdAt: new Date().toISOString()
+  };
+
+  next.keys.push(key);
+  persist(next);
+
+  logger.audit('Admin key created', { name: key.name });
+  return { key: toKeyView(key) as AdminKeyView, apiKey };
+}
+
+/**
+ * Update domains, rate limits and other settings of a public key
+ * Returns a new signing secret if signing was just enabled
+ */
+export function updatePublicKey(keyId: string, input: Record<string, unknown>): {
+  key: PublicKeyView;
+  signingSecret?: string;
+} {
+  rejectUnknownFields(input, UPDATABLE_FIELDS);
+
+  const next = cloneConfig();
+  const key = findPublicKey(next, keyId);
+  if (key.revokedAt) {
+    throw new OGFrameError('KEY_REVOKED', 'Revoked keys cannot be updated', 409);
+  }
+
+  applyUpdates(key, input, UPDATABLE_FIELDS);
+  const signingSecret = ensureSigningSecret(key);
+
+  persist(next);
+
+  logger.audit('API key updated', { keyId, fields: Object.keys(input) });
+  return { key: toKeyView(key) as PublicKeyView, ...(signingSecret && { signingSecret }) };
+}
+
+/**
+ * Replace a public key with a new key ID (and signing secret, if any)
+ * The old key is revoked, or expires after gracePeriod seconds (or sooner,
+ * if it was already due to). The new key keeps the old key's expiry.
+ */
+export function rotatePublicKey(keyId: string, gracePeriod: number = 0): {
+  key: PublicKeyView;
+  previous: PublicKeyView;
+  signingSecret?: string;
+} {
+  const { config: next, key, previous } = rotateKeyInConfig(getKeyConfig(), keyId, gracePeriod);
+  persist(next);
+
+  logger.audit('API key rotated', { keyId, newKeyId: key.keyId, gracePeriod });
+  return {
+    key: toKeyView(key) as PublicKeyView,
+    previous: toKeyView(previous) as PublicKeyView,
+    ...(key.signingSecret && { signingSecret: key.signingSecret })
+  };
+}
+
+/**
+ * Rotate a public key in a copy of a key config, without saving it
+ * Shared by the admin API and the CLI, which write the result themselves
+ */
+export function rotateKeyInConfig(keyConfig: KeyConfig, keyId: string, gracePeriod: number): {
+  config: KeyConfig;
+  key: ApiKey;
+  previous: ApiKey;
+} {
+  const next = structuredClone(keyConfig);
+  const old = findPublicKey(next, keyId);
+  if (old.revokedAt) {
+    throw new OGFrameError('KEY_REVOKED', 'Revoked keys cannot be rotated', 409);
+  }
+
+  const now = new Date();
+  const { signingSecret: oldSecret, ...settings } = old;
+  const key: ApiKey = {
+    ...structuredClone(settings),
+    keyId: generateApiKey('public'),
+    createdAt: now.toISOString(),
+    ...(oldSecret && { signingSecret: generateSigningSecret() })
+  };
+
+  if (gracePeriod > 0) {
+    // Rotation never extends the old key's life
+    const graceEnd = new Date(now.getTime() + gracePeriod * 1000);
+    if (!old.expiresAt || new Date(old.expiresAt) > graceEnd) {
+      old.expiresAt = graceEnd.toISOString();
+    }
+  } else {
+    old.revokedAt = now.toISOString();
+  }
+
+  next.keys.push(key);
+  return { config: next, key, previous: old };
+}
+
+/**
+ * Revoke a public key (kept in the file for auditing)
+ */
+export function revokePublicKey(keyId: string): PublicKeyView {
+  const next = cloneConfig();
+  const key = findPublicKey(next, keyId);
+
+  if (!key.revokedAt) {
+    key.revokedAt = new Date().toISOString();
+    persist(next);
+    logger.audit('API key revoked', { keyId, name: key.name });
+  }
+
+  return toKeyView(key) as PublicKeyView;
+}
+
+/**
+ * Copy allowed fields from input onto key (null removes optional fields)
+ */
+function applyUpdates(key: ApiKey, input: Record<string, unknown>, fields: readonly string[]): void {
+  const target = key as unknown as Record<string, unknown>;
+
+  for (const field of fields) {
+    if (!(field in input)) continue;
+    const value = input[field];
+
+    if (field === 'rateLimit' && isObject(value)) {
+      key.rateLimit = { ...key.rateLimit, ...value };
+    } else if (value === null && field !== 'name' && field !== 'allowedDomains') {
+      delete target[field];
+      if (field === 'signature') delete key.signingSecret; // Signing disabled
+    } else {
+      target[field] = value;
+    }
+  }
+}
+
+function rejectUnknownFields(input: Record<string, unknown>, allowed: readonly string[]): void {
+  const unknown = Object.keys(input).filter(field => !allowed.includes(field));
+  if (unknown.length > 0) {
+    throw new OGFrameError('INVALID_PARAMS', `Unknown or read-only fields: ${unknown.join(', ')}`, 400, {
+      allowed
+    });
+  }
+}
+
+/**
+ * Generate a secret for keys that have signature set but no secret yet
+ */
+function ensureSigningSecret(key: ApiKey): string | undefined {
+  if (!key.signature || key.signingSecret) return undefined;
+  key.signingSecret = generateSigningSecret();
+  return key.signingSecret;
+}
+
+/**
+ * Validate, write atomically, then swap into the auth service
+ */
+function persist(next: KeyConfig): void {
+  validateKeyConfig(next);
+
+  try {
+    writeFileAtomic(resolve(config.apiKeysFile), JSON.stringify(next, null, 2) + '\n');
+  } catch (error) {
+    logger.error('Failed to write API keys file', { path: config.apiKeysFile, error });
+    throw new OGFrameError('KEYS_WRITE_FAILED', 'Failed to save API keys', 500);
+  }
+
+  setKeyConfig(next);
+}
+
+function cloneConfig(): KeyConfig {
+  return structuredClone(getKeyConfig());
+}
+
+function findPublicKey(keyConfig: KeyConfig, keyId: string): ApiKey {
+  const key = keyConfig.keys.find(k => k.type === 'public' && (k as ApiKey).keyId === keyId);
+  if (!key) {
+    throw new OGFrameError('NOT_FOUND', 'API key not found', 404);
+  }
+  return key as ApiKey;
+}
+
+function getStatus(key: ApiKey | AdminKey): KeyStatus {
+  if (key.revokedAt) return 'revoked';
+  if (key.type === 'public' && key.expiresAt && new Date(key.expiresAt) < new Date()) return 'expired';
+  return 'active';
+}
+
+function toKeyView(key: ApiKey | AdminKey): PublicKeyView | AdminKeyView {
+  if (key.type === 'admin') {
+    const adminKey = key as AdminKey;
+    return {
+      type: 'admin',
+      name: adminKey.name,
+      keyHash: `${adminKey.keyHash.slice(0, 16)}...`,
+      createdAt: adminKey.createdAt,
+      ...(adminKey.revokedAt && { revokedAt: adminKey.revokedAt }),
+      status: getStatus(adminKey)
+    };
+  }
+
+  const { signingSecret, ...rest } = key as ApiKey;
+  return { ...rest, hasSigningSecret: Boolean(signingSecret), status: getStatus(key) };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
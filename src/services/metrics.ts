@@ -0,0 +1,118 @@
+/**
+ * Metrics Service
+ * Prometheus metrics for requests, cache, generation, browsers and rate limits
+ */
+
+import { Counter, Gauge, Histogram, Registry } from '../utils/prometheus.js';
+import { getCacheCounters } from './cache.js';
+import { browserPool } from './browserPool.js';
+
+const registry = new Registry();
+
+const httpRequests = registry.register(new Counter(
+  'ogframe_http_requests_total',
+  'HTTP requests by route, status and API key'
+));
+
+const imageResponses = registry.register(new Counter(
+  'ogframe_image_responses_total',
+  'Images served by cache status and output format'
+));
+
+const generationDuration = registry.register(new Histogram(
+  'ogframe_generation_duration_seconds',
+  'Time to render a new image (screenshot or template)',
+  [0.25, 0.5, 1, 2, 3, 5, 8, 13, 20, 30, 60]
+));
+
+const imageSize = registry.register(new Histogram(
+  'ogframe_image_size_bytes',
+  'Size of served images by output format',
+  [10e3, 25e3, 50e3, 100e3, 200e3, 400e3, 800e3, 1.6e6, 3.2e6]
+));
+
+const rateLimitRejections = registry.register(new Counter(
+  'ogframe_rate_limit_rejections_total',
+  'Requests rejected by rate limiting, by tier (req, gen, ip)'
+));
+
+registry.register(new Counter('ogframe_cache_hits_total', 'Cache hits', () => [
+  { labels: {}, value: getCacheCounters().hits }
+]));
+
+registry.register(new Counter('ogframe_cache_misses_total', 'Cache misses', () => [
+  { labels: {}, value: getCacheCounters().misses }
+]));
+
+registry.register(new Counter('ogframe_cache_evictions_total', 'Cache entries evicted', () => [
+  { labels: {}, value: getCacheCounters().evictions }
+]));
+
+registry.register(new Counter('ogframe_cache_evicted_bytes_total', 'Bytes freed by cache eviction', () => [
+  { labels: {}, value: getCacheCounters().evictedBytes }
+]));
+
+registry.register(new Gauge('ogframe_cache_entries', 'Cache entries', () => [
+  { labels: {}, value: getCacheCounters().entries }
+]));
+
+registry.register(new Gauge('ogframe_cache_size_bytes', 'Cache size (images and variants)', () => [
+  { labels: {}, value: getCacheCounters().bytes }
+]));
+
+registry.register(new Gauge('ogframe_browser_slots', 'Browser pool slots by state', () => {
+  const stats = browserPool.getStats();
+  return [
+    { labels: { state: 'busy' }, value: stats.busy },
+    { labels: { state: 'idle' }, value: stats.size - stats.busy }
+  ];
+}));
+
+registry.register(new Gauge('ogframe_browser_queue_depth', 'Screenshots waiting for a browser slot', () => [
+  { labels: {}, value: browserPool.getStats().queued }
+]));
+
+registry.register(new Counter('ogframe_browser_recycles_total', 'Browsers recycled after page or memory limits', () => [
+  { labels: {}, value: browserPool.getStats().recycled }
+]));
+
+registry.register(new Counter('ogframe_browser_crashes_total', 'Browsers that crashed or disconnected', () => [
+  { labels: {}, value: browserPool.getStats().crashed }
+]));
+
+/**
+ * Count a completed HTTP request
+ * key is a public key ID, "admin" or "none" (never an admin key itself)
+ */
+export function recordRequest(route: string, status: number, key: string): void {
+  httpRequests.inc({ route, status: status.toString(), key });
+}
+
+/**
+ * Count a served image and its size
+ */
+export function recordImage(cacheStatus: string, format: string, bytes: number): void {
+  imageResponses.inc({ cache_status: cacheStatus, format });
+  imageSize.observe({ format }, bytes);
+}
+
+/**
+ * Observe how long a generation took
+ */
+export function recordGeneration(mode: string, durationMs: number): void {
+  generationDuration.observe({ mode }, durationMs / 1000);
+}
+
+/**
+ * Count a rate limit rejection
+ */
+export function recordRateLimitRejection(tier: string): void {
+  rateLimitRejections.inc({ tier });
+}
+
+/**
+ * All metrics in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  return registry.render();
+}
@@ -1,74 +1,108 @@
 /**
  * Rate Limiting Service
  * Two-tier rate limiting: total requests + generations
+ * Sliding-window log or token bucket (RATE_LIMIT_ALGORITHM), with state in
+ * a pluggable store (memory or Redis)
  */
 
-import type { ApiKey } from '../types.js';
+import type { ApiKey, RateLimitAlgorithm, RateLimitResult, RateLimitRule, RateLimitStore } from '../types.js';
 import { RateLimitError } from '../types.js';
 import { logger } from '../utils/logger.js';
 import { getBaseDomain } from '../utils/url.js';
+import { hashKey } from '../utils/crypto.js';
+import { createRateLimitStore, MemoryRateLimitStore } from './rateLimitStore/index.js';
+import { recordRateLimitRejection } from './metrics.js';
+import config from '../config.js';
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;  // Unix timestamp
+// Replaced by initRateLimit(); in-memory until then
+let store: RateLimitStore = new MemoryRateLimitStore();
+let algorithm: RateLimitAlgorithm = 'sliding-window';
+
+/**
+ * Create the configured rate limit store (RATE_LIMIT_STORE)
+ */
+export function initRateLimit(): void {
+  const previous = store;
+  store = createRateLimitStore();
+  void previous.close();
+
+  if (config.rateLimitAlgorithm !== 'sliding-window' && config.rateLimitAlgorithm !== 'token-bucket') {
+    logger.warn('Invalid RATE_LIMIT_ALGORITHM, using sliding-window', { value: config.rateLimitAlgorithm });
+    algorithm = 'sliding-window';
+  } else {
+    algorithm = config.rateLimitAlgorithm;
+  }
+
+  logger.info('Rate limit store initialized', { store: store.name, algorithm });
 }
 
-// In-memory rate limit store
-// TODO: Use Redis for production multi-instance deployments
-const rateLimitStore = new Map<string, RateLimitEntry>();
+/**
+ * Close store connections (call on shutdown)
+ */
+export async function closeRateLimit(): Promise<void> {
+  await store.close();
+}
 
 /**
- * Clean up expired entries periodically
+ * Name and health of the active store
  */
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetAt < now) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, 60000); // Clean every minute
+export function getRateLimitStoreStatus(): { store: string; healthy: boolean } {
+  return { store: store.name, healthy: store.isHealthy() };
+}
 
 /**
  * Check and enforce rate limit
  */
-async function enforceLimit(
-  key: string,
-  limit: number,
-  windowSeconds: number
-): Promise<void> {
-  const now = Date.now();
-  const entry = rateLimitStore.get(key);
-
-  // No entry or expired - create new
-  if (!entry || entry.resetAt < now) {
-    rateLimitStore.set(key, {
-      count: 1,
-      resetAt: now + (windowSeconds * 1000)
-    });
-    return;
-  }
+async function enforceLimit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  const result = await store.consume(key, rule);
 
-  // Increment count
-  entry.count++;
-
-  // Check if over limit
-  if (entry.count > limit) {
-    const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
+  if (!result.allowed) {
+    recordRateLimitRejection(key.slice(0, key.indexOf(':'))); // req, gen or ip
     logger.warn('Rate limit exceeded', {
       key,
-      limit,
-      count: entry.count,
-      retryAfter
+      limit: result.limit,
+      algorithm: rule.algorithm,
+      retryAfter: result.retryAfter
     });
 
     throw new RateLimitError(
       `Rate limit exceeded for ${key}`,
-      limit,
-      windowSeconds,
-      retryAfter
+      result.limit,
+      rule.windowSeconds,
+      result.retryAfter
     );
   }
+
+  return result;
+}
+
+/**
+ * Rule for one of the key's limits (per-key window/burst or defaults)
+ */
+function keyRule(apiKey: ApiKey, limit: number): RateLimitRule {
+  return {
+    algorithm,
+    limit,
+    windowSeconds: apiKey.rateLimit.window ?? config.rateLimitWindow,
+    ...(apiKey.rateLimit.burst !== undefined && { burst: apiKey.rateLimit.burst })
+  };
+}
+
+/**
+ * Identity of a key in store keys and logs
+ * Admin keys carry the plaintext secret as keyId, so they go by a hash prefix
+ */
+function limitId(apiKey: ApiKey): string {
+  return apiKey.type === 'admin' ? `admin:${hashKey(apiKey.keyId).slice(0, 16)}` : apiKey.keyId;
+}
+
+/**
+ * Pick the limit closest to running out (reported in RateLimit-* headers)
+ */
+function mostRestrictive(results: RateLimitResult[]): RateLimitResult {
+  return results.reduce((a, b) =>
+    b.remaining < a.remaining || (b.remaining === a.remaining && b.resetAt > a.resetAt) ? b : a
+  );
 }
 
 /**
@@ -87,62 +121,86 @@ function getDomainFromReferer(referer: string | null): string | null {
 
 /**
  * Check rate limits for a request
+ * Returns the most restrictive limit that applied, for response headers
  */
 export async function checkRateLimit(
   apiKey: ApiKey,
   referer: string | null,
   ip: string,
   isCacheHit: boolean
-): Promise<void> {
-  const windowSeconds = 60; // 1 minute window
-
+): Promise<RateLimitResult> {
   // 1. Global request limit (all requests, regardless of cache)
-  const requestLimit = apiKey.rateLimit.requests;
-  const requestKey = `req:${apiKey.keyId}`;
-  await enforceLimit(requestKey, requestLimit, windowSeconds);
+  const requestRule = keyRule(apiKey, apiKey.rateLimit.requests);
+  const requestKey = `req:${limitId(apiKey)}`;
+  const results = [await enforceLimit(requestKey, requestRule)];
 
-  // 2. If cache miss, check generation limit (stricter)
+  // 2. If cache miss, check generation limits (stricter)
   if (!isCacheHit) {
-    const generationLimit = apiKey.rateLimit.generations;
-    const generationKey = `gen:${apiKey.keyId}`;
-    await enforceLimit(generationKey, generationLimit, windowSeconds);
-
-    // 3. Per-domain generation limit (for public keys)
-    if (apiKey.type === 'public') {
-      const domain = getDomainFromReferer(referer);
-      if (domain) {
-        const domainKey = `gen:${apiKey.keyId}:${domain}`;
-        await enforceLimit(domainKey, generationLimit, windowSeconds);
-      }
+    results.push(await checkGenerationLimit(apiKey, referer, ip));
+  } else if (ip !== 'unknown') {
+    // 3. IP-based rate limiting (prevent single IP from abusing multiple keys)
+    const ipRule: RateLimitRule = {
+      algorithm,
+      limit: config.rateLimitIpRequests,
+      windowSeconds: config.rateLimitWindow
+    };
+    results.push(await enforceLimit(`ip:${ip}:req`, ipRule));
+  }
+
+  return mostRestrictive(results);
+}
+
+/**
+ * Charge a generation to the key, its Referer domain and the client IP
+ * For generations that were not charged with their request, e.g. when a
+ * coalesced request ends up generating the image itself
+ */
+export async function checkGenerationLimit(
+  apiKey: ApiKey,
+  referer: string | null,
+  ip: string
+): Promise<RateLimitResult> {
+  const results: RateLimitResult[] = [];
+  const id = limitId(apiKey);
+
+  const generationRule = keyRule(apiKey, apiKey.rateLimit.generations);
+  const generationKey = `gen:${id}`;
+  results.push(await enforceLimit(generationKey, generationRule));
+
+  // Per-domain generation limit (for public keys)
+  if (apiKey.type === 'public') {
+    const domain = getDomainFromReferer(referer);
+    if (domain) {
+      const domainKey = `gen:${id}:${domain}`;
+      results.push(await enforceLimit(domainKey, generationRule));
     }
   }
 
-  // 4. IP-based rate limiting (prevent single IP from abusing multiple keys)
+  // IP-based generation limit
   if (ip !== 'unknown') {
-    const ipLimit = isCacheHit ? 2000 : 50; // Much stricter for generations
-    const ipKey = `ip:${ip}:${isCacheHit ? 'req' : 'gen'}`;
-    await enforceLimit(ipKey, ipLimit, windowSeconds);
+    const ipRule: RateLimitRule = {
+      algorithm,
+      limit: config.rateLimitIpGenerations,
+      windowSeconds: config.rateLimitWindow
+    };
+    results.push(await enforceLimit(`ip:${ip}:gen`, ipRule));
   }
+
+  return mostRestrictive(results);
 }
 
 /**
- * Get current rate limit status for debugging
+ * Get current request limit status for a key without consuming it
  */
-export function getRateLimitStatus(key: string): RateLimitEntry | null {
-  return rateLimitStore.get(key) || null;
+export async function getRateLimitStatus(apiKey: ApiKey): Promise<RateLimitResult> {
+  return store.consume(`req:${limitId(apiKey)}`, keyRule(apiKey, apiKey.rateLimit.requests), 0);
 }
 
 /**
  * Reset rate limit for a key (admin only)
  */
-export function resetRateLimit(keyPattern: string): number {
-  let count = 0;
-  for (const [key] of rateLimitStore.entries()) {
-    if (key.includes(keyPattern)) {
-      rateLimitStore.delete(key);
-      count++;
-    }
-  }
+export async function resetRateLimit(keyPattern: string): Promise<number> {
+  const count = await store.reset(keyPattern);
   logger.info('Rate limits reset', { pattern: keyPattern, count });
   return count;
 }
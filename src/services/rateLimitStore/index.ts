@@ -0,0 +1,24 @@
+/**
+ * Rate Limit Store Factory
+ * Selects counter storage from RATE_LIMIT_STORE
+ */
+
+import type { RateLimitStore } from '../../types.js';
+import { MemoryRateLimitStore } from './memory.js';
+import { RedisRateLimitStore } from './redis.js';
+import config from '../../config.js';
+
+export function createRateLimitStore(): RateLimitStore {
+  switch (config.rateLimitStore) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+
+    case 'redis':
+      return new RedisRateLimitStore({ url: config.redisUrl }, config.redisPrefix);
+
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${config.rateLimitStore}". Use "memory" or "redis"`);
+  }
+}
+
+export { MemoryRateLimitStore, RedisRateLimitStore };
@@ -0,0 +1,141 @@
+/**
+ * In-Memory Rate Limit Store
+ * Sliding-window log and token bucket state in a process-local Map (default store)
+ */
+
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from '../../types.js';
+
+const CLEANUP_INTERVAL = 60000; // Drop idle state every minute
+
+interface WindowState {
+  kind: 'sliding-window';
+  hits: number[];      // Timestamps (ms), oldest first
+  expiresAt: number;
+}
+
+interface BucketState {
+  kind: 'token-bucket';
+  tokens: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory' as const;
+
+  private state = new Map<string, WindowState | BucketState>();
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor() {
+    this.cleanupTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of this.state.entries()) {
+        if (entry.expiresAt < now) {
+          this.state.delete(key);
+        }
+      }
+    }, CLEANUP_INTERVAL);
+    this.cleanupTimer.unref();
+  }
+
+  async consume(key: string, rule: RateLimitRule, cost: number = 1): Promise<RateLimitResult> {
+    return rule.algorithm === 'token-bucket'
+      ? this.consumeBucket(key, rule, cost)
+      : this.consumeWindow(key, rule, cost);
+  }
+
+  async reset(pattern: string): Promise<number> {
+    let count = 0;
+    for (const key of this.state.keys()) {
+      if (key.includes(pattern)) {
+        this.state.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  isHealthy(): boolean {
+    return true;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+  }
+
+  /**
+   * Sliding-window log: allow if fewer than `limit` hits in the last window
+   */
+  private consumeWindow(key: string, rule: RateLimitRule, cost: number): RateLimitResult {
+    const now = Date.now();
+    const windowMs = rule.windowSeconds * 1000;
+
+    let entry = this.state.get(key);
+    if (!entry || entry.kind !== 'sliding-window') {
+      entry = { kind: 'sliding-window', hits: [], expiresAt: 0 };
+      this.state.set(key, entry);
+    }
+
+    // Drop hits that have left the window
+    let expired = 0;
+    while (expired < entry.hits.length && entry.hits[expired] <= now - windowMs) {
+      expired++;
+    }
+    if (expired > 0) {
+      entry.hits.splice(0, expired);
+    }
+
+    const allowed = entry.hits.length + Math.max(cost, 1) <= rule.limit;
+    if (allowed) {
+      for (let i = 0; i < cost; i++) {
+        entry.hits.push(now);
+      }
+    }
+
+    const oldest = entry.hits[0] ?? now;
+    const newest = entry.hits[entry.hits.length - 1] ?? now;
+    entry.expiresAt = newest + windowMs;
+
+    return {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - entry.hits.length),
+      resetAt: entry.hits.length > 0 ? newest + windowMs : now,
+      retryAfter: allowed ? 0 : Math.max(1, Math.ceil((oldest + windowMs - now) / 1000))
+    };
+  }
+
+  /**
+   * Token bucket: `burst` tokens, refilled at limit/window per second
+   */
+  private consumeBucket(key: string, rule: RateLimitRule, cost: number): RateLimitResult {
+    const now = Date.now();
+    const capacity = rule.burst ?? rule.limit;
+    const ratePerMs = rule.limit / (rule.windowSeconds * 1000);
+
+    let entry = this.state.get(key);
+    if (!entry || entry.kind !== 'token-bucket') {
+      entry = { kind: 'token-bucket', tokens: capacity, updatedAt: now, expiresAt: 0 };
+      this.state.set(key, entry);
+    }
+
+    entry.tokens = Math.min(capacity, entry.tokens + (now - entry.updatedAt) * ratePerMs);
+    entry.updatedAt = now;
+
+    const allowed = entry.tokens >= Math.max(cost, 1);
+    if (allowed) {
+      entry.tokens -= cost;
+    }
+
+    const msUntilFull = Math.ceil((capacity - entry.tokens) / ratePerMs);
+    entry.expiresAt = now + msUntilFull;
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(entry.tokens),
+      resetAt: now + msUntilFull,
+      retryAfter: allowed ? 0 : Math.max(1, Math.ceil((1 - entry.tokens) / ratePerMs / 1000))
+    };
+  }
+}
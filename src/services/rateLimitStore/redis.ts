@@ -0,0 +1,192 @@
+/**
+ * Redis Rate Limit Store
+ * Sliding-window log (sorted set) or token bucket (hash) shared by all replicas
+ *
+ * - Each check runs as one Lua script, so concurrent requests on different
+ *   replicas can't both take the last slot; time comes from Redis (TIME)
+ *   so replica clock skew doesn't matter
+ * - While Redis is unreachable, limits fall back to a local in-memory
+ *   store (per replica) instead of failing requests
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from '../../types.js';
+import { RedisClient, type RedisOptions } from '../../utils/redis.js';
+import { MemoryRateLimitStore } from './memory.js';
+import { logger } from '../../utils/logger.js';
+
+// KEYS[1] = sorted set of hits, ARGV = window (ms), limit, cost, member id
+// → { allowed, count, oldest, newest, now }
+const SLIDING_WINDOW_SCRIPT = `
+redis.replicate_commands() -- TIME before writes (no-op on Redis 7+)
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+
+local allowed = 0
+if count + math.max(cost, 1) <= limit then
+  for i = 1, cost do
+    redis.call('ZADD', KEYS[1], now, ARGV[4] .. ':' .. i)
+  end
+  count = count + cost
+  allowed = 1
+end
+
+local oldest = now
+local newest = now
+if count > 0 then
+  oldest = tonumber(redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')[2])
+  newest = tonumber(redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')[2])
+  redis.call('PEXPIRE', KEYS[1], newest + window - now)
+end
+
+return { allowed, count, oldest, newest, now }
+`;
+
+// KEYS[1] = hash { tokens, ts }, ARGV = capacity, refill per ms, cost
+// → { allowed, tokens (string, Lua numbers are truncated), now }
+const TOKEN_BUCKET_SCRIPT = `
+redis.replicate_commands()
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+
+local allowed = 0
+if tokens >= math.max(cost, 1) then
+  tokens = tokens - cost
+  allowed = 1
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) / rate) + 1000)
+
+return { allowed, tostring(tokens), now }
+`;
+
+const sha1 = (script: string) => createHash('sha1').update(script).digest('hex');
+const SLIDING_WINDOW_SHA = sha1(SLIDING_WINDOW_SCRIPT);
+const TOKEN_BUCKET_SHA = sha1(TOKEN_BUCKET_SCRIPT);
+
+const SCAN_COUNT = 500;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis' as const;
+
+  private client: RedisClient;
+  private fallback = new MemoryRateLimitStore();
+  private degraded = false;
+
+  constructor(options: RedisOptions, private prefix: string = 'ogframe:rl:') {
+    this.client = new RedisClient(options);
+  }
+
+  async consume(key: string, rule: RateLimitRule, cost: number = 1): Promise<RateLimitResult> {
+    try {
+      const result = rule.algorithm === 'token-bucket'
+        ? await this.consumeBucket(key, rule, cost)
+        : await this.consumeWindow(key, rule, cost);
+
+      this.markHealthy();
+      return result;
+    } catch (error) {
+      this.markDegraded(error);
+      return this.fallback.consume(key, rule, cost);
+    }
+  }
+
+  async reset(pattern: string): Promise<number> {
+    let count = await this.fallback.reset(pattern);
+
+    const match = `${escapeGlob(this.prefix)}*${escapeGlob(pattern)}*`;
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.command([
+        'SCAN', cursor, 'MATCH', match, 'COUNT', SCAN_COUNT
+      ]) as [string, string[]];
+
+      if (keys.length > 0) {
+        count += Number(await this.client.command(['DEL', ...keys]));
+      }
+      cursor = next;
+    } while (cursor !== '0');
+
+    return count;
+  }
+
+  isHealthy(): boolean {
+    return !this.degraded;
+  }
+
+  async close(): Promise<void> {
+    await this.fallback.close();
+    await this.client.close();
+  }
+
+  private async consumeWindow(key: string, rule: RateLimitRule, cost: number): Promise<RateLimitResult> {
+    const windowMs = rule.windowSeconds * 1000;
+    const [allowed, count, oldest, newest, now] = await this.client.evalScript(
+      SLIDING_WINDOW_SCRIPT,
+      SLIDING_WINDOW_SHA,
+      [this.prefix + key],
+      [windowMs, rule.limit, cost, randomUUID()]
+    ) as number[];
+
+    return {
+      allowed: allowed === 1,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - count),
+      resetAt: Date.now() + (count > 0 ? newest + windowMs - now : 0),
+      retryAfter: allowed === 1 ? 0 : Math.max(1, Math.ceil((oldest + windowMs - now) / 1000))
+    };
+  }
+
+  private async consumeBucket(key: string, rule: RateLimitRule, cost: number): Promise<RateLimitResult> {
+    const capacity = rule.burst ?? rule.limit;
+    const ratePerMs = rule.limit / (rule.windowSeconds * 1000);
+    const [allowed, tokenString] = await this.client.evalScript(
+      TOKEN_BUCKET_SCRIPT,
+      TOKEN_BUCKET_SHA,
+      [this.prefix + key],
+      [capacity, ratePerMs, cost]
+    ) as [number, string];
+
+    const tokens = parseFloat(tokenString);
+    return {
+      allowed: allowed === 1,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetAt: Date.now() + Math.ceil((capacity - tokens) / ratePerMs),
+      retryAfter: allowed === 1 ? 0 : Math.max(1, Math.ceil((1 - tokens) / ratePerMs / 1000))
+    };
+  }
+
+  private markHealthy(): void {
+    if (!this.degraded) return;
+    this.degraded = false;
+    logger.info('Redis rate limit store recovered');
+  }
+
+  private markDegraded(error: unknown): void {
+    if (this.degraded) return; // Log once per outage
+    this.degraded = true;
+    logger.error('Redis rate limit store unavailable, falling back to local limits', {
+      error: error instanceof Error ? error.message : error
+    });
+  }
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
@@ -1,129 +1,146 @@
 /**
  * Screenshot Service
- * Headless browser screenshot generation using Playwright
+ * Headless browser screenshot generation using Playwright (pooled browsers)
  */
 
-import { chromium, type Browser, type Page } from 'playwright';
+import { chromium, type BrowserContext, type Page } from 'playwright';
+import type { ImageSize, ReadyResult, ReadySettings, ResourcePolicy, ScreenshotOptions, ScreenshotResult } from '../types.js';
 import { OGFrameError } from '../types.js';
+import { DEFAULT_SIZE } from '../utils/size.js';
+import { getBlockReason, getDefaultBlock } from '../utils/resources.js';
+import { DEFAULT_READY, getReadyDelay, getReadyTimeout } from '../utils/readiness.js';
+import { browserPool } from './browserPool.js';
+import { assertPublicDestination, confineContext } from './egress.js';
 import { logger } from '../utils/logger.js';
 import config from '../config.js';
 
-// Semaphore for limiting concurrent screenshots
-class Semaphore {
-  private count: number;
-  private max: number;
-  private queue: Array<() => void> = [];
+const USER_AGENT = 'OGFrame/1.0 (Screenshot Bot; +https://github.com/eldtechnologies/ogframe)';
 
-  constructor(max: number) {
-    this.count = 0;
-    this.max = max;
-  }
+interface CaptureOptions {
+  label: string;           // What is being captured (for logs)
+  width: number;
+  height: number;
+  javaScriptEnabled: boolean;
+  resources?: ResourcePolicy;  // Block trackers, fonts, images, media (URL screenshots)
+}
 
-  async acquire(): Promise<void> {
-    if (this.count < this.max) {
-      this.count++;
-      return;
-    }
+interface BlockedRequests {
+  total: number;
+  byReason: Record<string, number>;
+  byHost: Record<string, number>;
+}
 
-    return new Promise<void>(resolve => {
-      this.queue.push(resolve);
-    });
-  }
+const MAX_LOGGED_HOSTS = 10;
 
-  release(): void {
-    this.count--;
-    const next = this.queue.shift();
-    if (next) {
-      this.count++;
-      next();
+/**
+ * Abort requests excluded by a resource policy
+ * Installed after the egress guard, so it runs first and falls back to it
+ */
+async function blockResources(context: BrowserContext, policy: ResourcePolicy): Promise<BlockedRequests> {
+  const blocked: BlockedRequests = { total: 0, byReason: {}, byHost: {} };
+  const block = policy.block ?? getDefaultBlock();
+
+  await context.route('**/*', async route => {
+    const request = route.request();
+
+    // The page itself is always loaded
+    if (request.isNavigationRequest() && !request.frame().parentFrame()) {
+      return route.fallback();
     }
-  }
 
-  async use<T>(fn: () => Promise<T>): Promise<T> {
-    await this.acquire();
-    try {
-      return await fn();
-    } finally {
-      this.release();
+    const hostname = new URL(request.url()).hostname;
+    const reason = getBlockReason(policy, block, hostname, request.resourceType());
+    if (!reason) {
+      return route.fallback();
     }
-  }
+
+    blocked.total++;
+    blocked.byReason[reason] = (blocked.byReason[reason] ?? 0) + 1;
+    blocked.byHost[hostname] = (blocked.byHost[hostname] ?? 0) + 1;
+    await route.abort('blockedbyclient').catch(() => {});
+  });
+
+  return blocked;
 }
 
-const screenshotSemaphore = new Semaphore(config.maxConcurrentScreenshots);
+/**
+ * Log what a resource policy kept off the page
+ */
+function logBlockedRequests(label: string, blocked: BlockedRequests): void {
+  if (blocked.total === 0) return;
+
+  const hosts = Object.entries(blocked.byHost)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_LOGGED_HOSTS);
+
+  logger.info('Blocked requests during capture', {
+    target: label,
+    blocked: blocked.total,
+    byReason: blocked.byReason,
+    hosts: Object.fromEntries(hosts)
+  });
+}
 
 /**
- * Generate screenshot of URL
+ * Run a capture in a fresh browser page
+ * Shared pipeline for URL screenshots and template rendering
  */
-export async function generateScreenshot(url: string): Promise<Buffer> {
+async function capture(
+  options: CaptureOptions,
+  render: (page: Page) => Promise<void>
+): Promise<Buffer> {
   const startTime = Date.now();
+  const { label, width, height } = options;
+
+  // Isolated context with security restrictions on a pooled browser
+  const contextOptions = {
+    viewport: { width, height },
+    deviceScaleFactor: 1,
+    hasTouch: false,
+    javaScriptEnabled: options.javaScriptEnabled,
+    bypassCSP: false,
+    ignoreHTTPSErrors: false,
+    userAgent: USER_AGENT,
+    serviceWorkers: 'block' as const  // Their requests would bypass routing
+  };
 
-  return await screenshotSemaphore.use(async () => {
-    let browser: Browser | null = null;
+  return await browserPool.run(contextOptions, async context => {
     let page: Page | null = null;
+    let blocked: BlockedRequests | null = null;
 
     try {
-      logger.debug('Starting screenshot generation', { url });
-
-      // Launch browser (fresh instance for each screenshot)
-      browser = await chromium.launch({
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-gpu',
-          '--hide-scrollbars',
-          '--mute-audio'
-        ],
-        timeout: 30000
-      });
-
-      // Create context with security restrictions
-      const context = await browser.newContext({
-        viewport: {
-          width: config.screenshotWidth,
-          height: config.screenshotHeight
-        },
-        deviceScaleFactor: 1,
-        hasTouch: false,
-        javaScriptEnabled: true, // Need JS for SPAs
-        bypassCSP: false,
-        ignoreHTTPSErrors: false,
-        userAgent: 'OGFrame/1.0 (Screenshot Bot; +https://github.com/eldtechnologies/ogframe)'
-      });
+      logger.debug('Starting screenshot generation', { target: label });
 
+      const guard = await confineContext(context, label);
+      if (options.resources) {
+        blocked = await blockResources(context, options.resources);
+      }
       page = await context.newPage();
 
       // Set timeout
       page.setDefaultTimeout(config.screenshotTimeout);
       page.setDefaultNavigationTimeout(config.screenshotTimeout);
 
-      // Navigate to URL
-      logger.debug('Navigating to URL', { url });
-      await page.goto(url, {
-        waitUntil: 'networkidle',
-        timeout: config.screenshotTimeout
+      await render(page).catch(error => {
+        throw guard.blockedNavigation ?? error;
       });
 
-      // Wait for initial render - videos with poster images will show the poster
-      await page.waitForTimeout(1500);
+      // Navigated (by script or meta refresh) somewhere it may not go
+      if (guard.blockedNavigation) {
+        throw guard.blockedNavigation;
+      }
 
       // Take screenshot
-      logger.debug('Taking screenshot', { url });
+      logger.debug('Taking screenshot', { target: label });
       const screenshot = await page.screenshot({
         type: 'png',
         fullPage: false, // Just viewport
-        clip: {
-          x: 0,
-          y: 0,
-          width: config.screenshotWidth,
-          height: config.screenshotHeight
-        }
+        clip: { x: 0, y: 0, width, height }
       });
 
       const duration = Date.now() - startTime;
       logger.info('Screenshot generated successfully', {
-        url,
+        target: label,
         duration,
         size: screenshot.length
       });
@@ -133,11 +150,15 @@ export async function generateScreenshot(url: string): Promise<Buffer> {
     } catch (error) {
       const duration = Date.now() - startTime;
       logger.error('Screenshot generation failed', {
-        url,
+        target: label,
         duration,
         error: error instanceof Error ? error.message : String(error)
       });
 
+      if (error instanceof OGFrameError) {
+        throw error;
+      }
+
       if (error instanceof Error) {
         if (error.message.includes('timeout')) {
           throw new OGFrameError(
@@ -164,10 +185,13 @@ export async function generateScreenshot(url: string): Promise<Buffer> {
       );
 
     } finally {
-      // Always clean up
+      if (blocked) {
+        logBlockedRequests(label, blocked);
+      }
+
+      // Context is closed by the pool, page first for a clean shutdown
       try {
         if (page) await page.close();
-        if (browser) await browser.close();
       } catch (cleanupError) {
         logger.warn('Error during browser cleanup', { error: cleanupError });
       }
@@ -175,6 +199,168 @@ export async function generateScreenshot(url: string): Promise<Buffer> {
   });
 }
 
+const SELECTOR_TIMEOUT = 5000;
+
+// Readiness checks, evaluated in the page
+const SIGNAL_READY = `window.__OGFRAME_READY__ === true ||
+  document.querySelector('meta[name="ogframe:ready"]') !== null`;
+
+// Lazy images below the fold never load, only those in view count
+const ASSETS_READY = `document.fonts.status === 'loaded' &&
+  Array.from(document.images)
+    .filter(img => img.getBoundingClientRect().top < window.innerHeight)
+    .every(img => img.complete)`;
+
+// Nearest non-transparent background of the element or its ancestors, for padding
+// Selectors are CSS, so querySelector finds the element the locator matched first
+function backgroundOf(selector: string): string {
+  return `(() => {
+    let current = document.querySelector(${JSON.stringify(selector)});
+    while (current) {
+      const color = getComputedStyle(current).backgroundColor;
+      if (color && color !== 'transparent' && color !== 'rgba(0, 0, 0, 0)') return color;
+      current = current.parentElement;
+    }
+    return '#ffffff';
+  })()`;
+}
+
+/**
+ * Capture a single element and fit it into the viewport
+ * The element is scaled down (never up) and padded with its background color
+ */
+async function captureElement(page: Page, selector: string, url: string): Promise<void> {
+  const element = page.locator(selector).first();
+
+  try {
+    await element.waitFor({ state: 'visible', timeout: SELECTOR_TIMEOUT });
+  } catch {
+    throw new OGFrameError(
+      'SELECTOR_NOT_FOUND',
+      `Element matching "${selector}" not found on page`,
+      422,
+      { selector, url }
+    );
+  }
+
+  await element.scrollIntoViewIfNeeded();
+  const elementImage = await element.screenshot({ type: 'png' });
+
+  const computed = await page.evaluate<string>(backgroundOf(selector)).catch(() => '#ffffff');
+  const background = /^[a-z0-9#(),.%\s]+$/i.test(computed) ? computed : '#ffffff';
+
+  // Replace page with the element image, fitted to the viewport
+  await page.setContent(`<!DOCTYPE html>
+    <html><body style="margin:0;width:100vw;height:100vh;display:flex;align-items:center;justify-content:center;overflow:hidden;background:${background}">
+      <img src="data:image/png;base64,${elementImage.toString('base64')}" style="max-width:100%;max-height:100%;object-fit:contain">
+    </body></html>`, { waitUntil: 'load' });
+}
+
+/**
+ * Wait until the page is ready by the given strategy
+ * Selector, signal and assets waits give up after their timeout and capture anyway
+ */
+async function waitForReady(page: Page, settings: ReadySettings, url: string): Promise<boolean> {
+  const timeout = getReadyTimeout(settings);
+
+  try {
+    switch (settings.strategy) {
+      case 'delay':
+        // Videos with poster images will show the poster
+        await page.waitForTimeout(getReadyDelay(settings));
+        break;
+
+      case 'selector':
+        await page.locator(settings.selector as string).first().waitFor({ state: 'visible', timeout });
+        break;
+
+      case 'signal':
+        await page.waitForFunction(SIGNAL_READY, undefined, { timeout });
+        break;
+
+      case 'assets':
+        await page.waitForFunction(ASSETS_READY, undefined, { timeout });
+        break;
+    }
+    return false;
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== 'TimeoutError') throw error;
+
+    logger.warn('Page not ready in time, capturing anyway', {
+      url,
+      strategy: settings.strategy,
+      timeout
+    });
+    return true;
+  }
+}
+
+/**
+ * Generate screenshot of URL
+ */
+export async function generateScreenshot(
+  url: string,
+  options: ScreenshotOptions = {}
+): Promise<ScreenshotResult> {
+  const size = options.size ?? DEFAULT_SIZE;
+  const readySettings = options.ready ?? DEFAULT_READY;
+  let ready: ReadyResult = { strategy: readySettings.strategy, duration: 0 };
+
+  // Fail fast, before waiting for a browser
+  await assertPublicDestination(url, url);
+
+  const png = await capture({
+    label: options.selector ? `${url} ${options.selector}` : url,
+    width: size.width,
+    height: size.height,
+    javaScriptEnabled: true, // Need JS for SPAs
+    resources: options.resources ?? {}
+  }, async page => {
+    // Navigate to URL - only the delay strategy relies on the network going quiet
+    logger.debug('Navigating to URL', { url, ready: readySettings.strategy });
+    const navigationStart = Date.now();
+    await page.goto(url, {
+      waitUntil: readySettings.strategy === 'delay' ? 'networkidle' : 'load',
+      timeout: config.screenshotTimeout
+    });
+
+    const timedOut = await waitForReady(page, readySettings, url);
+    ready = {
+      strategy: readySettings.strategy,
+      duration: Date.now() - navigationStart,
+      ...(timedOut && { timedOut })
+    };
+
+    if (options.selector) {
+      await captureElement(page, options.selector, url);
+    }
+  });
+
+  return { png, ready };
+}
+
+/**
+ * Render an HTML document (template mode)
+ * JavaScript is disabled - templates are pure HTML/CSS
+ */
+export async function renderHtml(
+  html: string,
+  label: string,
+  size: ImageSize
+): Promise<Buffer> {
+  return capture({
+    label,
+    width: size.width,
+    height: size.height,
+    javaScriptEnabled: false
+  }, async page => {
+    await page.setContent(html, {
+      waitUntil: 'networkidle',
+      timeout: config.screenshotTimeout
+    });
+  });
+}
+
 /**
  * Check if Playwright browsers are installed
  */
@@ -0,0 +1,216 @@
+/**
+ * Usage Statistics
+ * Hourly buckets of cache hits, misses and generations per key and domain
+ *
+ * Buckets are kept for RETENTION_HOURS and written to CACHE_DIR/stats.json
+ * every minute and on shutdown, so hit rates survive restarts.
+ */
+
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { StatsBucket, TimeseriesQuery, UsageCounts } from '../types.js';
+import { writeFileAtomic } from '../utils/fs.js';
+import { logger } from '../utils/logger.js';
+import config from '../config.js';
+
+const HOUR = 3600 * 1000;
+const RETENTION_HOURS = 24 * 31;
+const FLUSH_INTERVAL = 60000;
+
+export type UsageEvent = 'hit' | 'miss' | 'generation';
+
+interface Bucket {
+  start: number;                          // Epoch ms, start of the hour
+  counts: Record<string, UsageCounts>;    // By "keyId hostname"
+}
+
+let buckets: Bucket[] = [];  // Oldest first
+let dirty = false;
+let flushTimer: NodeJS.Timeout | null = null;
+
+function getStatsFile(): string {
+  return join(config.cacheDir, 'stats.json');
+}
+
+/**
+ * Load persisted buckets and start periodic writes
+ */
+export function initStats(): void {
+  const statsFile = getStatsFile();
+
+  if (existsSync(statsFile)) {
+    try {
+      const data = JSON.parse(readFileSync(statsFile, 'utf-8')) as { buckets?: Bucket[] };
+      buckets = (data.buckets ?? []).sort((a, b) => a.start - b.start);
+      prune(Date.now());
+    } catch (error) {
+      logger.warn('Failed to load usage stats, starting empty', { path: statsFile, error });
+      buckets = [];
+    }
+  }
+
+  if (!flushTimer) {
+    flushTimer = setInterval(flushStats, FLUSH_INTERVAL);
+    flushTimer.unref();
+  }
+
+  logger.info('Usage stats loaded', { buckets: buckets.length });
+}
+
+/**
+ * Write buckets to disk if anything changed
+ */
+export function flushStats(): void {
+  if (!dirty) return;
+
+  try {
+    mkdirSync(config.cacheDir, { recursive: true });
+    writeFileAtomic(getStatsFile(), JSON.stringify({ buckets }));
+    dirty = false;
+  } catch (error) {
+    logger.error('Failed to save usage stats', { error });
+  }
+}
+
+/**
+ * Stop periodic writes and flush (call on shutdown)
+ */
+export function closeStats(): void {
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+  flushStats();
+}
+
+/**
+ * Count a cache hit, miss or generation
+ */
+export function recordUsage(event: UsageEvent, keyId: string, hostname: string | null): void {
+  const now = Date.now();
+  const bucket = currentBucket(now);
+  const dimension = `${keyId} ${hostname ?? ''}`;
+  const counts = bucket.counts[dimension] ??= { hits: 0, misses: 0, generations: 0 };
+
+  if (event === 'hit') counts.hits++;
+  else if (event === 'miss') counts.misses++;
+  else counts.generations++;
+
+  dirty = true;
+}
+
+/**
+ * Hit rates over the last 1h, 24h and 7d
+ */
+export function getHitRates(): { last1h: number; last24h: number; last7d: number } {
+  const now = Date.now();
+  return {
+    last1h: hitRate(sumWindow(now, 1)),
+    last24h: hitRate(sumWindow(now, 24)),
+    last7d: hitRate(sumWindow(now, 24 * 7))
+  };
+}
+
+/**
+ * Hourly buckets, optionally filtered by key and/or domain
+ * Defaults to the last 24 hours; hours without traffic are included as zeros
+ */
+export function getTimeseries(query: TimeseriesQuery = {}): StatsBucket[] {
+  const now = Date.now();
+  const until = Math.min(query.until?.getTime() ?? now, now);
+  const since = Math.max(query.since?.getTime() ?? until - 24 * HOUR, now - RETENTION_HOURS * HOUR);
+  const matches = dimensionFilter(query);
+
+  const byStart = new Map(buckets.map(b => [b.start, b]));
+  const series: StatsBucket[] = [];
+
+  for (let start = hourStart(since); start < until; start += HOUR) {
+    const bucket = byStart.get(start);
+    const counts = bucket ? sumBucket(bucket, matches) : { hits: 0, misses: 0, generations: 0 };
+    series.push({ start: new Date(start).toISOString(), ...counts, hitRate: hitRate(counts) });
+  }
+
+  return series;
+}
+
+function hourStart(time: number): number {
+  return Math.floor(time / HOUR) * HOUR;
+}
+
+/**
+ * Bucket for the current hour, created (and old buckets dropped) as hours pass
+ */
+function currentBucket(now: number): Bucket {
+  const start = hourStart(now);
+  const last = buckets[buckets.length - 1];
+  if (last && last.start === start) {
+    return last;
+  }
+
+  const bucket: Bucket = { start, counts: {} };
+  buckets.push(bucket);
+  prune(now);
+  return bucket;
+}
+
+function prune(now: number): void {
+  const cutoff = hourStart(now) - RETENTION_HOURS * HOUR;
+  const firstKept = buckets.findIndex(b => b.start >= cutoff);
+  if (firstKept === -1) {
+    buckets = [];
+  } else if (firstKept > 0) {
+    buckets.splice(0, firstKept);
+  }
+}
+
+function dimensionFilter(query: TimeseriesQuery): (dimension: string) => boolean {
+  const domain = query.domain?.toLowerCase();
+
+  return (dimension: string) => {
+    const separator = dimension.indexOf(' ');
+    const keyId = dimension.slice(0, separator);
+    const hostname = dimension.slice(separator + 1);
+
+    if (query.keyId && keyId !== query.keyId) return false;
+    if (domain && hostname !== domain && !hostname.endsWith(`.${domain}`)) return false;
+    return true;
+  };
+}
+
+function sumBucket(bucket: Bucket, matches: (dimension: string) => boolean = () => true): UsageCounts {
+  const total: UsageCounts = { hits: 0, misses: 0, generations: 0 };
+  for (const [dimension, counts] of Object.entries(bucket.counts)) {
+    if (!matches(dimension)) continue;
+    total.hits += counts.hits;
+    total.misses += counts.misses;
+    total.generations += counts.generations;
+  }
+  return total;
+}
+
+/**
+ * Totals for the last `hours` hours
+ * The oldest bucket only partly overlaps the window and is weighted by that fraction
+ */
+function sumWindow(now: number, hours: number): UsageCounts {
+  const windowStart = now - hours * HOUR;
+  const total: UsageCounts = { hits: 0, misses: 0, generations: 0 };
+
+  for (let i = buckets.length - 1; i >= 0; i--) {
+    const bucket = buckets[i];
+    if (bucket.start + HOUR <= windowStart) break;
+
+    const weight = bucket.start < windowStart ? (bucket.start + HOUR - windowStart) / HOUR : 1;
+    const counts = sumBucket(bucket);
+    total.hits += counts.hits * weight;
+    total.misses += counts.misses * weight;
+    total.generations += counts.generations * weight;
+  }
+
+  return total;
+}
+
+function hitRate(counts: UsageCounts): number {
+  const total = counts.hits + counts.misses;
+  return total > 0 ? counts.hits / total : 0;
+}
@@ -0,0 +1,104 @@
+/**
+ * File Cache Backend
+ * Images on the local file system, metadata in an append-only journal
+ * (default backend)
+ */
+
+import { existsSync, mkdirSync } from 'fs';
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { CacheBackend, CacheEntry, CacheMetadata, ImageFormat } from '../../types.js';
+import { MetadataJournal } from './journal.js';
+import { logger } from '../../utils/logger.js';
+
+export class FileCacheBackend implements CacheBackend {
+  readonly name = 'file' as const;
+
+  private imagesDir: string;
+  private journal: MetadataJournal;
+
+  constructor(private cacheDir: string) {
+    this.imagesDir = join(cacheDir, 'images');
+    this.journal = new MetadataJournal(
+      join(cacheDir, 'metadata.jsonl'),
+      join(cacheDir, 'metadata.json') // Migrated on first start
+    );
+  }
+
+  async init(): Promise<void> {
+    if (!existsSync(this.cacheDir)) {
+      mkdirSync(this.cacheDir, { recursive: true });
+      logger.info('Created cache directory', { path: this.cacheDir });
+    }
+
+    if (!existsSync(this.imagesDir)) {
+      mkdirSync(this.imagesDir, { recursive: true });
+      logger.info('Created images directory', { path: this.imagesDir });
+    }
+  }
+
+  async loadMetadata(): Promise<CacheMetadata> {
+    return this.journal.open();
+  }
+
+  async getEntry(cacheKey: string): Promise<CacheEntry | null> {
+    // Single process owns the directory, nothing to look up beyond memory
+    return this.journal.get(cacheKey);
+  }
+
+  async saveEntry(entry: CacheEntry): Promise<void> {
+    this.journal.put(entry);
+  }
+
+  async touchEntry(entry: CacheEntry): Promise<void> {
+    // Access stats change on every hit - batched by the journal
+    this.journal.touch(entry);
+  }
+
+  async deleteEntry(cacheKey: string): Promise<void> {
+    this.journal.delete(cacheKey);
+  }
+
+  async readImage(location: string): Promise<Buffer | null> {
+    try {
+      return await readFile(location);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async writeImage(cacheKey: string, imageBuffer: Buffer, format: ImageFormat): Promise<string> {
+    const filePath = await this.getCacheFilePath(cacheKey, format);
+    await writeFile(filePath, imageBuffer);
+    return filePath;
+  }
+
+  async deleteImage(location: string): Promise<void> {
+    try {
+      await unlink(location);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.journal.flush();
+  }
+
+  /**
+   * Get cache file path for a cache key
+   */
+  private async getCacheFilePath(cacheKey: string, format: ImageFormat): Promise<string> {
+    // Use first 2 characters as subdirectory to avoid too many files in one dir
+    const subdir = cacheKey.slice(0, 2);
+    const subdirPath = join(this.imagesDir, subdir);
+    await mkdir(subdirPath, { recursive: true });
+
+    return join(subdirPath, `${cacheKey}.${format}`);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
@@ -0,0 +1,37 @@
+/**
+ * Cache Backend Factory
+ * Selects storage backend from CACHE_BACKEND
+ */
+
+import type { CacheBackend } from '../../types.js';
+import { FileCacheBackend } from './file.js';
+import { S3CacheBackend } from './s3.js';
+import config from '../../config.js';
+
+export function createCacheBackend(): CacheBackend {
+  switch (config.cacheBackend) {
+    case 'file':
+      return new FileCacheBackend(config.cacheDir);
+
+    case 's3': {
+      if (!config.s3Bucket || !config.s3AccessKey || !config.s3SecretKey) {
+        throw new Error('CACHE_BACKEND=s3 requires S3_BUCKET, S3_ACCESS_KEY and S3_SECRET_KEY');
+      }
+
+      return new S3CacheBackend({
+        endpoint: config.s3Endpoint,
+        region: config.s3Region,
+        bucket: config.s3Bucket,
+        accessKey: config.s3AccessKey,
+        secretKey: config.s3SecretKey,
+        forcePathStyle: config.s3ForcePathStyle,
+        timeout: config.s3Timeout
+      }, config.s3Prefix);
+    }
+
+    default:
+      throw new Error(`Unknown CACHE_BACKEND "${config.cacheBackend}". Use "file" or "s3"`);
+  }
+}
+
+export { FileCacheBackend, S3CacheBackend };
@@ -0,0 +1,243 @@
+/**
+ * Metadata Journal
+ * Append-only log of cache metadata changes with periodic compaction
+ *
+ * - Each change is one JSON line; a crash can only lose the line being
+ *   written, and a torn last line is skipped on replay
+ * - Access stats are batched and written every TOUCH_FLUSH_INTERVAL
+ * - Compaction writes a snapshot to a temp file and renames it over the
+ *   journal, so the file on disk is always complete
+ * - A legacy metadata.json is migrated on first open
+ */
+
+import { existsSync, readFileSync, renameSync } from 'fs';
+import { appendFile } from 'fs/promises';
+import type { CacheEntry, CacheMetadata } from '../../types.js';
+import { writeFileAtomic } from '../../utils/fs.js';
+import { logger } from '../../utils/logger.js';
+
+const TOUCH_FLUSH_INTERVAL = 10000; // Write batched access stats every 10s
+const COMPACT_MIN_RECORDS = 1000;   // Don't bother compacting small journals
+const COMPACT_RATIO = 2;            // Compact when records > live entries × ratio
+
+type JournalRecord =
+  | { op: 'put'; entry: CacheEntry }
+  | { op: 'touch'; key: string; lastAccessed: string; accessCount: number }
+  | { op: 'del'; key: string };
+
+export class MetadataJournal {
+  private entries: CacheMetadata = {};
+  private dirty = new Map<string, CacheEntry>();
+  private pending: string[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private records = 0;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private journalFile: string, private legacyFile?: string) {}
+
+  /**
+   * Replay journal (or migrate legacy metadata.json) and start batching
+   */
+  open(): CacheMetadata {
+    if (existsSync(this.journalFile)) {
+      this.replay();
+    } else if (this.legacyFile && existsSync(this.legacyFile)) {
+      this.migrate(this.legacyFile);
+    } else {
+      this.writeSnapshot();
+      logger.info('Initialized new cache metadata journal', { path: this.journalFile });
+    }
+
+    // A journal full of dead records is compacted once at startup
+    if (this.shouldCompact()) {
+      this.writeSnapshot();
+    }
+
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(error => {
+        logger.error('Failed to flush cache access stats', { error });
+      });
+    }, TOUCH_FLUSH_INTERVAL);
+    this.flushTimer.unref();
+
+    return { ...this.entries };
+  }
+
+  get(cacheKey: string): CacheEntry | null {
+    return this.entries[cacheKey] || null;
+  }
+
+  put(entry: CacheEntry): void {
+    this.entries[entry.cacheKey] = entry;
+    this.dirty.delete(entry.cacheKey);
+    this.append({ op: 'put', entry });
+  }
+
+  /**
+   * Record access stats (written in the next batch)
+   */
+  touch(entry: CacheEntry): void {
+    this.entries[entry.cacheKey] = entry;
+    this.dirty.set(entry.cacheKey, entry);
+  }
+
+  delete(cacheKey: string): void {
+    if (!this.entries[cacheKey]) return;
+    delete this.entries[cacheKey];
+    this.dirty.delete(cacheKey);
+    this.append({ op: 'del', key: cacheKey });
+  }
+
+  /**
+   * Write batched access stats and wait for pending appends
+   */
+  async flush(): Promise<void> {
+    for (const entry of this.dirty.values()) {
+      this.append({
+        op: 'touch',
+        key: entry.cacheKey,
+        lastAccessed: entry.lastAccessed,
+        accessCount: entry.accessCount
+      });
+    }
+    this.dirty.clear();
+
+    await this.drain();
+
+    if (this.shouldCompact()) {
+      await this.compact();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  private append(record: JournalRecord): void {
+    this.pending.push(JSON.stringify(record) + '\n');
+    this.records++;
+    void this.drain();
+  }
+
+  /**
+   * Write queued records; appends are chained so lines never interleave
+   */
+  private drain(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      if (this.pending.length === 0) return;
+      const chunk = this.pending.join('');
+      this.pending = [];
+      try {
+        await appendFile(this.journalFile, chunk, 'utf-8');
+      } catch (error) {
+        logger.error('Failed to append cache metadata journal', { error });
+      }
+    });
+    return this.writing;
+  }
+
+  private shouldCompact(): boolean {
+    const live = Object.keys(this.entries).length;
+    return this.records >= COMPACT_MIN_RECORDS && this.records > live * COMPACT_RATIO;
+  }
+
+  private async compact(): Promise<void> {
+    // Run inside the write chain so no append lands between snapshot and rename
+    this.writing = this.writing.then(() => {
+      const before = this.records;
+      try {
+        this.writeSnapshot();
+        logger.info('Compacted cache metadata journal', {
+          records: before,
+          entries: this.records
+        });
+      } catch (error) {
+        logger.error('Failed to compact cache metadata journal', { error });
+      }
+    });
+    await this.writing;
+  }
+
+  /**
+   * Atomically replace the journal with one put record per live entry
+   */
+  private writeSnapshot(): void {
+    // Records still queued are already reflected in this.entries
+    this.pending = [];
+
+    const lines = Object.values(this.entries)
+      .map(entry => JSON.stringify({ op: 'put', entry } satisfies JournalRecord) + '\n')
+      .join('');
+
+    writeFileAtomic(this.journalFile, lines);
+
+    this.records = Object.keys(this.entries).length;
+  }
+
+  private replay(): void {
+    const lines = readFileSync(this.journalFile, 'utf-8').split('\n');
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line) continue;
+
+      let record: JournalRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // Torn write from a crash - everything before it is intact
+        skipped++;
+        continue;
+      }
+
+      this.records++;
+      switch (record.op) {
+        case 'put':
+          this.entries[record.entry.cacheKey] = record.entry;
+          break;
+        case 'touch': {
+          const entry = this.entries[record.key];
+          if (entry) {
+            entry.lastAccessed = record.lastAccessed;
+            entry.accessCount = record.accessCount;
+          }
+          break;
+        }
+        case 'del':
+          delete this.entries[record.key];
+          break;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn('Skipped unreadable cache journal records', { skipped });
+      // Rewrite so new appends don't land on the end of a torn line
+      this.writeSnapshot();
+    }
+  }
+
+  /**
+   * One-time import of the old whole-file metadata.json
+   */
+  private migrate(legacyFile: string): void {
+    try {
+      this.entries = JSON.parse(readFileSync(legacyFile, 'utf-8'));
+    } catch (error) {
+      logger.error('Failed to read legacy cache metadata, starting empty', { error });
+      this.entries = {};
+    }
+
+    this.writeSnapshot();
+    renameSync(legacyFile, `${legacyFile}.migrated`);
+
+    logger.info('Migrated cache metadata to journal', {
+      entries: Object.keys(this.entries).length,
+      from: legacyFile,
+      to: this.journalFile
+    });
+  }
+}
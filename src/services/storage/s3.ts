@@ -0,0 +1,130 @@
+/**
+ * S3 Cache Backend
+ * Images and per-entry metadata in S3-compatible object storage
+ *
+ * Layout (under S3_PREFIX):
+ *   images/ab/abc123....png   (plus .webp/.avif/.jpeg variants)
+ *   entries/abc123....json
+ *
+ * Metadata is stored per entry so several replicas can share one bucket
+ * without overwriting each other's index.
+ */
+
+import type { CacheBackend, CacheEntry, CacheMetadata, ImageFormat } from '../../types.js';
+import { FORMAT_CONTENT_TYPES } from '../../utils/format.js';
+import { S3Client, type S3Options } from '../../utils/s3.js';
+import { logger } from '../../utils/logger.js';
+
+const TOUCH_FLUSH_INTERVAL = 60000; // Flush access stats every minute
+const LOAD_CONCURRENCY = 16;
+
+export class S3CacheBackend implements CacheBackend {
+  readonly name = 's3' as const;
+
+  private client: S3Client;
+  private dirty = new Map<string, CacheEntry>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: S3Options, private prefix: string = '') {
+    this.client = new S3Client(options);
+    if (this.prefix && !this.prefix.endsWith('/')) {
+      this.prefix += '/';
+    }
+  }
+
+  async init(): Promise<void> {
+    await this.client.headBucket();
+
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(error => {
+        logger.error('Failed to flush cache access stats', { error });
+      });
+    }, TOUCH_FLUSH_INTERVAL);
+    this.flushTimer.unref();
+  }
+
+  async loadMetadata(): Promise<CacheMetadata> {
+    const metadata: CacheMetadata = {};
+    const objects = await this.client.listObjects(`${this.prefix}entries/`);
+
+    // Fetch entries with bounded concurrency
+    let index = 0;
+    const worker = async () => {
+      while (index < objects.length) {
+        const object = objects[index++];
+        try {
+          const data = await this.client.getObject(object.key);
+          if (!data) continue;
+          const entry = JSON.parse(data.toString('utf-8')) as CacheEntry;
+          metadata[entry.cacheKey] = entry;
+        } catch (error) {
+          logger.warn('Skipping unreadable cache entry', { key: object.key, error });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: LOAD_CONCURRENCY }, worker));
+
+    return metadata;
+  }
+
+  async getEntry(cacheKey: string): Promise<CacheEntry | null> {
+    // Another replica may have generated this entry since we loaded
+    const data = await this.client.getObject(this.entryKey(cacheKey));
+    if (!data) return null;
+    return JSON.parse(data.toString('utf-8')) as CacheEntry;
+  }
+
+  async saveEntry(entry: CacheEntry): Promise<void> {
+    this.dirty.delete(entry.cacheKey);
+    await this.putEntry(entry);
+  }
+
+  async touchEntry(entry: CacheEntry): Promise<void> {
+    // Access stats change on every hit - batch instead of writing each time
+    this.dirty.set(entry.cacheKey, entry);
+  }
+
+  async deleteEntry(cacheKey: string): Promise<void> {
+    this.dirty.delete(cacheKey);
+    await this.client.deleteObject(this.entryKey(cacheKey));
+  }
+
+  async readImage(location: string): Promise<Buffer | null> {
+    return this.client.getObject(location);
+  }
+
+  async writeImage(cacheKey: string, imageBuffer: Buffer, format: ImageFormat): Promise<string> {
+    const key = `${this.prefix}images/${cacheKey.slice(0, 2)}/${cacheKey}.${format}`;
+    await this.client.putObject(key, imageBuffer, FORMAT_CONTENT_TYPES[format]);
+    return key;
+  }
+
+  async deleteImage(location: string): Promise<void> {
+    await this.client.deleteObject(location);
+  }
+
+  async flush(): Promise<void> {
+    const entries = [...this.dirty.values()];
+    this.dirty.clear();
+
+    for (const entry of entries) {
+      await this.putEntry(entry);
+    }
+
+    if (entries.length > 0) {
+      logger.debug('Flushed cache access stats', { count: entries.length });
+    }
+  }
+
+  private entryKey(cacheKey: string): string {
+    return `${this.prefix}entries/${cacheKey}.json`;
+  }
+
+  private async putEntry(entry: CacheEntry): Promise<void> {
+    await this.client.putObject(
+      this.entryKey(entry.cacheKey),
+      Buffer.from(JSON.stringify(entry), 'utf-8'),
+      'application/json'
+    );
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Template Service
+ * Designed OG cards rendered from title/description parameters
+ *
+ * Parameters are strictly limited (length + charset) because every distinct
+ * combination becomes a cache entry - see spec 11.2.
+ */
+
+import type { ApiKey, ImageSize, TemplateFont, TemplateName, TemplateRequest, TemplateSettings } from '../types.js';
+import { OGFrameError } from '../types.js';
+import { generateTemplateCacheKey } from '../utils/crypto.js';
+import { DEFAULT_SIZE, getSizeVariant } from '../utils/size.js';
+import { isValidBrandColor, parseLogoUrl, TEMPLATE_NAMES } from '../utils/branding.js';
+import { renderHtml } from './screenshot.js';
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// Letters, marks, numbers, punctuation, currency/math symbols and plain spaces.
+// No control characters, no newlines, no emoji.
+const ALLOWED_TEXT = /^[\p{L}\p{M}\p{N}\p{P}\p{Sc}\p{Sm} ]*$/u;
+
+const DEFAULT_BRAND_COLOR = '#2563eb';
+
+const FONT_STACKS: Record<TemplateFont, string> = {
+  sans: '"Inter", "Helvetica Neue", Arial, sans-serif',
+  serif: 'Georgia, "Times New Roman", serif',
+  mono: '"JetBrains Mono", "DejaVu Sans Mono", monospace',
+  rounded: '"Nunito", "Varela Round", "Arial Rounded MT Bold", sans-serif'
+};
+
+interface ResolvedBranding {
+  brandColor: string;
+  logoUrl: string | null;
+  fontStack: string;
+}
+
+/**
+ * Escape text for safe interpolation into HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Validate a text parameter (length + charset)
+ */
+function validateText(name: string, value: string, maxLength: number): string {
+  const normalized = value.normalize('NFC').trim().replace(/ {2,}/g, ' ');
+
+  if ([...normalized].length > maxLength) {
+    throw new OGFrameError(
+      'INVALID_PARAMS',
+      `Parameter ${name} too long (max ${maxLength} characters)`,
+      400
+    );
+  }
+
+  if (!ALLOWED_TEXT.test(normalized)) {
+    throw new OGFrameError(
+      'INVALID_PARAMS',
+      `Parameter ${name} contains unsupported characters`,
+      400
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * Validate template query parameters
+ */
+export function validateTemplateRequest(
+  apiKey: ApiKey,
+  params: { template?: string; title?: string; description?: string }
+): TemplateRequest {
+  if (!apiKey.template && apiKey.type !== 'admin') {
+    throw new OGFrameError(
+      'TEMPLATE_NOT_ALLOWED',
+      'Template mode is not enabled for this key',
+      403
+    );
+  }
+
+  const template = (params.template || 'default') as TemplateName;
+  if (!TEMPLATE_NAMES.includes(template)) {
+    throw new OGFrameError(
+      'INVALID_TEMPLATE',
+      `Unknown template "${params.template}"`,
+      400,
+      { templates: TEMPLATE_NAMES }
+    );
+  }
+
+  const allowedTemplates = apiKey.template?.templates;
+  if (allowedTemplates && !allowedTemplates.includes(template)) {
+    throw new OGFrameError(
+      'TEMPLATE_NOT_ALLOWED',
+      `Template "${template}" is not allowed for this key`,
+      403,
+      { templates: allowedTemplates }
+    );
+  }
+
+  if (!params.title) {
+    throw new OGFrameError(
+      'INVALID_PARAMS',
+      'Missing required parameter: title',
+      400
+    );
+  }
+
+  const title = validateText('title', params.title, MAX_TITLE_LENGTH);
+  if (!title) {
+    throw new OGFrameError('INVALID_PARAMS', 'Parameter title is empty', 400);
+  }
+
+  const description = params.description
+    ? validateText('description', params.description, MAX_DESCRIPTION_LENGTH)
+    : undefined;
+
+  return { template, title, description: description || undefined };
+}
+
+/**
+ * Resolve key branding, falling back to defaults for invalid values
+ */
+function resolveBranding(settings: TemplateSettings | undefined): ResolvedBranding {
+  const brandColor = settings?.brandColor && isValidBrandColor(settings.brandColor)
+    ? settings.brandColor
+    : DEFAULT_BRAND_COLOR;
+
+  const logoUrl = settings?.logoUrl ? parseLogoUrl(settings.logoUrl) : null;
+
+  const fontStack = FONT_STACKS[settings?.font || 'sans'] || FONT_STACKS.sans;
+
+  return { brandColor, logoUrl, fontStack };
+}
+
+/**
+ * Cache key over every parameter that affects the output
+ */
+export function getTemplateCacheKey(
+  apiKey: ApiKey,
+  request: TemplateRequest,
+  size: ImageSize = DEFAULT_SIZE
+): string {
+  return generateTemplateCacheKey({
+    keyId: apiKey.keyId,
+    template: request.template,
+    title: request.title,
+    description: request.description,
+    branding: resolveBranding(apiKey.template),
+    size: getSizeVariant(size)
+  });
+}
+
+/**
+ * Human-readable identifier stored as the entry URL
+ */
+export function getTemplateIdentifier(request: TemplateRequest): string {
+  const params = new URLSearchParams({ title: request.title });
+  if (request.description) {
+    params.set('description', request.description);
+  }
+  return `template://${request.template}?${params.toString()}`;
+}
+
+function baseStyles(branding: ResolvedBranding): string {
+  return `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    html, body { width: 100vw; height: 100vh; overflow: hidden; }
+    body { font-family: ${branding.fontStack}; -webkit-font-smoothing: antialiased; }
+    .title { font-weight: 800; line-height: 1.1; letter-spacing: -0.02em; overflow-wrap: anywhere; }
+    .description { line-height: 1.4; overflow-wrap: anywhere; }
+    .logo { max-height: 64px; max-width: 240px; object-fit: contain; }
+  `;
+}
+
+function logoTag(branding: ResolvedBranding): string {
+  return branding.logoUrl
+    ? `<img class="logo" src="${escapeHtml(branding.logoUrl)}" alt="">`
+    : '';
+}
+
+const TEMPLATES: Record<TemplateName, (req: TemplateRequest, branding: ResolvedBranding) => string> = {
+  default: (req, branding) => `
+    <style>
+      ${baseStyles(branding)}
+      body { background: ${branding.brandColor}; color: #fff; padding: 72px 80px; display: flex; flex-direction: column; justify-content: space-between; }
+      .title { font-size: 68px; }
+      .description { font-size: 30px; margin-top: 28px; opacity: 0.9; }
+    </style>
+    <div>
+      <div class="title">${escapeHtml(req.title)}</div>
+      ${req.description ? `<div class="description">${escapeHtml(req.description)}</div>` : ''}
+    </div>
+    <div>${logoTag(branding)}</div>
+  `,
+
+  minimal: (req, branding) => `
+    <style>
+      ${baseStyles(branding)}
+      body { background: #fff; color: #111827; padding: 80px; display: flex; flex-direction: column; justify-content: center; border-top: 16px solid ${branding.brandColor}; }
+      .title { font-size: 64px; }
+      .description { font-size: 28px; margin-top: 24px; color: #4b5563; }
+      .logo { position: absolute; right: 80px; bottom: 64px; }
+    </style>
+    <div class="title">${escapeHtml(req.title)}</div>
+    ${req.description ? `<div class="description">${escapeHtml(req.description)}</div>` : ''}
+    ${logoTag(branding)}
+  `,
+
+  split: (req, branding) => `
+    <style>
+      ${baseStyles(branding)}
+      body { display: flex; background: #0f172a; color: #f8fafc; }
+      .panel { width: 360px; background: ${branding.brandColor}; display: flex; align-items: center; justify-content: center; padding: 40px; }
+      .content { flex: 1; padding: 72px 64px; display: flex; flex-direction: column; justify-content: center; }
+      .title { font-size: 56px; }
+      .description { font-size: 26px; margin-top: 24px; color: #cbd5e1; }
+    </style>
+    <div class="panel">${logoTag(branding)}</div>
+    <div class="content">
+      <div class="title">${escapeHtml(req.title)}</div>
+      ${req.description ? `<div class="description">${escapeHtml(req.description)}</div>` : ''}
+    </div>
+  `
+};
+
+/**
+ * Build the full HTML document for a template request
+ */
+export function buildTemplateHtml(apiKey: ApiKey, request: TemplateRequest): string {
+  const branding = resolveBranding(apiKey.template);
+  const body = TEMPLATES[request.template](request, branding);
+
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"></head><body>${body}</body></html>`;
+}
+
+/**
+ * Render template to PNG (1200x630 unless another size is requested)
+ */
+export async function renderTemplate(
+  apiKey: ApiKey,
+  request: TemplateRequest,
+  size: ImageSize = DEFAULT_SIZE
+): Promise<Buffer> {
+  const html = buildTemplateHtml(apiKey, request);
+  return renderHtml(html, getTemplateIdentifier(request), size);
+}
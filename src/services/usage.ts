@@ -0,0 +1,242 @@
+/**
+ * Usage Accounting
+ * Per-key requests, hits, generations and bytes served, by UTC day and month
+ *
+ * Counters are written to CACHE_DIR/usage.json every minute and on shutdown,
+ * and back the optional daily/monthly quotas on public keys.
+ */
+
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { ApiKey, KeyConfig, KeyUsage, UsagePeriod, UsageReportRow } from '../types.js';
+import { QuotaExceededError } from '../types.js';
+import { writeFileAtomic } from '../utils/fs.js';
+import { logger } from '../utils/logger.js';
+import config from '../config.js';
+
+const FLUSH_INTERVAL = 60000;
+const RETAIN_DAYS = 62;
+const RETAIN_MONTHS = 24;
+
+export interface UsageData {
+  keys: Record<string, {
+    daily: Record<string, KeyUsage>;    // By "YYYY-MM-DD"
+    monthly: Record<string, KeyUsage>;  // By "YYYY-MM"
+  }>;
+}
+
+let data: UsageData = { keys: {} };
+let dirty = false;
+let flushTimer: NodeJS.Timeout | null = null;
+
+export function getUsageFile(): string {
+  return join(config.cacheDir, 'usage.json');
+}
+
+/**
+ * Read a usage file (empty if it does not exist)
+ */
+export function readUsageFile(path: string): UsageData {
+  if (!existsSync(path)) {
+    return { keys: {} };
+  }
+
+  const parsed = JSON.parse(readFileSync(path, 'utf-8')) as Partial<UsageData>;
+  return { keys: parsed.keys ?? {} };
+}
+
+/**
+ * Load persisted counters and start periodic writes
+ */
+export function initUsage(): void {
+  const usageFile = getUsageFile();
+
+  try {
+    data = readUsageFile(usageFile);
+  } catch (error) {
+    logger.warn('Failed to load usage counters, starting empty', { path: usageFile, error });
+    data = { keys: {} };
+  }
+
+  if (!flushTimer) {
+    flushTimer = setInterval(flushUsage, FLUSH_INTERVAL);
+    flushTimer.unref();
+  }
+
+  logger.info('Usage counters loaded', { keys: Object.keys(data.keys).length });
+}
+
+/**
+ * Write counters to disk if anything changed
+ */
+export function flushUsage(): void {
+  if (!dirty) return;
+
+  try {
+    mkdirSync(config.cacheDir, { recursive: true });
+    writeFileAtomic(getUsageFile(), JSON.stringify(data));
+    dirty = false;
+  } catch (error) {
+    logger.error('Failed to save usage counters', { error });
+  }
+}
+
+/**
+ * Stop periodic writes and flush (call on shutdown)
+ */
+export function closeUsage(): void {
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+  flushUsage();
+}
+
+/**
+ * Period key for a date: "YYYY-MM-DD" (daily) or "YYYY-MM" (monthly), UTC
+ */
+export function getPeriodKey(period: UsagePeriod, date: Date = new Date()): string {
+  const iso = date.toISOString();
+  return period === 'daily' ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+/**
+ * When the current period ends
+ */
+function getPeriodEnd(period: UsagePeriod, now: Date): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function emptyUsage(): KeyUsage {
+  return { requests: 0, hits: 0, generations: 0, bytesServed: 0 };
+}
+
+/**
+ * Apply a change to the key's current day and month
+ */
+function update(keyId: string, apply: (usage: KeyUsage) => void): void {
+  const now = new Date();
+  const keyUsage = data.keys[keyId] ??= { daily: {}, monthly: {} };
+
+  for (const period of ['daily', 'monthly'] as const) {
+    const periods = keyUsage[period];
+    const periodKey = getPeriodKey(period, now);
+    if (!periods[periodKey]) {
+      periods[periodKey] = emptyUsage();
+      prune(periods, period === 'daily' ? RETAIN_DAYS : RETAIN_MONTHS);
+    }
+    apply(periods[periodKey]);
+  }
+
+  dirty = true;
+}
+
+/**
+ * Keep only the newest `retain` periods (keys sort chronologically)
+ */
+function prune(periods: Record<string, KeyUsage>, retain: number): void {
+  const keys = Object.keys(periods).sort();
+  for (const key of keys.slice(0, Math.max(0, keys.length - retain))) {
+    delete periods[key];
+  }
+}
+
+/**
+ * Count a served image
+ */
+export function countRequest(keyId: string, hit: boolean, bytes: number): void {
+  update(keyId, usage => {
+    usage.requests++;
+    if (hit) usage.hits++;
+    usage.bytesServed += bytes;
+  });
+}
+
+/**
+ * Count a new generation
+ */
+export function countGeneration(keyId: string): void {
+  update(keyId, usage => {
+    usage.generations++;
+  });
+}
+
+/**
+ * Usage of a key in the current (or given) day or month
+ */
+export function getKeyUsage(keyId: string, period: UsagePeriod, periodKey: string = getPeriodKey(period)): KeyUsage {
+  return { ...(data.keys[keyId]?.[period][periodKey] ?? emptyUsage()) };
+}
+
+/**
+ * Reject the request if the key has used up a daily or monthly quota
+ * Generations only count against the quota on a cache miss
+ */
+export function checkQuota(apiKey: ApiKey, isGeneration: boolean): void {
+  if (!apiKey.quota) return;
+
+  const now = new Date();
+  for (const period of ['daily', 'monthly'] as const) {
+    const limits = apiKey.quota[period];
+    if (!limits) continue;
+
+    const usage = getKeyUsage(apiKey.keyId, period, getPeriodKey(period, now));
+    const checks = [
+      { field: 'requests', limit: limits.requests, used: usage.requests },
+      ...(isGeneration ? [{ field: 'generations', limit: limits.generations, used: usage.generations }] : [])
+    ];
+
+    for (const { field, limit, used } of checks) {
+      if (limit === undefined || used < limit) continue;
+
+      logger.warn('Quota exceeded', { keyId: apiKey.keyId, period, field, limit, used });
+      throw new QuotaExceededError(
+        `${period === 'daily' ? 'Daily' : 'Monthly'} ${field} quota exceeded`,
+        period,
+        limit,
+        used,
+        getPeriodEnd(period, now)
+      );
+    }
+  }
+}
+
+/**
+ * Usage of every key in a day or month, busiest first
+ * Includes configured public keys without usage, and usage of removed keys
+ */
+export function buildUsageReport(
+  usage: UsageData,
+  keyConfig: KeyConfig,
+  period: UsagePeriod,
+  periodKey: string
+): UsageReportRow[] {
+  const publicKeys = new Map(
+    keyConfig.keys
+      .filter(k => k.type === 'public')
+      .map(k => [(k as ApiKey).keyId, k as ApiKey])
+  );
+  const keyIds = new Set([...publicKeys.keys(), ...Object.keys(usage.keys)]);
+
+  return [...keyIds]
+    .map(keyId => {
+      const key = publicKeys.get(keyId);
+      return {
+        keyId,
+        name: key?.name ?? (keyId === 'admin' ? 'Admin keys' : null),
+        ...emptyUsage(),
+        ...usage.keys[keyId]?.[period][periodKey],
+        quota: key?.quota?.[period] ?? null
+      };
+    })
+    .sort((a, b) => b.generations - a.generations || b.requests - a.requests);
+}
+
+/**
+ * Usage report from the live counters
+ */
+export function getUsageReport(keyConfig: KeyConfig, period: UsagePeriod, periodKey: string = getPeriodKey(period)): UsageReportRow[] {
+  return buildUsageReport(data, keyConfig, period, periodKey);
+}
@@ -0,0 +1,247 @@
+/**
+ * Cache Warming
+ * Generate images for a list of URLs or a sitemap before crawlers ask for them
+ *
+ * Jobs run in the background with WARM_CONCURRENCY generations at a time
+ * (still bounded by the browser pool) and are kept in memory for polling.
+ * Generations join in-flight requests for the same image and count against
+ * the key's usage, generation rate limit and generation quota; a job waits
+ * out the rate limit and stops at the quota.
+ */
+
+import { randomUUID } from 'crypto';
+import type { ApiKey, ImageSize, WarmJob } from '../types.js';
+import { OGFrameError, QuotaExceededError, RateLimitError } from '../types.js';
+import { validateApiKey } from './auth.js';
+import { getCacheEntry, getCacheTtl, isEntryStale } from './cache.js';
+import { generateScreenshot } from './screenshot.js';
+import { generateImage, isGenerating } from './generation.js';
+import { checkQuota } from './usage.js';
+import { checkGenerationLimit } from './rateLimit.js';
+import { assertPublicDestination } from './egress.js';
+import { normalizeUrl, validateUrl } from '../utils/url.js';
+import { generateCacheKey } from '../utils/crypto.js';
+import { resolveSize, getSizeVariant } from '../utils/size.js';
+import { getSelectorVariant } from '../utils/selector.js';
+import { getResourcesVariant } from '../utils/resources.js';
+import { resolveReadiness, getReadyVariant } from '../utils/readiness.js';
+import { fetchSitemapUrls } from '../utils/sitemap.js';
+import { logger } from '../utils/logger.js';
+import config from '../config.js';
+
+const MAX_JOBS = 100;    // Finished jobs beyond this are forgotten, oldest first
+const MAX_ERRORS = 100;  // Failures listed per job
+
+const jobs = new Map<string, WarmJob>();
+
+/**
+ * Validate a warm request and start it in the background
+ * Body: { keyId, urls: [...] } or { keyId, sitemap: "https://..." }, optional size
+ */
+export function startWarmJob(input: Record<string, unknown>): WarmJob {
+  const { keyId, urls, sitemap, size: sizeName } = input;
+
+  if (typeof keyId !== 'string' || !keyId.startsWith('pk_')) {
+    throw new OGFrameError('INVALID_PARAMS', 'keyId must be a public key ID', 400);
+  }
+  if ((urls === undefined) === (sitemap === undefined)) {
+    throw new OGFrameError('INVALID_PARAMS', 'Provide either urls or sitemap', 400);
+  }
+  if (urls !== undefined && (!Array.isArray(urls) || urls.length === 0 || urls.some(u => typeof u !== 'string'))) {
+    throw new OGFrameError('INVALID_PARAMS', 'urls must be a non-empty array of URLs', 400);
+  }
+  if (sitemap !== undefined && typeof sitemap !== 'string') {
+    throw new OGFrameError('INVALID_PARAMS', 'sitemap must be a URL', 400);
+  }
+  if (sizeName !== undefined && typeof sizeName !== 'string') {
+    throw new OGFrameError('INVALID_PARAMS', 'size must be a size name', 400);
+  }
+
+  const apiKey = validateApiKey(keyId);
+  if (!apiKey) {
+    throw new OGFrameError('INVALID_KEY', 'Unknown or expired key', 400);
+  }
+
+  // Images are warmed under the key's rules: domains and sizes
+  const size = resolveSize(apiKey, { size: sizeName });
+  if (urls) {
+    if (urls.length > config.warmMaxUrls) {
+      throw new OGFrameError('INVALID_PARAMS', `Too many URLs (max ${config.warmMaxUrls})`, 400);
+    }
+    for (const url of urls as string[]) {
+      validateUrl(url, apiKey.allowedDomains, config.requireHttps);
+    }
+  } else {
+    validateUrl(sitemap as string, apiKey.allowedDomains, config.requireHttps);
+  }
+
+  const job: WarmJob = {
+    id: randomUUID(),
+    keyId,
+    status: 'pending',
+    sitemap: (sitemap as string | undefined) ?? null,
+    size: size.name,
+    total: urls ? (urls as string[]).length : 0,
+    done: 0,
+    failed: 0,
+    skipped: 0,
+    errors: [],
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null
+  };
+
+  jobs.set(job.id, job);
+  pruneJobs();
+
+  logger.info('Cache warming queued', { jobId: job.id, keyId, sitemap: job.sitemap, urls: job.total });
+  void runJob(job, apiKey, size, urls as string[] | undefined);
+
+  return { ...job };
+}
+
+/**
+ * Job progress, or null if unknown (or forgotten)
+ */
+export function getWarmJob(id: string): WarmJob | null {
+  const job = jobs.get(id);
+  return job ? { ...job, errors: [...job.errors] } : null;
+}
+
+/**
+ * All remembered jobs, newest first
+ */
+export function listWarmJobs(): WarmJob[] {
+  return [...jobs.values()].reverse().map(job => ({ ...job, errors: [] }));
+}
+
+async function runJob(job: WarmJob, apiKey: ApiKey, size: ImageSize, urls: string[] | undefined): Promise<void> {
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+
+  try {
+    const pending = urls ?? await fetchSitemapUrls(job.sitemap as string, {
+      maxUrls: config.warmMaxUrls,
+      validate: url => validateUrl(url, apiKey.allowedDomains, config.requireHttps),
+      checkDestination: url => assertPublicDestination(url, job.sitemap as string)
+    });
+    job.total = pending.length;
+
+    // The same page may appear under several URLs
+    const seen = new Set<string>();
+    const queue = [...pending];
+
+    const worker = async () => {
+      let url: string | undefined;
+      while ((url = queue.shift()) !== undefined) {
+        try {
+          await warmUrl(job, apiKey, size, url, seen);
+        } catch (error) {
+          queue.length = 0;  // Out of quota: the other workers stop too
+          throw error;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: config.warmConcurrency }, worker));
+
+    job.status = 'completed';
+  } catch (error) {
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    job.finishedAt = new Date().toISOString();
+  }
+
+  logger.info('Cache warming finished', {
+    jobId: job.id,
+    status: job.status,
+    total: job.total,
+    done: job.done,
+    failed: job.failed,
+    skipped: job.skipped,
+    ...(job.error && { error: job.error })
+  });
+}
+
+/**
+ * Generate one URL unless it is already cached (and fresh)
+ * Throws QuotaExceededError (ending the job) once the key is out of generations
+ */
+async function warmUrl(job: WarmJob, apiKey: ApiKey, size: ImageSize, url: string, seen: Set<string>): Promise<void> {
+  try {
+    validateUrl(url, apiKey.allowedDomains, config.requireHttps);
+    const normalizedUrl = normalizeUrl(url);
+    const ready = resolveReadiness(apiKey, {});
+    const cacheKey = generateCacheKey(normalizedUrl, [
+      getSizeVariant(size),
+      getSelectorVariant(undefined),
+      getResourcesVariant(apiKey.resources),
+      getReadyVariant(ready)
+    ]);
+
+    const entry = getCacheEntry(normalizedUrl, cacheKey);
+    if (seen.has(cacheKey) || (entry && !isEntryStale(entry))) {
+      job.skipped++;
+      return;
+    }
+    seen.add(cacheKey);
+
+    // Joining a request's generation costs nothing
+    if (isGenerating(cacheKey)) {
+      checkQuota(apiKey, false);
+    } else {
+      checkQuota(apiKey, true);
+      await chargeGeneration(job, apiKey);
+    }
+
+    await generateImage({
+      mode: 'screenshot',
+      url,
+      normalizedUrl,
+      cacheKey,
+      size,
+      ttl: getCacheTtl(apiKey),
+      keyId: apiKey.keyId,
+      hostname: new URL(normalizedUrl).hostname,
+      generate: () => generateScreenshot(url, { size, resources: apiKey.resources, ready })
+    });
+    job.done++;
+  } catch (error) {
+    job.failed++;
+    const message = error instanceof Error ? error.message : String(error);
+    if (job.errors.length < MAX_ERRORS) {
+      job.errors.push({ url, error: message });
+    }
+    logger.warn('Cache warming failed for URL', { jobId: job.id, url, error: message });
+
+    if (error instanceof QuotaExceededError) throw error;
+  }
+}
+
+/**
+ * Charge a generation to the key's generation rate limit, waiting for the
+ * limit to reset when it is used up, so a job runs no faster than the key
+ * may generate
+ */
+async function chargeGeneration(job: WarmJob, apiKey: ApiKey): Promise<void> {
+  for (;;) {
+    try {
+      await checkGenerationLimit(apiKey, null, 'unknown');
+      return;
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) throw error;
+      logger.debug('Cache warming waiting for the generation limit', { jobId: job.id, retryAfter: error.retryAfter });
+      await new Promise(resolve => setTimeout(resolve, error.retryAfter * 1000));
+    }
+  }
+}
+
+/**
+ * Forget the oldest finished jobs beyond MAX_JOBS
+ */
+function pruneJobs(): void {
+  for (const [id, job] of jobs) {
+    if (jobs.size <= MAX_JOBS) break;
+    if (job.finishedAt) jobs.delete(id);
+  }
+}
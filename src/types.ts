@@ -9,11 +9,92 @@ export interface ApiKey {
   name: string;
   allowedDomains: string[];
   rateLimit: {
-    requests: number;     // Total requests per minute
-    generations: number;  // New screenshots per minute
+    requests: number;     // Total requests per window
+    generations: number;  // New screenshots per window
+    window?: number;      // Seconds (default: RATE_LIMIT_WINDOW)
+    burst?: number;       // Token bucket capacity (default: the limit itself)
   };
+  template?: TemplateSettings;  // Enables template mode for this key
+  sizes?: string[];             // Allowed sizes: preset names or "WIDTHxHEIGHT" (default: ["og"])
+  selectors?: string[];         // Allowed CSS selectors for element screenshots
+  readySelectors?: string[];    // Allowed readySelector values, besides selectors
+  formats?: ImageFormat[];      // Allowed output formats (default: all)
+  quality?: number;             // Quality for lossy formats, 1-100 (default: 80)
+  cacheTtl?: number;            // Seconds before entries refresh (default: CACHE_TTL, 0 = forever)
+  quota?: KeyQuota;             // Daily/monthly caps, rejected with QUOTA_EXCEEDED
+  resources?: ResourcePolicy;   // Requests blocked while capturing (default: BLOCK_RESOURCES)
+  ready?: ReadySettings;        // When pages count as ready (default: network idle + 1500ms)
+  signingSecret?: string;       // HMAC secret for signed URLs (sig=)
+  signature?: SignatureMode;    // Default with a secret: "required"
   createdAt: string;
   expiresAt?: string | null;
+  revokedAt?: string | null;    // Rejected with KEY_REVOKED
+}
+
+export type SignatureMode = 'required' | 'optional';
+
+export type ReadyStrategy = 'delay' | 'selector' | 'signal' | 'assets';
+
+export interface ReadySettings {
+  strategy: ReadyStrategy;
+  selector?: string;  // "selector": element to wait for
+  delay?: number;     // "delay": milliseconds after network idle (capped at READY_MAX_DELAY)
+  timeout?: number;   // Other strategies: milliseconds before capturing anyway (capped at READY_TIMEOUT)
+}
+
+/**
+ * How a capture decided the page was ready
+ */
+export interface ReadyResult {
+  strategy: ReadyStrategy;
+  duration: number;    // Milliseconds from navigation until ready
+  timedOut?: boolean;  // Captured anyway after READY_TIMEOUT
+}
+
+export type ResourceCategory = 'trackers' | 'fonts' | 'images' | 'media';
+
+export interface ResourcePolicy {
+  block?: ResourceCategory[];  // Default: BLOCK_RESOURCES
+  allowHosts?: string[];       // Never blocked by category or tracker list ("*.example.com" patterns)
+  denyHosts?: string[];        // Always blocked
+}
+
+export type UsagePeriod = 'daily' | 'monthly';
+
+export interface QuotaLimits {
+  requests?: number;
+  generations?: number;
+}
+
+export interface KeyQuota {
+  daily?: QuotaLimits;    // Resets at 00:00 UTC
+  monthly?: QuotaLimits;  // Resets on the 1st, 00:00 UTC
+}
+
+/**
+ * Usage counters for one key in one day or month
+ */
+export interface KeyUsage {
+  requests: number;     // Images served
+  hits: number;         // Served from cache
+  generations: number;
+  bytesServed: number;
+}
+
+export interface UsageReportRow extends KeyUsage {
+  keyId: string;
+  name: string | null;  // null for keys no longer in keys.json
+  quota: QuotaLimits | null;
+}
+
+export type TemplateName = 'default' | 'minimal' | 'split';
+export type TemplateFont = 'sans' | 'serif' | 'mono' | 'rounded';
+
+export interface TemplateSettings {
+  brandColor?: string;         // Hex color, e.g. "#2563eb"
+  logoUrl?: string;            // HTTPS URL to logo image
+  font?: TemplateFont;
+  templates?: TemplateName[];  // Allowed templates (default: all)
 }
 
 export interface AdminKey {
@@ -21,6 +102,7 @@ export interface AdminKey {
   type: 'admin';
   name: string;
   createdAt: string;
+  revokedAt?: string | null;
 }
 
 export interface KeyConfig {
@@ -32,22 +114,182 @@ export interface ImageRequest {
   url: string;  // URL to screenshot
 }
 
+export type SizePreset = 'og' | 'twitter' | 'linkedin' | 'square';
+
+export interface ImageSize {
+  name: string;  // Preset name or "WIDTHxHEIGHT"
+  width: number;
+  height: number;
+}
+
+export interface ScreenshotOptions {
+  size?: ImageSize;
+  selector?: string;  // Capture only this element, fitted to size
+  resources?: ResourcePolicy;
+  ready?: ReadySettings;  // Default: DEFAULT_READY
+}
+
+export interface ScreenshotResult {
+  png: Buffer;
+  ready: ReadyResult;
+}
+
+export interface TemplateRequest {
+  template: TemplateName;
+  title: string;
+  description?: string;
+}
+
+export type ImageFormat = 'png' | 'webp' | 'avif' | 'jpeg';
+
+export interface OutputFormat {
+  format: ImageFormat;
+  quality: number;  // Ignored for PNG
+}
+
+export interface CacheVariant {
+  filePath: string;
+  size: number;
+  quality: number;
+  createdAt: string;
+}
+
 export interface CacheEntry {
   url: string;
   normalizedUrl: string;
   cacheKey: string;
-  filePath: string;
+  filePath: string;  // Storage location of the PNG master (file path or object key)
   size: number;
+  width: number;
+  height: number;
+  selector?: string;
+  ready?: ReadyResult;     // Readiness strategy and wait (screenshots)
+  keyId?: string;          // Key that generated it ("admin" for admin keys)
+  variants?: Record<string, CacheVariant>;  // Encoded from the PNG master, by "webp-q80" (getVariantName)
+  pinned?: boolean;        // Never evicted
+  ttl?: number;            // Seconds, absent = never expires
+  expiresAt?: string;      // Served as STALE (and refreshed) after this
   createdAt: string;
   lastAccessed: string;
   accessCount: number;
   generationTime: number;  // milliseconds
 }
 
+export type CacheStatus = 'HIT' | 'MISS' | 'COALESCED' | 'STALE';
+
 export interface CacheMetadata {
   [cacheKey: string]: CacheEntry;
 }
 
+/**
+ * Indexed lookup of cache entries (all fields optional, combined with AND)
+ */
+export interface CacheQuery {
+  url?: string;      // Normalized URL
+  domain?: string;   // Hostname, includes subdomains
+  prefix?: string;   // Normalized URL prefix, e.g. "https://example.com/blog/"
+  keyId?: string;    // Generated by this key
+  since?: Date;      // Created at or after
+  until?: Date;      // Created before
+  limit?: number;
+}
+
+/**
+ * Cache usage counts for a period
+ */
+export interface UsageCounts {
+  hits: number;
+  misses: number;
+  generations: number;
+}
+
+/**
+ * One hour of the usage time series
+ */
+export interface StatsBucket extends UsageCounts {
+  start: string;     // ISO, start of the hour
+  hitRate: number;
+}
+
+/**
+ * Time series filter (all fields optional, combined with AND)
+ */
+export interface TimeseriesQuery {
+  keyId?: string;
+  domain?: string;   // Hostname, includes subdomains
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Storage backend for cached images and their metadata
+ * File system is the default, S3-compatible object storage is optional
+ */
+export interface CacheBackend {
+  readonly name: 'file' | 's3';
+  init(): Promise<void>;
+  loadMetadata(): Promise<CacheMetadata>;
+  getEntry(cacheKey: string): Promise<CacheEntry | null>;
+  saveEntry(entry: CacheEntry): Promise<void>;
+  touchEntry(entry: CacheEntry): Promise<void>;  // Access stats only, may be batched
+  deleteEntry(cacheKey: string): Promise<void>;
+  readImage(location: string): Promise<Buffer | null>;
+  writeImage(cacheKey: string, imageBuffer: Buffer, format: ImageFormat): Promise<string>;
+  deleteImage(location: string): Promise<void>;
+  flush(): Promise<void>;
+}
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  limit: number;          // Requests per window
+  windowSeconds: number;
+  burst?: number;         // Token bucket capacity (default: limit)
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;      // Unix timestamp (ms) when the full quota is available again
+  retryAfter: number;   // Seconds until the next request is allowed (0 if allowed)
+}
+
+/**
+ * Storage for rate limit counters
+ * In-memory is the default, Redis shares limits across replicas
+ */
+export interface RateLimitStore {
+  readonly name: 'memory' | 'redis';
+  consume(key: string, rule: RateLimitRule, cost?: number): Promise<RateLimitResult>;  // cost 0 = peek
+  reset(pattern: string): Promise<number>;
+  isHealthy(): boolean;  // False while falling back to local limiting
+  close(): Promise<void>;
+}
+
+export type WarmJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * Cache warming job (POST /admin/warm)
+ */
+export interface WarmJob {
+  id: string;
+  keyId: string;
+  status: WarmJobStatus;
+  sitemap: string | null;   // Set when URLs come from a sitemap
+  size: string;
+  total: number;
+  done: number;             // Generated
+  failed: number;
+  skipped: number;          // Already cached
+  errors: Array<{ url: string; error: string }>;  // First 100 failures
+  error?: string;           // Why the whole job failed (e.g. unreadable sitemap)
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
 export interface HealthResponse {
   status: 'healthy' | 'degraded' | 'unhealthy';
   version: string;
@@ -55,15 +297,31 @@ export interface HealthResponse {
   timestamp: string;
   cache: {
     enabled: boolean;
+    backend: string;
     entries: number;
     size: string;
     hitRate: number;
   };
+  rateLimit: {
+    store: string;
+    healthy: boolean;
+  };
 }
 
 export interface CacheStatsResponse {
   totalEntries: number;
   totalSize: string;
+  pinnedEntries: number;
+  limits: {
+    maxSize: string;
+    maxEntries: number;
+    policy: string;
+  };
+  evictions: {
+    total: number;
+    freed: string;
+    lastEvictedAt: string | null;
+  };
   oldestEntry: string | null;
   newestEntry: string | null;
   hitRate: {
@@ -110,3 +368,24 @@ export class RateLimitError extends OGFrameError {
     });
   }
 }
+
+export class QuotaExceededError extends OGFrameError {
+  constructor(
+    message: string,
+    public period: UsagePeriod,
+    public limit: number,
+    public used: number,
+    public resetAt: Date
+  ) {
+    super('QUOTA_EXCEEDED', message, 429, {
+      period,
+      limit,
+      used,
+      resetsAt: resetAt.toISOString()
+    });
+  }
+
+  get retryAfter(): number {
+    return Math.max(1, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000));
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Template Branding
+ * Per-key template settings that end up in the rendered card, checked
+ * both when the key file is loaded and again when rendering
+ */
+
+import type { TemplateFont, TemplateName } from '../types.js';
+
+export const TEMPLATE_NAMES: TemplateName[] = ['default', 'minimal', 'split'];
+
+export const TEMPLATE_FONTS: TemplateFont[] = ['sans', 'serif', 'mono', 'rounded'];
+
+/**
+ * #rgb, #rgba, #rrggbb or #rrggbbaa
+ */
+export function isValidBrandColor(value: string): boolean {
+  return /^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(value);
+}
+
+/**
+ * Absolute http(s) URL, normalized; null for anything else
+ */
+export function parseLogoUrl(value: string): string | null {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? parsed.toString() : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Byte Utilities
+ * Parsing and formatting of human-readable sizes
+ */
+
+const UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4
+};
+
+/**
+ * Parse size string to bytes
+ *
+ * Examples:
+ * - "10GB" → 10737418240
+ * - "500 MB" → 524288000
+ * - "1.5gb" → 1610612736
+ * - "2048" → 2048
+ */
+export function parseBytes(value: string): number | null {
+  const match = value.trim().toUpperCase().match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB|TB)?$/);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]);
+  const unit = match[2] || 'B';
+  return Math.floor(amount * UNITS[unit]);
+}
+
+/**
+ * Format bytes to human-readable string
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+
+  return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
+}
@@ -3,14 +3,35 @@
  * Hashing, cache key generation, and timing-safe comparisons
  */
 
-import { createHash, timingSafeEqual } from 'crypto';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
 
 /**
  * Generate cache key from normalized URL
+ * Variants (e.g. "1200x675", "sel:.hero") distinguish non-default renderings
+ * of the same URL. Without variants the key is the plain URL hash.
  */
-export function generateCacheKey(normalizedUrl: string): string {
+export function generateCacheKey(
+  normalizedUrl: string,
+  variants: Array<string | undefined> = []
+): string {
+  const parts = variants.filter((v): v is string => Boolean(v));
+
   return createHash('sha256')
-    .update(normalizedUrl)
+    .update(parts.length > 0 ? `${normalizedUrl}|${parts.join('|')}` : normalizedUrl)
+    .digest('hex');
+}
+
+/**
+ * Generate cache key for template mode
+ * Covers every parameter that affects the rendered card, including branding
+ */
+export function generateTemplateCacheKey(parts: Record<string, unknown>): string {
+  const canonical = JSON.stringify(
+    Object.keys(parts).sort().map(name => [name, parts[name] ?? null])
+  );
+
+  return createHash('sha256')
+    .update(`template:${canonical}`)
     .digest('hex');
 }
 
@@ -52,10 +73,5 @@ export function timingSafeCompare(a: string, b: string): boolean {
  */
 export function generateApiKey(type: 'public' | 'admin'): string {
   const prefix = type === 'public' ? 'pk' : 'ak';
-  const randomBytes = createHash('sha256')
-    .update(Date.now().toString() + Math.random().toString())
-    .digest('base64url')
-    .slice(0, 32);
-
-  return `${prefix}_live_${randomBytes}`;
+  return `${prefix}_live_${randomBytes(32).toString('base64url')}`;
 }
@@ -0,0 +1,37 @@
+/**
+ * Duration Parsing
+ * "90s", "30m", "24h" or "7d" to seconds, and points in time given as a
+ * duration before now or an ISO 8601 date
+ */
+
+const UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+const ISO_DATE = /^\d{4}(-\d{2}(-\d{2}([T ].*)?)?)?$/;
+
+/**
+ * Seconds for a duration, or null if it is not one
+ * The unit is required: a bare "2027" is more likely a year than seconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+)([smhd])$/.exec(value.trim());
+  if (!match) return null;
+  return parseInt(match[1], 10) * UNITS[match[2]];
+}
+
+/**
+ * Date for an ISO 8601 date ("2026", "2026-01-31", "2026-01-31T12:00Z"), or null
+ */
+export function parseIsoDate(value: string): Date | null {
+  if (!ISO_DATE.test(value.trim())) return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Point in time for a duration with a unit before now ("30d", "12h") or an
+ * ISO 8601 date, or null. Bare numbers are dates (years), never seconds
+ */
+export function parseAgeOrDate(value: string, now: number = Date.now()): Date | null {
+  const seconds = parseDuration(value);
+  return seconds !== null ? new Date(now - seconds * 1000) : parseIsoDate(value);
+}
@@ -0,0 +1,142 @@
+/**
+ * Format Utilities
+ * Output format selection and Accept-header negotiation
+ */
+
+import type { ApiKey, ImageFormat, OutputFormat } from '../types.js';
+import { OGFrameError } from '../types.js';
+
+export const IMAGE_FORMATS: ImageFormat[] = ['png', 'webp', 'avif', 'jpeg'];
+
+export const FORMAT_CONTENT_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpeg: 'image/jpeg'
+};
+
+export const DEFAULT_QUALITY = 80;
+
+export const PNG_OUTPUT: OutputFormat = { format: 'png', quality: 100 };
+
+/**
+ * Stored variant identity: keys with different qualities get separate variants
+ */
+export function getVariantName(output: OutputFormat): string {
+  return `${output.format}-q${output.quality}`;
+}
+
+// Modern formats are only served to clients that name them explicitly
+const NEGOTIATED_FORMATS: ImageFormat[] = ['avif', 'webp'];
+
+interface AcceptRange {
+  type: string;
+  q: number;
+}
+
+/**
+ * Parse Accept header into media ranges with q-values
+ */
+function parseAccept(accept: string): AcceptRange[] {
+  return accept
+    .split(',')
+    .map(part => {
+      const [type, ...params] = part.trim().toLowerCase().split(';');
+      const qParam = params.map(p => p.trim()).find(p => p.startsWith('q='));
+      const q = qParam ? parseFloat(qParam.slice(2)) : 1;
+      return { type: type.trim(), q: isNaN(q) ? 0 : q };
+    })
+    .filter(range => range.type.length > 0);
+}
+
+/**
+ * Quality value the client assigns to a format
+ * Explicit only: wildcards never select AVIF/WebP
+ */
+function explicitQ(ranges: AcceptRange[], format: ImageFormat): number | null {
+  const range = ranges.find(r => r.type === FORMAT_CONTENT_TYPES[format]);
+  return range ? range.q : null;
+}
+
+function acceptsPng(ranges: AcceptRange[]): boolean {
+  const exact = explicitQ(ranges, 'png');
+  if (exact !== null) return exact > 0;
+  return ranges.some(r => (r.type === 'image/*' || r.type === '*/*') && r.q > 0);
+}
+
+/**
+ * Negotiate format from Accept header
+ *
+ * Examples:
+ * - "image/avif,image/webp,image/*" → avif
+ * - "image/webp,*\/*;q=0.8" → webp
+ * - "*\/*" or missing header → png (crawlers)
+ * - "image/jpeg" → jpeg
+ */
+export function negotiateFormat(accept: string | undefined, allowed: ImageFormat[]): ImageFormat {
+  if (!accept) return 'png';
+
+  const ranges = parseAccept(accept);
+
+  let best: ImageFormat | null = null;
+  let bestQ = 0;
+  for (const format of NEGOTIATED_FORMATS) {
+    const q = explicitQ(ranges, format);
+    if (q !== null && q > bestQ && allowed.includes(format)) {
+      best = format;
+      bestQ = q;
+    }
+  }
+  if (best) return best;
+
+  if (acceptsPng(ranges)) return 'png';
+
+  const jpegQ = explicitQ(ranges, 'jpeg');
+  if (jpegQ !== null && jpegQ > 0 && allowed.includes('jpeg')) return 'jpeg';
+
+  // Nothing matched - PNG works everywhere
+  return 'png';
+}
+
+/**
+ * Resolve output format from format= parameter or Accept header
+ */
+export function resolveOutputFormat(
+  apiKey: ApiKey,
+  requested: string | undefined,
+  accept: string | undefined
+): { output: OutputFormat; negotiated: boolean } {
+  // PNG is the master format and is always allowed
+  const allowed: ImageFormat[] = apiKey.formats
+    ? ['png', ...apiKey.formats.filter(f => f !== 'png')]
+    : IMAGE_FORMATS;
+
+  const quality = Math.min(Math.max(Math.round(apiKey.quality ?? DEFAULT_QUALITY), 1), 100);
+
+  if (requested) {
+    const format = (requested === 'jpg' ? 'jpeg' : requested) as ImageFormat;
+
+    if (!IMAGE_FORMATS.includes(format)) {
+      throw new OGFrameError(
+        'INVALID_FORMAT',
+        `Unknown format "${requested}"`,
+        400,
+        { formats: IMAGE_FORMATS }
+      );
+    }
+
+    if (!allowed.includes(format)) {
+      throw new OGFrameError(
+        'FORMAT_NOT_ALLOWED',
+        `Format ${format} not allowed for this key`,
+        403,
+        { allowedFormats: allowed }
+      );
+    }
+
+    return { output: { format, quality }, negotiated: false };
+  }
+
+  const format = negotiateFormat(accept, allowed);
+  return { output: { format, quality }, negotiated: true };
+}
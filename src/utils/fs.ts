@@ -0,0 +1,24 @@
+/**
+ * File System Utilities
+ * Crash-safe file replacement
+ */
+
+import { writeFileSync, renameSync, openSync, fsyncSync, closeSync } from 'fs';
+
+/**
+ * Write to a temp file, fsync, then rename over the target
+ * Readers see either the old or the new file, never a partial one
+ */
+export function writeFileAtomic(path: string, data: string): void {
+  const tmpFile = `${path}.tmp`;
+  writeFileSync(tmpFile, data, 'utf-8');
+
+  const fd = openSync(tmpFile, 'r');
+  try {
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+
+  renameSync(tmpFile, path);
+}
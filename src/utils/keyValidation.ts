@@ -0,0 +1,244 @@
+/**
+ * Key Config Validation
+ * Full structural check of keys.json contents before they are used
+ */
+
+import type { KeyConfig } from '../types.js';
+import { OGFrameError } from '../types.js';
+import { parseDimensions, SIZE_PRESETS } from './size.js';
+import { IMAGE_FORMATS } from './format.js';
+import { isValidDomainPattern } from './url.js';
+import { RESOURCE_CATEGORIES } from './resources.js';
+import { READY_STRATEGIES } from './readiness.js';
+import { isValidBrandColor, parseLogoUrl, TEMPLATE_FONTS, TEMPLATE_NAMES } from './branding.js';
+
+/**
+ * Validate a complete key config (file contents or a pending change)
+ * Throws the first problem found
+ */
+export function validateKeyConfig(data: unknown): KeyConfig {
+  const [problem] = lintKeyConfig(data);
+  if (problem) throw problem;
+  return data as unknown as KeyConfig;
+}
+
+/**
+ * All problems in a key config, at most one per key (for `cli.ts validate`)
+ */
+export function lintKeyConfig(data: unknown): OGFrameError[] {
+  if (!isObject(data) || !Array.isArray(data.keys)) {
+    return [invalid('keys', 'missing "keys" array')];
+  }
+
+  const problems: OGFrameError[] = [];
+  const seen = new Set<string>();
+
+  data.keys.forEach((key: unknown, index: number) => {
+    const path = `keys[${index}]`;
+    try {
+      if (!isObject(key)) throw invalid(path, 'must be an object');
+
+      if (key.type === 'admin') {
+        validateAdminKey(key, path);
+        if (seen.has(key.keyHash as string)) throw invalid(`${path}.keyHash`, 'duplicate admin key');
+        seen.add(key.keyHash as string);
+        return;
+      }
+      if (key.type !== 'public') throw invalid(`${path}.type`, 'must be "public" or "admin"');
+
+      validatePublicKey(key, path);
+      if (seen.has(key.keyId as string)) throw invalid(`${path}.keyId`, 'duplicate key ID');
+      seen.add(key.keyId as string);
+    } catch (error) {
+      if (!(error instanceof OGFrameError)) throw error;
+      problems.push(error);
+    }
+  });
+
+  return problems;
+}
+
+function validatePublicKey(key: Record<string, unknown>, path: string): void {
+  if (typeof key.keyId !== 'string' || !key.keyId.startsWith('pk_')) {
+    throw invalid(`${path}.keyId`, 'must start with "pk_"');
+  }
+  if (typeof key.name !== 'string' || !key.name.trim()) {
+    throw invalid(`${path}.name`, 'required');
+  }
+  if (!isStringArray(key.allowedDomains) || key.allowedDomains.length === 0 || key.allowedDomains.some(d => !d)) {
+    throw invalid(`${path}.allowedDomains`, 'must be a non-empty array of domains');
+  }
+  const malformed = key.allowedDomains.find(d => !isValidDomainPattern(d));
+  if (malformed !== undefined) {
+    throw invalid(
+      `${path}.allowedDomains`,
+      `"${malformed}" is not a domain pattern (use "example.com", "*.example.com" or "localhost:*")`
+    );
+  }
+
+  const rateLimit = key.rateLimit;
+  if (!isObject(rateLimit)) throw invalid(`${path}.rateLimit`, 'required');
+  for (const field of ['requests', 'generations'] as const) {
+    if (!isPositiveInt(rateLimit[field])) throw invalid(`${path}.rateLimit.${field}`, 'must be a positive integer');
+  }
+  for (const field of ['window', 'burst'] as const) {
+    if (rateLimit[field] !== undefined && !isPositiveInt(rateLimit[field])) {
+      throw invalid(`${path}.rateLimit.${field}`, 'must be a positive integer');
+    }
+  }
+
+  if (key.sizes !== undefined) {
+    if (!isStringArray(key.sizes) || key.sizes.some(s => !(s in SIZE_PRESETS) && !parseDimensions(s))) {
+      throw invalid(`${path}.sizes`, 'must be preset names or "WIDTHxHEIGHT"');
+    }
+  }
+  if (key.selectors !== undefined && !isStringArray(key.selectors)) {
+    throw invalid(`${path}.selectors`, 'must be an array of CSS selectors');
+  }
+  if (key.readySelectors !== undefined && !isStringArray(key.readySelectors)) {
+    throw invalid(`${path}.readySelectors`, 'must be an array of CSS selectors');
+  }
+  if (key.formats !== undefined) {
+    if (!isStringArray(key.formats) || key.formats.some(f => !(IMAGE_FORMATS as string[]).includes(f))) {
+      throw invalid(`${path}.formats`, `must be a subset of ${IMAGE_FORMATS.join(', ')}`);
+    }
+  }
+  if (key.quality !== undefined && (!isPositiveInt(key.quality) || (key.quality as number) > 100)) {
+    throw invalid(`${path}.quality`, 'must be 1-100');
+  }
+  if (key.cacheTtl !== undefined && !(Number.isInteger(key.cacheTtl) && (key.cacheTtl as number) >= 0)) {
+    throw invalid(`${path}.cacheTtl`, 'must be a non-negative integer');
+  }
+
+  if (key.quota !== undefined) {
+    const quota = key.quota;
+    if (!isObject(quota)) throw invalid(`${path}.quota`, 'must be an object');
+    for (const period of Object.keys(quota)) {
+      const limits = quota[period];
+      if (period !== 'daily' && period !== 'monthly') {
+        throw invalid(`${path}.quota.${period}`, 'period must be "daily" or "monthly"');
+      }
+      if (!isObject(limits)) throw invalid(`${path}.quota.${period}`, 'must be an object');
+      for (const field of Object.keys(limits)) {
+        if ((field !== 'requests' && field !== 'generations') || !isPositiveInt(limits[field])) {
+          throw invalid(`${path}.quota.${period}.${field}`, 'must be requests or generations, a positive integer');
+        }
+      }
+    }
+  }
+
+  if (key.resources !== undefined) {
+    const resources = key.resources;
+    if (!isObject(resources)) throw invalid(`${path}.resources`, 'must be an object');
+    for (const field of Object.keys(resources)) {
+      if (field !== 'block' && field !== 'allowHosts' && field !== 'denyHosts') {
+        throw invalid(`${path}.resources.${field}`, 'must be block, allowHosts or denyHosts');
+      }
+    }
+    if (resources.block !== undefined) {
+      if (!isStringArray(resources.block) || resources.block.some(c => !(RESOURCE_CATEGORIES as string[]).includes(c))) {
+        throw invalid(`${path}.resources.block`, `must be a subset of ${RESOURCE_CATEGORIES.join(', ')}`);
+      }
+    }
+    for (const field of ['allowHosts', 'denyHosts'] as const) {
+      const hosts = resources[field];
+      if (hosts !== undefined && (!isStringArray(hosts) || hosts.some(h => !isValidDomainPattern(h)))) {
+        throw invalid(`${path}.resources.${field}`, 'must be an array of domain patterns');
+      }
+    }
+  }
+
+  if (key.ready !== undefined) {
+    const ready = key.ready;
+    if (!isObject(ready)) throw invalid(`${path}.ready`, 'must be an object');
+    if (typeof ready.strategy !== 'string' || !(READY_STRATEGIES as string[]).includes(ready.strategy)) {
+      throw invalid(`${path}.ready.strategy`, `must be one of ${READY_STRATEGIES.join(', ')}`);
+    }
+    if (ready.selector !== undefined && (typeof ready.selector !== 'string' || !ready.selector)) {
+      throw invalid(`${path}.ready.selector`, 'must be a CSS selector');
+    }
+    if (ready.strategy === 'selector' && ready.selector === undefined) {
+      throw invalid(`${path}.ready.selector`, 'required for the "selector" strategy');
+    }
+    if (ready.delay !== undefined && !(Number.isInteger(ready.delay) && (ready.delay as number) >= 0)) {
+      throw invalid(`${path}.ready.delay`, 'must be a non-negative integer (ms)');
+    }
+    if (ready.timeout !== undefined && !(Number.isInteger(ready.timeout) && (ready.timeout as number) > 0)) {
+      throw invalid(`${path}.ready.timeout`, 'must be a positive integer (ms)');
+    }
+  }
+
+  if (key.template !== undefined) {
+    const template = key.template;
+    if (!isObject(template)) throw invalid(`${path}.template`, 'must be an object');
+    for (const field of Object.keys(template)) {
+      if (field !== 'templates' && field !== 'brandColor' && field !== 'logoUrl' && field !== 'font') {
+        throw invalid(`${path}.template.${field}`, 'must be templates, brandColor, logoUrl or font');
+      }
+    }
+    if (template.templates !== undefined) {
+      if (!isStringArray(template.templates) || template.templates.some(t => !(TEMPLATE_NAMES as string[]).includes(t))) {
+        throw invalid(`${path}.template.templates`, `must be a subset of ${TEMPLATE_NAMES.join(', ')}`);
+      }
+    }
+    if (template.brandColor !== undefined && (typeof template.brandColor !== 'string' || !isValidBrandColor(template.brandColor))) {
+      throw invalid(`${path}.template.brandColor`, 'must be a hex color like #2563eb');
+    }
+    if (template.logoUrl !== undefined && (typeof template.logoUrl !== 'string' || !parseLogoUrl(template.logoUrl))) {
+      throw invalid(`${path}.template.logoUrl`, 'must be an http(s) URL');
+    }
+    if (template.font !== undefined && (typeof template.font !== 'string' || !(TEMPLATE_FONTS as string[]).includes(template.font))) {
+      throw invalid(`${path}.template.font`, `must be one of ${TEMPLATE_FONTS.join(', ')}`);
+    }
+  }
+
+  if (key.signingSecret !== undefined && (typeof key.signingSecret !== 'string' || key.signingSecret.length < 16)) {
+    throw invalid(`${path}.signingSecret`, 'must be at least 16 characters');
+  }
+  if (key.signature !== undefined && key.signature !== 'required' && key.signature !== 'optional') {
+    throw invalid(`${path}.signature`, 'must be "required" or "optional"');
+  }
+
+  validateDate(key, 'createdAt', path, true);
+  validateDate(key, 'expiresAt', path, false);
+  validateDate(key, 'revokedAt', path, false);
+}
+
+function validateAdminKey(key: Record<string, unknown>, path: string): void {
+  // Not checked as hex: the example file ships a placeholder that simply never matches
+  if (typeof key.keyHash !== 'string' || !key.keyHash) {
+    throw invalid(`${path}.keyHash`, 'required');
+  }
+  if (typeof key.name !== 'string' || !key.name.trim()) {
+    throw invalid(`${path}.name`, 'required');
+  }
+  validateDate(key, 'createdAt', path, true);
+  validateDate(key, 'revokedAt', path, false);
+}
+
+function validateDate(key: Record<string, unknown>, field: string, path: string, required: boolean): void {
+  const value = key[field];
+  if (value === undefined || value === null) {
+    if (required) throw invalid(`${path}.${field}`, 'required');
+    return;
+  }
+  if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+    throw invalid(`${path}.${field}`, 'must be an ISO 8601 date');
+  }
+}
+
+function invalid(field: string, message: string): OGFrameError {
+  return new OGFrameError('INVALID_PARAMS', `Invalid ${field}: ${message}`, 400, { field });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isPositiveInt(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0;
+}
@@ -19,6 +19,10 @@ class Logger {
     this.level = level;
   }
 
+  setLevel(level: LogLevel) {
+    this.level = level;
+  }
+
   private shouldLog(level: LogLevel): boolean {
     return LOG_LEVELS[level] >= LOG_LEVELS[this.level];
   }
@@ -0,0 +1,157 @@
+/**
+ * Network Destinations
+ * Resolved-address checks that keep outgoing requests off private networks (SSRF)
+ *
+ * Checked requests connect to the address that was checked (pinnedRequest),
+ * so a host cannot answer the check with a public address and the
+ * connection with a private one (DNS rebinding).
+ */
+
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { lookup } from 'dns/promises';
+import { request as httpRequest, type IncomingMessage, type OutgoingHttpHeaders } from 'http';
+import { request as httpsRequest } from 'https';
+import { OGFrameError } from '../types.js';
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:', 'ws:', 'wss:'];
+
+// Non-public ranges (IPv4-mapped IPv6 addresses are matched against the IPv4 ranges)
+const BLOCKED_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],       // "This" network
+  ['10.0.0.0', 8, 'ipv4'],      // Private
+  ['100.64.0.0', 10, 'ipv4'],   // Carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'],     // Loopback
+  ['169.254.0.0', 16, 'ipv4'],  // Link-local (cloud metadata endpoints)
+  ['172.16.0.0', 12, 'ipv4'],   // Private
+  ['192.0.0.0', 24, 'ipv4'],    // IETF protocol assignments
+  ['192.0.2.0', 24, 'ipv4'],    // Documentation (TEST-NET-1)
+  ['192.168.0.0', 16, 'ipv4'],  // Private
+  ['198.18.0.0', 15, 'ipv4'],   // Benchmarking
+  ['198.51.100.0', 24, 'ipv4'], // Documentation (TEST-NET-2)
+  ['203.0.113.0', 24, 'ipv4'],  // Documentation (TEST-NET-3)
+  ['224.0.0.0', 4, 'ipv4'],     // Multicast
+  ['240.0.0.0', 4, 'ipv4'],     // Reserved and broadcast
+  ['::', 128, 'ipv6'],          // Unspecified
+  ['::1', 128, 'ipv6'],         // Loopback
+  ['64:ff9b::', 96, 'ipv6'],    // NAT64 (embeds any IPv4 address, private ones included)
+  ['64:ff9b:1::', 48, 'ipv6'],  // Local-use NAT64
+  ['2001::', 32, 'ipv6'],       // Teredo (embeds an IPv4 address, private ones included)
+  ['2001:db8::', 32, 'ipv6'],   // Documentation
+  ['2002::', 16, 'ipv6'],       // 6to4 (embeds an IPv4 address, private ones included)
+  ['fc00::', 7, 'ipv6'],        // Unique local
+  ['fe80::', 10, 'ipv6'],       // Link-local
+  ['fec0::', 10, 'ipv6'],       // Site-local (deprecated, still routed privately)
+  ['ff00::', 8, 'ipv6']         // Multicast
+];
+
+const blockList = new BlockList();
+for (const [network, prefix, type] of BLOCKED_RANGES) {
+  blockList.addSubnet(network, prefix, type);
+}
+
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+/**
+ * Check whether an IP address is private, loopback, link-local or otherwise non-public
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return blockList.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * All addresses a hostname resolves to (IP literals are returned as-is)
+ */
+export async function resolveHost(hostname: string): Promise<string[]> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');  // URL hostnames keep IPv6 brackets
+  if (isIP(host)) return [host];
+
+  const results = await lookup(host, { all: true, verbatim: true });
+  return results.map(result => result.address);
+}
+
+/**
+ * Reject a URL whose host resolves to a non-public address
+ * Every address must be public, so a host cannot mix a public and a private record
+ * Returns the address to connect to
+ */
+export async function checkDestination(url: string, resolve: HostResolver = resolveHost): Promise<string> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    throw new OGFrameError('INVALID_URL', `Malformed URL: ${url}`, 400);
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+    throw new OGFrameError(
+      'BLOCKED_DESTINATION',
+      `Protocol ${parsed.protocol} is not allowed`,
+      403,
+      { url, hostname: parsed.hostname }
+    );
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolve(parsed.hostname);
+  } catch (error) {
+    throw new OGFrameError('INVALID_URL', `Could not resolve host ${parsed.hostname}`, 400, { url });
+  }
+
+  if (addresses.length === 0) {
+    throw new OGFrameError('INVALID_URL', `Could not resolve host ${parsed.hostname}`, 400, { url });
+  }
+
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new OGFrameError(
+      'BLOCKED_DESTINATION',
+      `${parsed.hostname} resolves to a non-public address`,
+      403,
+      { url, hostname: parsed.hostname, address: blocked }
+    );
+  }
+
+  return addresses[0];
+}
+
+export interface PinnedRequestOptions {
+  method?: string;
+  headers?: OutgoingHttpHeaders;
+  body?: Buffer | null;
+  address?: string | null;  // Connect here instead of resolving the hostname (null: resolve as usual)
+  timeout: number;          // Milliseconds for the whole exchange, body included
+}
+
+/**
+ * HTTP(S) request to a pre-resolved address, without following redirects
+ * TLS still verifies the certificate against the URL's hostname
+ */
+export function pinnedRequest(url: string, options: PinnedRequestOptions): Promise<IncomingMessage> {
+  const parsed = new URL(url);
+  const address = options.address;
+
+  const pinnedLookup: LookupFunction = (_hostname, lookupOptions, callback) => {
+    const family = isIP(address as string);
+    if (lookupOptions.all) {
+      callback(null, [{ address: address as string, family }]);
+    } else {
+      callback(null, address as string, family);
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const send = parsed.protocol === 'https:' ? httpsRequest : httpRequest;
+    const req = send(parsed, {
+      method: options.method ?? 'GET',
+      headers: options.headers,
+      signal: AbortSignal.timeout(options.timeout),
+      ...(address && { lookup: pinnedLookup })
+    }, resolve);
+
+    req.on('error', reject);
+    req.end(options.body ?? undefined);
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Process Utilities
+ * Memory measurement for browser processes (Linux /proc)
+ */
+
+import { access, readFile, readdir } from 'fs/promises';
+
+/**
+ * Resident memory of the largest process in a process tree, in bytes
+ * Chromium runs renderers/GPU/utility as child processes that share most
+ * of their pages, so summing their RSS counts shared memory many times.
+ * A leaking page shows up as one renderer growing on its own.
+ *
+ * Only the tree itself is read (via /proc/PID/task/TID/children), not
+ * every process on the host. Returns null where /proc is unavailable
+ * (macOS, Windows).
+ */
+export async function getLargestProcessRss(rootPid: number): Promise<number | null> {
+  try {
+    await access('/proc/self/status');
+  } catch {
+    return null;
+  }
+
+  let largest = 0;
+  const stack = [rootPid];
+  while (stack.length > 0) {
+    const pid = stack.pop()!;
+    largest = Math.max(largest, await readRss(pid));
+    stack.push(...await readChildren(pid));
+  }
+
+  return largest;
+}
+
+/**
+ * Direct children of a process, from each of its threads
+ */
+async function readChildren(pid: number): Promise<number[]> {
+  let tids: string[];
+  try {
+    tids = await readdir(`/proc/${pid}/task`);
+  } catch {
+    return []; // Process exited while scanning
+  }
+
+  const pids: number[] = [];
+  for (const tid of tids) {
+    try {
+      const list = await readFile(`/proc/${pid}/task/${tid}/children`, 'utf-8');
+      pids.push(...list.split(' ').filter(Boolean).map(child => parseInt(child, 10)));
+    } catch {
+      // Thread exited while scanning
+    }
+  }
+  return pids;
+}
+
+async function readRss(pid: number): Promise<number> {
+  try {
+    const status = await readFile(`/proc/${pid}/status`, 'utf-8');
+    const match = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    return match ? parseInt(match[1], 10) * 1024 : 0;
+  } catch {
+    return 0;
+  }
+}
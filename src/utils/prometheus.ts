@@ -0,0 +1,159 @@
+/**
+ * Prometheus Metrics
+ * Minimal counters, gauges and histograms in the text exposition format
+ *
+ * Metrics that mirror state kept elsewhere (cache counters, browser pool)
+ * pass a collect function that is read at scrape time.
+ */
+
+export type Labels = Record<string, string>;
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+interface Metric {
+  render(): string;
+}
+
+/**
+ * Series key for a label set (labels sorted by name)
+ */
+function seriesKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(name => `${name}=${labels[name]}`).join(',');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const names = Object.keys(labels);
+  if (names.length === 0) return '';
+  return `{${names.map(name => `${name}="${escapeLabelValue(labels[name])}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+function header(name: string, help: string, type: string): string {
+  return `# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}\n# TYPE ${name} ${type}\n`;
+}
+
+/**
+ * Counter or gauge: one value per label set
+ */
+abstract class ValueMetric implements Metric {
+  protected values = new Map<string, Sample>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private type: 'counter' | 'gauge',
+    private collect?: () => Sample[]
+  ) {}
+
+  render(): string {
+    const samples = this.collect ? this.collect() : [...this.values.values()];
+    let text = header(this.name, this.help, this.type);
+    for (const sample of samples) {
+      text += `${this.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}\n`;
+    }
+    return text;
+  }
+}
+
+export class Counter extends ValueMetric {
+  constructor(name: string, help: string, collect?: () => Sample[]) {
+    super(name, help, 'counter', collect);
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = seriesKey(labels);
+    const sample = this.values.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.values.set(key, { labels: { ...labels }, value });
+    }
+  }
+}
+
+export class Gauge extends ValueMetric {
+  constructor(name: string, help: string, collect?: () => Sample[]) {
+    super(name, help, 'gauge', collect);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(seriesKey(labels), { labels: { ...labels }, value });
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];  // Per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, HistogramSeries>();
+  private buckets: number[];
+
+  constructor(readonly name: string, readonly help: string, buckets: number[]) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket !== -1) {
+      series.counts[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string {
+    let text = header(this.name, this.help, 'histogram');
+
+    for (const series of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.counts[i];
+        const labels = formatLabels({ ...series.labels, le: formatValue(bound) });
+        text += `${this.name}_bucket${labels} ${cumulative}\n`;
+      });
+      text += `${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}\n`;
+      text += `${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}\n`;
+      text += `${this.name}_count${formatLabels(series.labels)} ${series.count}\n`;
+    }
+
+    return text;
+  }
+}
+
+export class Registry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics.map(metric => metric.render()).join('');
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
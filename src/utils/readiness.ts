@@ -0,0 +1,146 @@
+/**
+ * Page Readiness
+ * When a page counts as ready to capture, per key or per request
+ *
+ * Strategies:
+ * - delay:    network idle, then a fixed delay (default, 1500ms)
+ * - selector: an element is visible
+ * - signal:   the page sets window.__OGFRAME_READY__ = true or adds <meta name="ogframe:ready">
+ * - assets:   web fonts and the images in view have loaded
+ */
+
+import type { ApiKey, ReadySettings, ReadyStrategy } from '../types.js';
+import { OGFrameError } from '../types.js';
+import config from '../config.js';
+
+export const READY_STRATEGIES: ReadyStrategy[] = ['delay', 'selector', 'signal', 'assets'];
+
+export const DEFAULT_READY: ReadySettings = { strategy: 'delay', delay: 1500 };
+
+const MAX_SELECTOR_LENGTH = 200;
+
+/**
+ * Readiness for a capture: the key's setting, overridden by request parameters
+ * Overrides can only shorten the key's wait (admin keys excepted), and
+ * readySelector must be one of the key's selectors or readySelectors
+ *
+ * Examples:
+ * - ready=signal → wait for the page's ready flag, at most as long as the key would
+ * - ready=selector&readySelector=.chart → wait for .chart to be visible
+ * - readyDelay=500 → key's strategy, 500ms delay
+ */
+export function resolveReadiness(
+  apiKey: ApiKey,
+  params: { ready?: string; readySelector?: string; readyDelay?: string }
+): ReadySettings {
+  const base = apiKey.ready ?? DEFAULT_READY;
+  const settings: ReadySettings = { ...base };
+  const isAdmin = apiKey.type === 'admin';
+  const maxWait = getReadyWait(base);
+
+  if (params.ready) {
+    if (!(READY_STRATEGIES as string[]).includes(params.ready)) {
+      throw new OGFrameError(
+        'INVALID_PARAMS',
+        `Invalid ready: use ${READY_STRATEGIES.join(', ')}`,
+        400
+      );
+    }
+
+    const strategy = params.ready as ReadyStrategy;
+    if (strategy !== base.strategy && !isAdmin) {
+      // "delay" waits for the network to go idle, which no other strategy does
+      if (strategy === 'delay') {
+        throw new OGFrameError(
+          'INVALID_PARAMS',
+          `ready=delay would wait longer than this key's "${base.strategy}" strategy`,
+          400
+        );
+      }
+      settings.timeout = maxWait;
+    }
+    settings.strategy = strategy;
+  }
+
+  if (params.readySelector) {
+    if (params.readySelector.length > MAX_SELECTOR_LENGTH) {
+      throw new OGFrameError(
+        'INVALID_PARAMS',
+        `readySelector too long (max ${MAX_SELECTOR_LENGTH} characters)`,
+        400
+      );
+    }
+
+    const allowed = [...(apiKey.selectors ?? []), ...(apiKey.readySelectors ?? [])];
+    if (!isAdmin && !allowed.includes(params.readySelector)) {
+      throw new OGFrameError(
+        'SELECTOR_NOT_ALLOWED',
+        `readySelector "${params.readySelector}" not allowed for this key`,
+        403,
+        { allowedSelectors: allowed }
+      );
+    }
+    settings.selector = params.readySelector;
+  }
+
+  if (params.readyDelay) {
+    const delay = Number(params.readyDelay);
+    if (!Number.isInteger(delay) || delay < 0) {
+      throw new OGFrameError('INVALID_PARAMS', 'readyDelay must be a non-negative integer (ms)', 400);
+    }
+    if (delay > maxWait && !isAdmin) {
+      throw new OGFrameError(
+        'INVALID_PARAMS',
+        `readyDelay can only shorten this key's wait (max ${maxWait}ms)`,
+        400
+      );
+    }
+    settings.delay = delay;
+  }
+
+  if (settings.strategy === 'selector' && !settings.selector) {
+    throw new OGFrameError('INVALID_PARAMS', 'ready=selector requires readySelector', 400);
+  }
+
+  return settings;
+}
+
+/**
+ * Delay for the "delay" strategy, capped at READY_MAX_DELAY
+ */
+export function getReadyDelay(settings: ReadySettings): number {
+  return Math.min(settings.delay ?? DEFAULT_READY.delay as number, config.readyMaxDelay);
+}
+
+/**
+ * How long selector, signal and assets waits last before capturing anyway
+ */
+export function getReadyTimeout(settings: ReadySettings): number {
+  return Math.min(settings.timeout ?? config.readyTimeout, config.readyTimeout);
+}
+
+/**
+ * Cache key variant for readiness settings
+ * Captures made with other settings can differ (an early capture may be half
+ * rendered), so they are cached apart. The default has no variant so existing
+ * cache entries stay valid
+ */
+export function getReadyVariant(settings: ReadySettings): string | undefined {
+  switch (settings.strategy) {
+    case 'delay': {
+      const delay = getReadyDelay(settings);
+      return delay === getReadyDelay(DEFAULT_READY) ? undefined : `ready:delay=${delay}`;
+    }
+    case 'selector':
+      return `ready:selector=${settings.selector};timeout=${getReadyTimeout(settings)}`;
+    default:
+      return `ready:${settings.strategy};timeout=${getReadyTimeout(settings)}`;
+  }
+}
+
+/**
+ * Longest a strategy waits once the page has loaded
+ */
+function getReadyWait(settings: ReadySettings): number {
+  return settings.strategy === 'delay' ? getReadyDelay(settings) : getReadyTimeout(settings);
+}
@@ -0,0 +1,298 @@
+/**
+ * Redis Client
+ * Minimal RESP2 client (commands, pipelining, EVALSHA) over net/tls
+ */
+
+import { connect as connectTcp, type Socket } from 'net';
+import { connect as connectTls } from 'tls';
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export interface RedisOptions {
+  url: string;               // redis://[user:password@]host[:port][/db], rediss:// for TLS
+  connectTimeout?: number;   // ms
+  commandTimeout?: number;   // ms
+  reconnectDelay?: number;   // ms to fail fast after a failed connect
+}
+
+/**
+ * Error reply from the server (e.g. NOSCRIPT, WRONGTYPE)
+ */
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+
+  get code(): string {
+    return this.message.split(' ')[0];
+  }
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+const CRLF = '\r\n';
+
+export class RedisClient {
+  private url: URL;
+  private socket: Socket | null = null;
+  private connecting: Promise<Socket> | null = null;
+  private pending: PendingCommand[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+  private lastConnectFailure = 0;
+  private closed = false;
+
+  constructor(private options: RedisOptions) {
+    this.url = new URL(options.url);
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported Redis URL protocol: ${this.url.protocol}`);
+    }
+  }
+
+  get connected(): boolean {
+    return this.socket !== null && !this.socket.destroyed;
+  }
+
+  /**
+   * Send a command and wait for its reply
+   * Server error replies reject with RedisError, connection problems with Error
+   */
+  async command(args: Array<string | number>): Promise<RedisReply> {
+    const socket = await this.getSocket();
+    return this.send(socket, args);
+  }
+
+  /**
+   * Run a Lua script by SHA, loading it on NOSCRIPT
+   */
+  async evalScript(
+    script: string,
+    sha: string,
+    keys: string[],
+    args: Array<string | number>
+  ): Promise<RedisReply> {
+    const params = [keys.length, ...keys, ...args];
+    try {
+      return await this.command(['EVALSHA', sha, ...params]);
+    } catch (error) {
+      if (error instanceof RedisError && error.code === 'NOSCRIPT') {
+        return this.command(['EVAL', script, ...params]);
+      }
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (!this.socket) return;
+
+    const socket = this.socket;
+    try {
+      await this.send(socket, ['QUIT']);
+    } catch {
+      // Closing anyway
+    }
+    socket.destroy();
+  }
+
+  private send(socket: Socket, args: Array<string | number>): Promise<RedisReply> {
+    return new Promise<RedisReply>((resolve, reject) => {
+      const timeout = this.options.commandTimeout ?? 1000;
+      const timer = setTimeout(() => {
+        // Replies are matched by order, so a lost reply poisons the connection
+        socket.destroy(new Error(`Redis command timed out after ${timeout}ms`));
+      }, timeout);
+
+      this.pending.push({
+        resolve: reply => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      });
+
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private async getSocket(): Promise<Socket> {
+    if (this.closed) throw new Error('Redis client closed');
+    if (this.socket && !this.socket.destroyed) return this.socket;
+    if (this.connecting) return this.connecting;
+
+    const reconnectDelay = this.options.reconnectDelay ?? 5000;
+    if (Date.now() - this.lastConnectFailure < reconnectDelay) {
+      throw new Error('Redis unavailable (waiting to reconnect)');
+    }
+
+    this.connecting = this.connect()
+      .catch(error => {
+        this.lastConnectFailure = Date.now();
+        throw error;
+      })
+      .finally(() => {
+        this.connecting = null;
+      });
+    return this.connecting;
+  }
+
+  private async connect(): Promise<Socket> {
+    const host = this.url.hostname || 'localhost';
+    const port = parseInt(this.url.port || '6379', 10);
+    const timeout = this.options.connectTimeout ?? 2000;
+
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const onConnect = () => {
+        socket.setTimeout(0);
+        socket.off('error', onError);
+        resolve(socket);
+      };
+      const onError = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      const socket: Socket = this.url.protocol === 'rediss:'
+        ? connectTls({ host, port, servername: host }, onConnect)
+        : connectTcp({ host, port }, onConnect);
+
+      socket.setTimeout(timeout, () => onError(new Error(`Redis connect timed out after ${timeout}ms`)));
+      socket.once('error', onError);
+    });
+
+    socket.setNoDelay(true);
+    this.buffer = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      try {
+        this.onData(chunk);
+      } catch (error) {
+        socket.destroy(error as Error);
+      }
+    });
+    let failure: Error | null = null;
+    socket.on('error', error => {
+      failure = error; // Surfaced via 'close' (e.g. a command timeout)
+    });
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      const error = failure ?? new Error('Redis connection closed');
+      for (const command of this.pending.splice(0)) {
+        command.reject(error);
+      }
+    });
+
+    try {
+      // Handshake before the socket is shared
+      const password = decodeURIComponent(this.url.password);
+      const username = decodeURIComponent(this.url.username);
+      if (password) {
+        await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+      }
+
+      const db = this.url.pathname.slice(1);
+      if (db) {
+        await this.send(socket, ['SELECT', db]);
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length > 0) {
+      const parsed = parseReply(this.buffer, 0);
+      if (!parsed) return; // Incomplete, wait for more data
+
+      this.buffer = this.buffer.subarray(parsed.offset);
+      const command = this.pending.shift();
+      if (!command) continue;
+
+      if (parsed.value instanceof RedisError) {
+        command.reject(parsed.value);
+      } else {
+        command.resolve(parsed.value);
+      }
+    }
+  }
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: Array<string | number>): Buffer {
+  let out = `*${args.length}${CRLF}`;
+  for (const arg of args) {
+    const value = String(arg);
+    out += `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+  }
+  return Buffer.from(out, 'utf-8');
+}
+
+/**
+ * Parse one RESP2 reply starting at offset, or null if incomplete
+ */
+export function parseReply(
+  buffer: Buffer,
+  offset: number
+): { value: RedisReply | RedisError; offset: number } | null {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+
+    case '-':
+      return { value: new RedisError(line), offset: next };
+
+    case ':':
+      return { value: parseInt(line, 10), offset: next };
+
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return {
+        value: buffer.toString('utf-8', next, next + length),
+        offset: next + length + 2
+      };
+    }
+
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count === -1) return { value: null, offset: next };
+
+      const items: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        // Errors inside arrays (e.g. EXEC) are returned as their message
+        items.push(item.value instanceof RedisError ? item.value.message : item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+
+    default:
+      throw new Error(`Invalid Redis reply type: ${type}`);
+  }
+}
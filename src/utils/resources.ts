@@ -0,0 +1,137 @@
+/**
+ * Resource Blocking
+ * Decide which page requests to skip while capturing (trackers, ads, heavy media)
+ */
+
+import type { ResourceCategory, ResourcePolicy } from '../types.js';
+import { matchDomain } from './url.js';
+import config from '../config.js';
+
+export const RESOURCE_CATEGORIES: ResourceCategory[] = ['trackers', 'fonts', 'images', 'media'];
+
+// Analytics, tag managers, session recorders and ad networks (subdomains included)
+const TRACKER_HOSTS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'googleadservices.com',
+  'googlesyndication.com',
+  'doubleclick.net',
+  'adservice.google.com',
+  'connect.facebook.net',
+  'analytics.tiktok.com',
+  'ads-twitter.com',
+  'analytics.twitter.com',
+  'px.ads.linkedin.com',
+  'snap.licdn.com',
+  'bat.bing.com',
+  'clarity.ms',
+  'hotjar.com',
+  'hotjar.io',
+  'fullstory.com',
+  'mouseflow.com',
+  'crazyegg.com',
+  'heapanalytics.com',
+  'segment.com',
+  'segment.io',
+  'mixpanel.com',
+  'amplitude.com',
+  'plausible.io',
+  'nr-data.net',
+  'scorecardresearch.com',
+  'quantserve.com',
+  'amazon-adsystem.com',
+  'adnxs.com',
+  'criteo.com',
+  'criteo.net',
+  'taboola.com',
+  'outbrain.com',
+  'pubmatic.com',
+  'rubiconproject.com',
+  'casalemedia.com',
+  'moatads.com'
+];
+
+// Parsed BLOCK_RESOURCES
+let defaultBlock: ResourceCategory[] | null = null;
+
+// Playwright resource types per category
+const CATEGORY_TYPES: Partial<Record<ResourceCategory, string[]>> = {
+  fonts: ['font'],
+  images: ['image'],
+  media: ['media']
+};
+
+/**
+ * Parse a BLOCK_RESOURCES value: comma-separated categories, or "none"
+ */
+export function parseBlockResources(value: string): ResourceCategory[] {
+  const categories = value.split(',').map(category => category.trim()).filter(Boolean);
+  if (categories.length === 1 && categories[0] === 'none') {
+    return [];
+  }
+
+  const unknown = categories.filter(c => !(RESOURCE_CATEGORIES as string[]).includes(c));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid BLOCK_RESOURCES: ${unknown.join(', ')} (use ${RESOURCE_CATEGORIES.join(', ')} or none)`);
+  }
+  return categories as ResourceCategory[];
+}
+
+/**
+ * Validate BLOCK_RESOURCES at startup, so a typo stops the server
+ * instead of silently blocking less than intended
+ */
+export function initResources(): void {
+  defaultBlock = parseBlockResources(config.blockResources);
+}
+
+/**
+ * Categories blocked for keys without resources.block (BLOCK_RESOURCES)
+ */
+export function getDefaultBlock(): ResourceCategory[] {
+  return defaultBlock ??= parseBlockResources(config.blockResources);
+}
+
+/**
+ * Check whether a hostname belongs to a known tracker or ad network
+ */
+export function isTrackerHost(hostname: string): boolean {
+  return TRACKER_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+/**
+ * Why a request should be blocked ("deny", "trackers", "fonts", ...), or null to load it
+ * denyHosts always wins; allowHosts exempts a host from the tracker list and categories
+ */
+export function getBlockReason(
+  policy: ResourcePolicy,
+  block: ResourceCategory[],
+  hostname: string,
+  resourceType: string
+): string | null {
+  if (policy.denyHosts?.some(pattern => matchDomain(hostname, pattern))) return 'deny';
+  if (policy.allowHosts?.some(pattern => matchDomain(hostname, pattern))) return null;
+
+  if (block.includes('trackers') && isTrackerHost(hostname)) return 'trackers';
+
+  const category = block.find(c => CATEGORY_TYPES[c]?.includes(resourceType));
+  return category ?? null;
+}
+
+/**
+ * Cache key variant for a resource policy
+ * The server default (BLOCK_RESOURCES, no host lists) has no variant so
+ * existing cache entries stay valid
+ */
+export function getResourcesVariant(policy: ResourcePolicy | undefined): string | undefined {
+  const canonical = (values: string[]) => [...new Set(values.map(value => value.toLowerCase()))].sort().join(',');
+
+  const block = canonical(policy?.block ?? getDefaultBlock());
+  const allow = canonical(policy?.allowHosts ?? []);
+  const deny = canonical(policy?.denyHosts ?? []);
+
+  if (block === canonical(getDefaultBlock()) && !allow && !deny) {
+    return undefined;
+  }
+  return `res:block=${block};allow=${allow};deny=${deny}`;
+}
@@ -0,0 +1,237 @@
+/**
+ * S3 Client
+ * Minimal S3-compatible client (AWS Signature V4) for R2, B2, MinIO, AWS S3
+ */
+
+import { createHash, createHmac } from 'crypto';
+
+export interface S3Options {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKey: string;
+  secretKey: string;
+  forcePathStyle: boolean;
+  timeout?: number;  // Milliseconds per request, body included (default 10000)
+}
+
+export interface S3Object {
+  key: string;
+  size: number;
+  lastModified: string;
+}
+
+export class S3Error extends Error {
+  constructor(
+    public statusCode: number,
+    public s3Code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'S3Error';
+  }
+}
+
+/**
+ * RFC 3986 encoding as required by SigV4
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c =>
+    `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function xmlTag(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXmlEntities(match[1]) : null;
+}
+
+const DEFAULT_TIMEOUT = 10000;
+
+export class S3Client {
+  private endpoint: URL;
+
+  constructor(private options: S3Options) {
+    this.endpoint = new URL(options.endpoint);
+  }
+
+  /**
+   * Fetch an object, returns null if it doesn't exist
+   */
+  async getObject(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    await this.assertOk(response);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async putObject(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, {}, body, {
+      'content-type': contentType
+    });
+    await this.assertOk(response);
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    // S3 returns 204 for missing keys too, some implementations return 404
+    if (response.status === 404) return;
+    await this.assertOk(response);
+  }
+
+  async headBucket(): Promise<void> {
+    const response = await this.request('HEAD', '');
+    await this.assertOk(response);
+  }
+
+  /**
+   * List all objects under a prefix (follows continuation tokens)
+   */
+  async listObjects(prefix: string): Promise<S3Object[]> {
+    const objects: S3Object[] = [];
+    let continuationToken: string | null = null;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const response = await this.request('GET', '', query);
+      await this.assertOk(response);
+      const xml = await response.text();
+
+      for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const key = xmlTag(match[1], 'Key');
+        if (!key) continue;
+        objects.push({
+          key,
+          size: parseInt(xmlTag(match[1], 'Size') || '0', 10),
+          lastModified: xmlTag(match[1], 'LastModified') || ''
+        });
+      }
+
+      continuationToken = xmlTag(xml, 'IsTruncated') === 'true'
+        ? xmlTag(xml, 'NextContinuationToken')
+        : null;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  private async assertOk(response: Response): Promise<void> {
+    if (response.ok) return;
+
+    const body = await response.text().catch(() => '');
+    throw new S3Error(
+      response.status,
+      xmlTag(body, 'Code') || 'UnknownError',
+      xmlTag(body, 'Message') || `S3 request failed with status ${response.status}`
+    );
+  }
+
+  /**
+   * Sign and send a request
+   */
+  private async request(
+    method: string,
+    key: string,
+    query: Record<string, string> = {},
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const { bucket, region, accessKey, secretKey, forcePathStyle } = this.options;
+
+    const host = forcePathStyle ? this.endpoint.host : `${bucket}.${this.endpoint.host}`;
+    const basePath = this.endpoint.pathname.replace(/\/$/, '');
+    const segments = forcePathStyle ? [bucket, ...key.split('/')] : key.split('/');
+    const path = `${basePath}/${segments.map(encodeRfc3986).join('/')}`;
+
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const canonicalHeaders = Object.keys(headers)
+      .sort()
+      .map(name => `${name}:${headers[name].trim()}\n`)
+      .join('');
+
+    const canonicalRequest = [
+      method,
+      path,
+      canonicalQuery,
+      canonicalHeaders,
+      signedHeaders,
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest)
+    ].join('\n');
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${secretKey}`, dateStamp), region), 's3'),
+      'aws4_request'
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    headers.authorization =
+      `AWS4-HMAC-SHA256 Credential=${accessKey}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+    // Node's fetch sets host itself
+    const fetchHeaders = { ...headers };
+    delete fetchHeaders.host;
+    const url = `${this.endpoint.protocol}//${host}${path}${canonicalQuery ? `?${canonicalQuery}` : ''}`;
+
+    const timeout = this.options.timeout ?? DEFAULT_TIMEOUT;
+    try {
+      return await fetch(url, {
+        method,
+        headers: fetchHeaders,
+        body,
+        signal: AbortSignal.timeout(timeout)
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new S3Error(504, 'RequestTimeout', `S3 ${method} timed out after ${timeout}ms`);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Selector Utilities
+ * Per-key whitelisting of CSS selectors for element screenshots
+ */
+
+import type { ApiKey } from '../types.js';
+import { OGFrameError } from '../types.js';
+
+const MAX_SELECTOR_LENGTH = 200;
+
+/**
+ * Validate requested selector against the key's whitelist
+ * Only exact matches are accepted - selectors are never composed from input
+ */
+export function validateSelector(apiKey: ApiKey, selector: string): string {
+  if (selector.length > MAX_SELECTOR_LENGTH) {
+    throw new OGFrameError(
+      'INVALID_PARAMS',
+      `Selector too long (max ${MAX_SELECTOR_LENGTH} characters)`,
+      400
+    );
+  }
+
+  const allowed = apiKey.selectors || [];
+  if (apiKey.type !== 'admin' && !allowed.includes(selector)) {
+    throw new OGFrameError(
+      'SELECTOR_NOT_ALLOWED',
+      `Selector "${selector}" not allowed for this key`,
+      403,
+      { allowedSelectors: allowed }
+    );
+  }
+
+  return selector;
+}
+
+/**
+ * Cache key variant for a selector
+ */
+export function getSelectorVariant(selector: string | undefined): string | undefined {
+  return selector ? `sel:${selector}` : undefined;
+}
@@ -0,0 +1,77 @@
+/**
+ * URL Signing
+ * HMAC-SHA256 signatures over image request parameters
+ *
+ * Self-contained (node:crypto only) so it can be copied into a build
+ * script to sign image URLs ahead of time.
+ *
+ * The signature covers every query parameter except `sig` itself,
+ * including `key`, `url` and the optional `exp` (Unix seconds).
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+
+export const SIGNATURE_PARAM = 'sig';
+export const EXPIRY_PARAM = 'exp';
+
+export interface SignOptions {
+  expiresIn?: number;  // Seconds from now
+  expiresAt?: Date;
+}
+
+/**
+ * Canonical form: params sorted by name then value, RFC 3986 encoded
+ */
+export function canonicalizeParams(params: Iterable<[string, string]>): string {
+  return [...params]
+    .filter(([name]) => name !== SIGNATURE_PARAM)
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : av > bv ? 1 : 0) : a < b ? -1 : 1))
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .join('&');
+}
+
+/**
+ * Signature for a set of params (base64url HMAC-SHA256)
+ */
+export function signParams(params: Iterable<[string, string]>, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(canonicalizeParams(params))
+    .digest('base64url');
+}
+
+/**
+ * Build a signed /api/image URL
+ *
+ * Example:
+ *   createSignedUrl('https://og.example.com/api/image',
+ *     { key: 'pk_live_...', url: 'https://example.com/blog/post' },
+ *     process.env.OGFRAME_SIGNING_SECRET, { expiresIn: 86400 * 30 })
+ */
+export function createSignedUrl(
+  endpoint: string,
+  params: Record<string, string | number>,
+  secret: string,
+  options: SignOptions = {}
+): string {
+  const url = new URL(endpoint);
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, String(value));
+  }
+
+  const expiresAt = options.expiresAt
+    ?? (options.expiresIn !== undefined ? new Date(Date.now() + options.expiresIn * 1000) : undefined);
+  if (expiresAt) {
+    url.searchParams.set(EXPIRY_PARAM, Math.floor(expiresAt.getTime() / 1000).toString());
+  }
+
+  url.searchParams.delete(SIGNATURE_PARAM);
+  url.searchParams.set(SIGNATURE_PARAM, signParams(url.searchParams.entries(), secret));
+  return url.toString();
+}
+
+/**
+ * Generate a random signing secret
+ */
+export function generateSigningSecret(): string {
+  return randomBytes(32).toString('base64url');
+}
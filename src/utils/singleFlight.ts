@@ -0,0 +1,105 @@
+/**
+ * Single-Flight
+ * Coalesces concurrent calls for the same key into one execution
+ */
+
+/**
+ * A caller's place in a flight
+ * The leader must start() or release() it; followers wait() for its result
+ */
+export interface FlightClaim<T> {
+  readonly leader: boolean;
+
+  /**
+   * Run fn and share its result with the followers (leader only)
+   */
+  start(fn: () => Promise<T>): Promise<T>;
+
+  /**
+   * Give up without running, e.g. when the leader is turned away (leader only)
+   * Followers' wait() resolves to null
+   */
+  release(): void;
+
+  /**
+   * The leader's result, or null if it released the claim
+   */
+  wait(): Promise<T | null>;
+}
+
+export class SingleFlight<T> {
+  private inflight = new Map<string, Promise<T | null>>();
+
+  /**
+   * Check whether a call for key is currently running (or claimed)
+   */
+  has(key: string): boolean {
+    return this.inflight.has(key);
+  }
+
+  /**
+   * Claim key, or join the claim already made
+   * Claiming is synchronous, so a leader can await admission checks before
+   * running fn while concurrent callers already queue behind it
+   */
+  claim(key: string): FlightClaim<T> {
+    const existing = this.inflight.get(key);
+    if (existing) {
+      return {
+        leader: false,
+        start: () => { throw new Error('Only the leader can start a flight'); },
+        release: () => {},
+        wait: () => existing
+      };
+    }
+
+    let settle!: (result: Promise<T | null>) => void;
+    const promise = new Promise<T | null>(resolve => { settle = resolve; });
+    promise.catch(() => {});  // Failures reach the leader through start()
+    this.inflight.set(key, promise);
+
+    const done = () => {
+      if (this.inflight.get(key) === promise) {
+        this.inflight.delete(key);
+      }
+    };
+
+    return {
+      leader: true,
+      start: (fn) => {
+        const result = new Promise<T>(resolve => resolve(fn()));
+        settle(result);
+        result.then(done, done);
+        return result;
+      },
+      release: () => {
+        settle(Promise.resolve(null));
+        done();
+      },
+      wait: () => promise
+    };
+  }
+
+  /**
+   * Run fn for key, or join the call already in flight
+   * `shared` is true when the result came from another caller's execution
+   */
+  async run(key: string, fn: () => Promise<T>): Promise<{ value: T; shared: boolean }> {
+    for (;;) {
+      const claim = this.claim(key);
+      if (claim.leader) {
+        return { value: await claim.start(fn), shared: false };
+      }
+
+      const value = await claim.wait();
+      if (value !== null) {
+        return { value, shared: true };
+      }
+      // The leader gave up before running: claim it again
+    }
+  }
+
+  get size(): number {
+    return this.inflight.size;
+  }
+}
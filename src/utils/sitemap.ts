@@ -0,0 +1,168 @@
+/**
+ * Sitemap Parsing
+ * Page URLs from sitemap.xml and sitemap index files (plain or gzipped)
+ */
+
+import { gunzipSync } from 'zlib';
+import type { IncomingMessage } from 'http';
+import { OGFrameError } from '../types.js';
+import { pinnedRequest } from './network.js';
+
+const FETCH_TIMEOUT = 15000;
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;  // Sitemap protocol limit (uncompressed)
+const MAX_REDIRECTS = 5;
+
+export interface SitemapFetchOptions {
+  maxUrls: number;
+  validate: (url: string) => void;                     // Before every request, redirects included
+  // Before every request, redirects included; returns the address to connect to
+  checkDestination?: (url: string) => Promise<string | null>;
+}
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex';
+  locations: string[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'"
+};
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => XML_ENTITIES[name])
+    .replace(/&#(x?)([0-9a-f]+);/gi, (_, hex: string, code: string) =>
+      String.fromCodePoint(parseInt(code, hex ? 16 : 10)));
+}
+
+/**
+ * Extract <loc> entries from a urlset or sitemapindex document
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const isIndex = /<(?:\w+:)?sitemapindex[\s>]/.test(xml);
+  if (!isIndex && !/<(?:\w+:)?urlset[\s>]/.test(xml)) {
+    throw new OGFrameError('INVALID_SITEMAP', 'Not a sitemap: expected <urlset> or <sitemapindex>', 400);
+  }
+
+  const locations: string[] = [];
+  for (const match of xml.matchAll(/<(?:\w+:)?loc>([\s\S]*?)<\/(?:\w+:)?loc>/g)) {
+    const location = decodeXml(match[1]).trim();
+    if (location) locations.push(location);
+  }
+
+  return { type: isIndex ? 'sitemapindex' : 'urlset', locations };
+}
+
+/**
+ * Download a sitemap, decompressing .xml.gz files
+ * Redirects are followed one at a time so each hop can be validated (the
+ * key's domains) and checked (public address), and each request connects
+ * to the address its check returned
+ */
+async function downloadSitemap(url: string, options: SitemapFetchOptions): Promise<string> {
+  let response: IncomingMessage;
+  let location = url;
+
+  for (let redirects = 0; ; redirects++) {
+    options.validate(location);
+    const address = options.checkDestination ? await options.checkDestination(location) : null;
+
+    try {
+      response = await pinnedRequest(location, {
+        headers: { Accept: 'application/xml, text/xml, */*' },
+        address,
+        timeout: FETCH_TIMEOUT
+      });
+    } catch (error) {
+      throw new OGFrameError('INVALID_SITEMAP', `Failed to fetch sitemap ${url}: ${error instanceof Error ? error.message : String(error)}`, 400);
+    }
+
+    const status = response.statusCode ?? 0;
+    const next = response.headers.location;
+    if (status < 300 || status >= 400 || !next) break;
+
+    response.destroy();
+    if (redirects === MAX_REDIRECTS) {
+      throw new OGFrameError('INVALID_SITEMAP', `Failed to fetch sitemap ${url}: too many redirects`, 400);
+    }
+    location = new URL(next, location).toString();
+  }
+
+  const status = response.statusCode ?? 0;
+  if (status < 200 || status >= 300) {
+    response.destroy();
+    throw new OGFrameError('INVALID_SITEMAP', `Failed to fetch sitemap ${url}: HTTP ${status}`, 400);
+  }
+
+  if (Number(response.headers['content-length']) > MAX_SITEMAP_BYTES) {
+    response.destroy();
+    throw tooLarge(url);
+  }
+
+  let body = await readBody(response, url);
+  if (body[0] === 0x1f && body[1] === 0x8b) {
+    try {
+      body = gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES });
+    } catch (error) {
+      if (error instanceof RangeError) throw tooLarge(url);
+      throw new OGFrameError('INVALID_SITEMAP', `Sitemap ${url} is not valid gzip`, 400);
+    }
+  }
+
+  return body.toString('utf-8');
+}
+
+/**
+ * Read a response body, stopping as soon as it passes MAX_SITEMAP_BYTES
+ */
+async function readBody(response: IncomingMessage, url: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  try {
+    for await (const chunk of response) {
+      total += chunk.length;
+      if (total > MAX_SITEMAP_BYTES) {
+        response.destroy();
+        throw tooLarge(url);
+      }
+      chunks.push(chunk);
+    }
+  } catch (error) {
+    if (error instanceof OGFrameError) throw error;
+    throw new OGFrameError('INVALID_SITEMAP', `Failed to fetch sitemap ${url}: ${error instanceof Error ? error.message : String(error)}`, 400);
+  }
+
+  return Buffer.concat(chunks, total);
+}
+
+function tooLarge(url: string): OGFrameError {
+  return new OGFrameError('INVALID_SITEMAP', `Sitemap ${url} is larger than 50MB`, 400);
+}
+
+/**
+ * Page URLs from a sitemap or sitemap index (one level of child sitemaps)
+ * `validate` is called for the sitemap, every child sitemap and every
+ * redirect before fetching, so only sitemaps on allowed domains are downloaded
+ */
+export async function fetchSitemapUrls(url: string, options: SitemapFetchOptions): Promise<string[]> {
+  const root = parseSitemap(await downloadSitemap(url, options));
+
+  if (root.type === 'urlset') {
+    return root.locations.slice(0, options.maxUrls);
+  }
+
+  const urls: string[] = [];
+  for (const childUrl of root.locations) {
+    if (urls.length >= options.maxUrls) break;
+
+    const child = parseSitemap(await downloadSitemap(childUrl, options));
+    if (child.type !== 'urlset') {
+      throw new OGFrameError('INVALID_SITEMAP', `Nested sitemap index ${childUrl} is not supported`, 400);
+    }
+    urls.push(...child.locations.slice(0, options.maxUrls - urls.length));
+  }
+
+  return urls;
+}
@@ -0,0 +1,146 @@
+/**
+ * Size Utilities
+ * Viewport presets and per-key size whitelisting
+ */
+
+import type { ApiKey, ImageSize, SizePreset } from '../types.js';
+import { OGFrameError } from '../types.js';
+import config from '../config.js';
+
+const MIN_DIMENSION = 100;
+const MAX_DIMENSION = 2400;
+
+/**
+ * Named presets
+ * "og" follows SCREENSHOT_WIDTH/HEIGHT (1200x630 by default)
+ */
+export const SIZE_PRESETS: Record<SizePreset, { width: number; height: number }> = {
+  og: { width: config.screenshotWidth, height: config.screenshotHeight },
+  twitter: { width: 1200, height: 675 },
+  linkedin: { width: 1200, height: 627 },
+  square: { width: 1200, height: 1200 }
+};
+
+export const DEFAULT_SIZE: ImageSize = { name: 'og', ...SIZE_PRESETS.og };
+
+function isPreset(name: string): name is SizePreset {
+  return Object.prototype.hasOwnProperty.call(SIZE_PRESETS, name);
+}
+
+/**
+ * Parse "WIDTHxHEIGHT" into dimensions
+ */
+export function parseDimensions(value: string): { width: number; height: number } | null {
+  const match = value.match(/^(\d{3,4})x(\d{3,4})$/);
+  if (!match) return null;
+
+  const width = parseInt(match[1], 10);
+  const height = parseInt(match[2], 10);
+
+  if (width < MIN_DIMENSION || width > MAX_DIMENSION ||
+      height < MIN_DIMENSION || height > MAX_DIMENSION) {
+    return null;
+  }
+
+  return { width, height };
+}
+
+/**
+ * Resolve requested size against the key's whitelist
+ *
+ * Examples:
+ * - size=twitter → 1200x675 (if "twitter" is whitelisted)
+ * - width=1000&height=500 → 1000x500 (if "1000x500" is whitelisted)
+ */
+export function resolveSize(
+  apiKey: ApiKey,
+  params: { size?: string; width?: string; height?: string }
+): ImageSize {
+  const allowed = apiKey.type === 'admin'
+    ? null  // Admin keys may use any size
+    : (apiKey.sizes && apiKey.sizes.length > 0 ? apiKey.sizes : ['og']);
+
+  return resolveAllowedSize(params, allowed);
+}
+
+/**
+ * Resolve requested size against a whitelist (null allows any size)
+ */
+export function resolveAllowedSize(
+  params: { size?: string; width?: string; height?: string },
+  allowed: string[] | null
+): ImageSize {
+  let requested: ImageSize;
+
+  if (params.width || params.height) {
+    if (params.size) {
+      throw new OGFrameError(
+        'INVALID_PARAMS',
+        'Use either size or width/height, not both',
+        400
+      );
+    }
+
+    const dimensions = parseDimensions(`${params.width ?? ''}x${params.height ?? ''}`);
+    if (!dimensions) {
+      throw new OGFrameError(
+        'INVALID_SIZE',
+        `width and height must both be between ${MIN_DIMENSION} and ${MAX_DIMENSION}`,
+        400
+      );
+    }
+
+    requested = { name: `${dimensions.width}x${dimensions.height}`, ...dimensions };
+  } else {
+    const name = params.size || 'og';
+    if (isPreset(name)) {
+      requested = { name, ...SIZE_PRESETS[name] };
+    } else {
+      const dimensions = parseDimensions(name);
+      if (!dimensions) {
+        throw new OGFrameError(
+          'INVALID_SIZE',
+          `Unknown size "${name}"`,
+          400,
+          { presets: Object.keys(SIZE_PRESETS) }
+        );
+      }
+      requested = { name, ...dimensions };
+    }
+  }
+
+  if (allowed && !isSizeAllowed(requested, allowed)) {
+    throw new OGFrameError(
+      'SIZE_NOT_ALLOWED',
+      `Size ${requested.name} not allowed for this key`,
+      403,
+      { allowedSizes: allowed }
+    );
+  }
+
+  return requested;
+}
+
+/**
+ * Check a size against a whitelist of preset names and "WIDTHxHEIGHT" entries
+ */
+function isSizeAllowed(size: ImageSize, allowed: string[]): boolean {
+  return allowed.some(entry => {
+    if (entry === size.name) return true;
+    const dimensions = isPreset(entry) ? SIZE_PRESETS[entry] : parseDimensions(entry);
+    return dimensions !== null &&
+      dimensions.width === size.width &&
+      dimensions.height === size.height;
+  });
+}
+
+/**
+ * Cache key variant for a size
+ * The default size has no variant so existing cache entries stay valid
+ */
+export function getSizeVariant(size: ImageSize): string | undefined {
+  if (size.width === DEFAULT_SIZE.width && size.height === DEFAULT_SIZE.height) {
+    return undefined;
+  }
+  return `${size.width}x${size.height}`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Sorted Set
+ * Skip list ordered by a comparator: O(log n) add and delete, in-order
+ * iteration from any position
+ *
+ * The comparator must be a total order (break ties on a unique field), and
+ * an item's sort fields must not change while it is in the set: delete it,
+ * update it, add it again.
+ */
+
+const MAX_LEVEL = 32;
+
+interface Node<T> {
+  item: T;
+  next: Array<Node<T> | null>;
+}
+
+export class SortedSet<T> {
+  private head: Node<T> = { item: undefined as T, next: [null] };
+  private count = 0;
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Add item, unless an equal one is already in the set
+   */
+  add(item: T): boolean {
+    const update = this.findPredecessors(item);
+    const found = update[0].next[0];
+    if (found && this.compare(found.item, item) === 0) return false;
+
+    const level = randomLevel();
+    while (this.head.next.length < level) {
+      this.head.next.push(null);
+      update.push(this.head);
+    }
+
+    const node: Node<T> = { item, next: new Array(level) };
+    for (let i = 0; i < level; i++) {
+      node.next[i] = update[i].next[i];
+      update[i].next[i] = node;
+    }
+    this.count++;
+    return true;
+  }
+
+  /**
+   * Remove the item equal to item, if any
+   */
+  delete(item: T): boolean {
+    const update = this.findPredecessors(item);
+    const found = update[0].next[0];
+    if (!found || this.compare(found.item, item) !== 0) return false;
+
+    for (let i = 0; i < found.next.length; i++) {
+      update[i].next[i] = found.next[i];
+    }
+    while (this.head.next.length > 1 && this.head.next[this.head.next.length - 1] === null) {
+      this.head.next.pop();
+    }
+    this.count--;
+    return true;
+  }
+
+  clear(): void {
+    this.head = { item: undefined as T, next: [null] };
+    this.count = 0;
+  }
+
+  /**
+   * Items in order, starting at the first one >= from (or the smallest)
+   */
+  *values(from?: T): Generator<T> {
+    let node = from === undefined ? this.head.next[0] : this.findPredecessors(from)[0].next[0];
+    while (node) {
+      yield node.item;
+      node = node.next[0];
+    }
+  }
+
+  /**
+   * Last node < item on every level, top level last
+   */
+  private findPredecessors(item: T): Array<Node<T>> {
+    const update: Array<Node<T>> = new Array(this.head.next.length);
+    let node = this.head;
+    for (let i = this.head.next.length - 1; i >= 0; i--) {
+      let next = node.next[i];
+      while (next && this.compare(next.item, item) < 0) {
+        node = next;
+        next = node.next[i];
+      }
+      update[i] = node;
+    }
+    return update;
+  }
+}
+
+/**
+ * Level of a new node: 1, then one more with probability 1/2 each
+ */
+function randomLevel(): number {
+  let level = 1;
+  while (level < MAX_LEVEL && Math.random() < 0.5) {
+    level++;
+  }
+  return level;
+}
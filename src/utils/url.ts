@@ -28,6 +28,19 @@ export function normalizeUrl(url: string): string {
   }
 }
 
+/**
+ * Normalize a URL prefix the same way, keeping a trailing slash
+ * so "https://example.com/blog/" does not match "/blogroll"
+ */
+export function normalizeUrlPrefix(prefix: string): string {
+  try {
+    const parsed = new URL(prefix);
+    return `${parsed.protocol}//${parsed.hostname}${parsed.pathname}`.toLowerCase();
+  } catch (error) {
+    throw new OGFrameError('INVALID_URL', `Invalid URL prefix: ${prefix}`, 400);
+  }
+}
+
 /**
  * Validate URL against security rules
  */
@@ -106,6 +119,16 @@ export function matchDomain(actual: string, pattern: string): boolean {
   return false;
 }
 
+const DOMAIN_PATTERN = /^(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*(:(\d{1,5}|\*))?$/;
+
+/**
+ * Check an allowedDomains pattern is one matchDomain() can match
+ * Hostnames are lowercase, without scheme or path
+ */
+export function isValidDomainPattern(pattern: string): boolean {
+  return DOMAIN_PATTERN.test(pattern);
+}
+
 /**
  * Extract base domain to prevent subdomain abuse
  *
@@ -0,0 +1,197 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { execFile } from 'child_process';
+import { createServer, type Server } from 'http';
+import { once } from 'events';
+import { mkdtempSync, rmSync } from 'fs';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const tsx = join(root, 'node_modules/tsx/dist/cli.mjs');
+
+// Each CLI run starts a fresh Node process
+const timeout = 30000;
+
+interface Result {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run the CLI in its own process, as an operator would
+ */
+function cli(args: string[], env: Record<string, string> = {}): Promise<Result> {
+  return new Promise(resolve => {
+    execFile(
+      process.execPath,
+      [tsx, 'src/cli.ts', ...args],
+      { cwd: root, env: { ...process.env, ...env }, timeout },
+      (error, stdout, stderr) => resolve({ code: error ? (error.code as number) ?? 1 : 0, stdout, stderr })
+    );
+  });
+}
+
+describe('cache commands on CACHE_DIR', { timeout }, () => {
+  let dir: string;
+  let env: Record<string, string>;
+
+  async function seed(): Promise<void> {
+    process.env.CACHE_DIR = dir;
+    const cache = await import('../src/services/cache.js');
+    await cache.initCache();
+    await cache.purgeCache();
+
+    const save = (url: string, cacheKey: string, bytes: number) =>
+      cache.saveToCache(url, url, Buffer.alloc(bytes), 10, { cacheKey });
+    await save('https://example.com/', 'k_home', 2000);
+    await save('https://example.com/blog', 'k_blog', 500);
+    await save('https://other.com/', 'k_other', 100);
+
+    await cache.closeCache();
+  }
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ogframe-cli-'));
+    env = { CACHE_DIR: dir, LOG_LEVEL: 'error' };
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await seed();
+  });
+
+  it('prints stats', async () => {
+    const { code, stdout } = await cli(['cache', 'stats'], env);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('Entries: 3 (0 pinned)');
+  });
+
+  it('lists entries by domain and size', async () => {
+    const byDomain = await cli(['cache', 'ls', '--domain=example.com'], env);
+    expect(byDomain.stdout).toContain('k_home');
+    expect(byDomain.stdout).toContain('k_blog');
+    expect(byDomain.stdout).not.toContain('k_other');
+    expect(byDomain.stdout).toContain('2 entries');
+
+    const bySize = await cli(['cache', 'ls', '--min-size=1KB'], env);
+    expect(bySize.stdout).toContain('k_home');
+    expect(bySize.stdout).toContain('1 entries');
+
+    const none = await cli(['cache', 'ls', '--older-than=30d'], env);
+    expect(none.stdout).toContain('No matching cache entries.');
+  });
+
+  it('removes entries by URL or cache key', async () => {
+    const { code, stdout } = await cli(['cache', 'rm', 'https://example.com/blog', 'k_other', 'k_missing'], env);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('✓ Removed 1 entry for https://example.com/blog');
+    expect(stdout).toContain('✓ Removed 1 entry for k_other');
+    expect(stdout).toContain('- Not cached: k_missing');
+    expect((await cli(['cache', 'ls'], env)).stdout).toContain('1 entries');
+  });
+
+  it('purges by domain', async () => {
+    const { stdout } = await cli(['cache', 'purge', '--domain=example.com'], env);
+
+    expect(stdout).toContain('✓ Purged 2 cache entries');
+    expect((await cli(['cache', 'ls'], env)).stdout).toContain('k_other');
+  });
+
+  it('rejects bad arguments without touching the cache', async () => {
+    const purge = await cli(['cache', 'purge'], env);
+    expect(purge.code).toBe(1);
+    expect(purge.stderr).toContain('at least one');
+
+    const age = await cli(['cache', 'ls', '--older-than=30'], env);
+    expect(age.code).toBe(1);
+    expect(age.stderr).toContain('--older-than must be a duration with a unit');
+
+    const unknown = await cli(['cache', 'drop'], env);
+    expect(unknown.code).toBe(1);
+    expect(unknown.stderr).toContain('Usage: cache <stats|ls|rm|purge|warm>');
+
+    expect((await cli(['cache', 'ls'], env)).stdout).toContain('3 entries');
+  });
+});
+
+describe('cache commands with --server', { timeout }, () => {
+  let server: Server;
+  let url: string;
+  let entries: Array<{ cacheKey: string; url: string }>;
+  let requests: string[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(`${req.method} ${req.url} ${req.headers.authorization}`);
+      const path = new URL(req.url ?? '/', 'http://localhost');
+
+      if (req.method === 'GET' && path.pathname === '/admin/cache/entries') {
+        const match = path.searchParams.get('url') ?? path.searchParams.get('domain') ?? '';
+        const found = entries.filter(entry => entry.url.includes(match)).slice(0, Number(path.searchParams.get('limit')));
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ entries: found }));
+      } else if (req.method === 'DELETE' && path.pathname.startsWith('/admin/cache/')) {
+        const cacheKey = decodeURIComponent(path.pathname.slice('/admin/cache/'.length));
+        const before = entries.length;
+        entries = entries.filter(entry => entry.cacheKey !== cacheKey);
+        res.writeHead(entries.length < before ? 200 : 404, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify(entries.length < before ? { deleted: true } : { error: 'Not found' }));
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  beforeEach(() => {
+    entries = [
+      { cacheKey: 'k_og', url: 'https://example.com/' },
+      { cacheKey: 'k_square', url: 'https://example.com/' },
+      { cacheKey: 'k_other', url: 'https://other.com/' }
+    ];
+    requests = [];
+  });
+
+  it('requires an admin key', async () => {
+    const { code, stderr } = await cli(['cache', 'stats', `--server=${url}`], { OGFRAME_ADMIN_KEY: '' });
+
+    expect(code).toBe(1);
+    expect(stderr).toContain('--admin-key (or OGFRAME_ADMIN_KEY) is required with --server');
+    expect(requests).toEqual([]);
+  });
+
+  it('removes every size of a URL through the admin API', async () => {
+    const { code, stdout } = await cli(['cache', 'rm', 'https://example.com/', 'k_gone', `--server=${url}`, '--admin-key=ak_test']);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('✓ Removed 2 entries for https://example.com/');
+    expect(stdout).toContain('- Not cached: k_gone');
+    expect(requests).toEqual([
+      'GET /admin/cache/entries?url=https%3A%2F%2Fexample.com%2F&limit=1000 Bearer ak_test',
+      'DELETE /admin/cache/k_og Bearer ak_test',
+      'DELETE /admin/cache/k_square Bearer ak_test',
+      'DELETE /admin/cache/k_gone Bearer ak_test'
+    ]);
+  });
+
+  it('requires a public key to warm remotely', async () => {
+    const { code, stderr } = await cli(['cache', 'warm', 'https://example.com/', `--server=${url}`, '--admin-key=ak_test']);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain('--key=<public key> is required with --server');
+  });
+});
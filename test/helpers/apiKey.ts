@@ -0,0 +1,18 @@
+/**
+ * Test API Key
+ * A valid public key for example.com, with overrides for the settings under test
+ */
+
+import type { ApiKey } from '../../src/types.js';
+
+export function testKey(overrides: Partial<ApiKey> = {}): ApiKey {
+  return {
+    keyId: 'pk_test',
+    type: 'public',
+    name: 'Test',
+    allowedDomains: ['example.com'],
+    rateLimit: { requests: 100, generations: 10 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
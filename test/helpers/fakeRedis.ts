@@ -0,0 +1,300 @@
+/**
+ * Fake Redis Server
+ * In-process RESP server with the commands OGFrame uses
+ *
+ * Lua scripts run in fengari (Lua in JS) against the fake's data, so the
+ * rate limit scripts are exercised as written. fengari integers are 32-bit,
+ * so the clock (TIME) starts near zero to keep millisecond timestamps in range.
+ */
+
+import { createServer, type AddressInfo, type Server, type Socket } from 'net';
+import { createHash } from 'crypto';
+import fengari from 'fengari';
+import { parseReply, type RedisReply } from '../../src/utils/redis.js';
+
+const { lua, lauxlib, lualib, to_luastring } = fengari;
+
+type Reply = RedisReply | Error;
+
+export class FakeRedis {
+  readonly log: string[][] = [];        // Every command received, in order
+  readonly zsets = new Map<string, Map<string, number>>();
+  readonly hashes = new Map<string, Map<string, string>>();
+  readonly ttls = new Map<string, number>();  // PEXPIRE values by key
+  scripts = new Map<string, string>();
+  now = 1_000_000_000;                  // Milliseconds, advanced by tests
+  password: string | null = null;
+  hang = false;                         // Leave commands unanswered
+
+  private server: Server = createServer(socket => this.accept(socket));
+  private sockets = new Set<Socket>();
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  get url(): string {
+    return `redis://127.0.0.1:${this.port}`;
+  }
+
+  async start(port = 0): Promise<this> {
+    await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    this.dropConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Close every client connection (the server keeps listening)
+   */
+  dropConnections(): void {
+    for (const socket of this.sockets) socket.destroy();
+    this.sockets.clear();
+  }
+
+  /**
+   * Commands received so far, by name
+   */
+  commands(): string[] {
+    return this.log.map(args => args[0].toUpperCase());
+  }
+
+  private accept(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => undefined);
+
+    let buffer = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed;
+      while ((parsed = parseReply(buffer, 0))) {
+        buffer = buffer.subarray(parsed.offset);
+        const args = (parsed.value as string[]).map(String);
+        this.log.push(args);
+        if (this.hang) continue;
+
+        socket.write(encodeReply(this.execute(args)));
+        if (args[0].toUpperCase() === 'QUIT') socket.end();
+      }
+    });
+  }
+
+  private execute(args: string[]): Reply {
+    const [name, ...rest] = args;
+
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return 'PONG';
+      case 'QUIT':
+      case 'SELECT':
+        return 'OK';
+      case 'AUTH':
+        return rest[rest.length - 1] === this.password ? 'OK' : new Error('WRONGPASS invalid password');
+      case 'EVAL': {
+        const [script, ...params] = rest;
+        this.scripts.set(sha1(script), script);
+        return this.runScript(script, params);
+      }
+      case 'EVALSHA': {
+        const [sha, ...params] = rest;
+        const script = this.scripts.get(sha);
+        if (!script) return new Error('NOSCRIPT No matching script. Please use EVAL.');
+        return this.runScript(script, params);
+      }
+      case 'SCAN': {
+        const pattern = rest[rest.indexOf('MATCH') + 1] ?? '*';
+        const keys = [...this.zsets.keys(), ...this.hashes.keys()].filter(key => matchGlob(pattern, key));
+        return ['0', keys];
+      }
+      default:
+        return this.call(args);
+    }
+  }
+
+  /**
+   * Data commands, also reachable from scripts through redis.call
+   */
+  private call(args: string[]): Reply {
+    const [name, key, ...rest] = args;
+
+    switch (name.toUpperCase()) {
+      case 'TIME':
+        return [String(Math.floor(this.now / 1000)), String((this.now % 1000) * 1000)];
+
+      case 'DEL': {
+        let count = 0;
+        for (const name of [key, ...rest]) {
+          if (this.zsets.delete(name) || this.hashes.delete(name)) count++;
+          this.ttls.delete(name);
+        }
+        return count;
+      }
+
+      case 'PEXPIRE':
+        this.ttls.set(key, Number(rest[0]));
+        return 1;
+
+      case 'ZADD':
+        this.zset(key).set(rest[1], Number(rest[0]));
+        return 1;
+
+      case 'ZCARD':
+        return this.zset(key).size;
+
+      case 'ZREMRANGEBYSCORE': {
+        const set = this.zset(key);
+        const max = Number(rest[1]);
+        let removed = 0;
+        for (const [member, score] of set) {
+          if (score <= max) {
+            set.delete(member);
+            removed++;
+          }
+        }
+        return removed;
+      }
+
+      case 'ZRANGE': {
+        const sorted = [...this.zset(key)].sort((a, b) => a[1] - b[1]);
+        const index = (value: string) => {
+          const i = Number(value);
+          return i < 0 ? sorted.length + i : i;
+        };
+        return sorted
+          .slice(index(rest[0]), index(rest[1]) + 1)
+          .flatMap(([member, score]) => rest.includes('WITHSCORES') ? [member, String(score)] : [member]);
+      }
+
+      case 'HMGET':
+        return rest.map(field => this.hashes.get(key)?.get(field) ?? null);
+
+      case 'HSET': {
+        const hash = this.hashes.get(key) ?? new Map<string, string>();
+        this.hashes.set(key, hash);
+        for (let i = 0; i < rest.length; i += 2) hash.set(rest[i], rest[i + 1]);
+        return rest.length / 2;
+      }
+
+      default:
+        return new Error(`ERR unknown command '${name}'`);
+    }
+  }
+
+  private zset(key: string): Map<string, number> {
+    let set = this.zsets.get(key);
+    if (!set) {
+      set = new Map();
+      this.zsets.set(key, set);
+    }
+    return set;
+  }
+
+  private runScript(script: string, params: string[]): Reply {
+    const keyCount = Number(params[0]);
+    const keys = params.slice(1, 1 + keyCount);
+    const argv = params.slice(1 + keyCount);
+
+    const L = lauxlib.luaL_newstate();
+    lualib.luaL_openlibs(L);
+    pushStrings(L, keys);
+    lua.lua_setglobal(L, to_luastring('KEYS'));
+    pushStrings(L, argv);
+    lua.lua_setglobal(L, to_luastring('ARGV'));
+
+    lua.lua_newtable(L);
+    lua.lua_pushjsfunction(L, (state: unknown) => {
+      const args: string[] = [];
+      for (let i = 1; i <= lua.lua_gettop(state); i++) {
+        args.push(lua.lua_tojsstring(state, i));
+      }
+      const reply = this.call(args);
+      if (reply instanceof Error) return lauxlib.luaL_error(state, to_luastring(reply.message));
+      pushReply(state, reply);
+      return 1;
+    });
+    lua.lua_setfield(L, -2, to_luastring('call'));
+    lua.lua_pushjsfunction(L, () => 0);
+    lua.lua_setfield(L, -2, to_luastring('replicate_commands'));
+    lua.lua_setglobal(L, to_luastring('redis'));
+
+    if (lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK || lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK) {
+      return new Error(`ERR script failed: ${lua.lua_tojsstring(L, -1)}`);
+    }
+    return readReply(L, -1);
+  }
+}
+
+function sha1(script: string): string {
+  return createHash('sha1').update(script).digest('hex');
+}
+
+function matchGlob(pattern: string, value: string): boolean {
+  const source = pattern.replace(/\\(.)|([*?])|([^\\*?]+)/g, (_, escaped: string, wildcard: string, literal: string) => {
+    if (wildcard) return wildcard === '*' ? '.*' : '.';
+    return (escaped ?? literal).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  });
+  return new RegExp(`^${source}$`).test(value);
+}
+
+function pushStrings(L: unknown, values: string[]): void {
+  lua.lua_createtable(L, values.length, 0);
+  values.forEach((value, i) => {
+    lua.lua_pushstring(L, to_luastring(value));
+    lua.lua_rawseti(L, -2, i + 1);
+  });
+}
+
+// Redis replies as Lua values (nil becomes false, as in Redis)
+function pushReply(L: unknown, reply: RedisReply): void {
+  if (reply === null) {
+    lua.lua_pushboolean(L, false);
+  } else if (typeof reply === 'number') {
+    lua.lua_pushinteger(L, reply);
+  } else if (typeof reply === 'string') {
+    lua.lua_pushstring(L, to_luastring(reply));
+  } else {
+    lua.lua_createtable(L, reply.length, 0);
+    reply.forEach((item, i) => {
+      pushReply(L, item);
+      lua.lua_rawseti(L, -2, i + 1);
+    });
+  }
+}
+
+// Lua values as Redis replies (numbers are truncated to integers, as in Redis)
+function readReply(L: unknown, index: number): RedisReply {
+  index = lua.lua_absindex(L, index);
+  switch (lua.lua_type(L, index)) {
+    case lua.LUA_TNUMBER:
+      return Math.trunc(lua.lua_tonumber(L, index));
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, index);
+    case lua.LUA_TTABLE: {
+      const items: RedisReply[] = [];
+      const length = lua.lua_rawlen(L, index);
+      for (let i = 1; i <= length; i++) {
+        lua.lua_rawgeti(L, index, i);
+        items.push(readReply(L, -1));
+        lua.lua_pop(L, 1);
+      }
+      return items;
+    }
+    default:
+      return null;
+  }
+}
+
+function encodeReply(reply: Reply): string | Buffer {
+  if (reply instanceof Error) return `-${reply.message}\r\n`;
+  if (reply === null) return '$-1\r\n';
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (typeof reply === 'string') return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+  return Buffer.concat([
+    Buffer.from(`*${reply.length}\r\n`),
+    ...reply.map(item => Buffer.from(encodeReply(item)))
+  ]);
+}
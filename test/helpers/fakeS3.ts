@@ -0,0 +1,212 @@
+/**
+ * Fake S3 Server
+ * In-process HTTP server with path-style bucket operations
+ *
+ * Every request is checked against an independent AWS Signature V4
+ * implementation; a bad signature gets 403 SignatureDoesNotMatch, like S3.
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash, createHmac } from 'crypto';
+
+export interface FakeS3Request {
+  method: string;
+  path: string;                          // Object key, or '' for bucket requests
+  query: Record<string, string>;
+  headers: IncomingHttpHeaders;
+}
+
+export interface FakeS3Object {
+  body: Buffer;
+  contentType: string;
+}
+
+export class FakeS3 {
+  readonly requests: FakeS3Request[] = [];
+  readonly objects = new Map<string, FakeS3Object>();
+  pageSize = 1000;                       // ListObjectsV2 MaxKeys
+  missingStatus = 404;                   // DELETE of a missing key (S3 itself returns 204)
+  failure: { status: number; code: string; message: string } | null = null;  // Answer every request with this error
+  hang = false;                          // Accept requests but never answer them
+
+  private server: Server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      if (this.hang) return;
+      const { status, headers = {}, body = '' } = this.handle(req.method ?? 'GET', req.url ?? '/', req.headers, Buffer.concat(chunks));
+      res.writeHead(status, headers);
+      res.end(req.method === 'HEAD' ? undefined : body);
+    });
+  });
+
+  constructor(
+    readonly bucket = 'ogframe',
+    readonly region = 'auto',
+    readonly accessKey = 'AKIDEXAMPLE',
+    readonly secretKey = 'secret/EXAMPLE+KEY'
+  ) {}
+
+  get endpoint(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async start(): Promise<this> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(
+    method: string,
+    rawUrl: string,
+    headers: IncomingHttpHeaders,
+    body: Buffer
+  ): { status: number; headers?: Record<string, string>; body?: string | Buffer } {
+    const [rawPath, rawQuery = ''] = rawUrl.split('?');
+    const query = Object.fromEntries(new URLSearchParams(rawQuery));
+    const [, bucket, ...segments] = rawPath.split('/');
+    const key = segments.map(decodeURIComponent).join('/');
+    this.requests.push({ method, path: key, query, headers });
+
+    const signatureError = this.verifySignature(method, rawPath, rawQuery, headers, body);
+    if (signatureError) {
+      return errorResponse(403, 'SignatureDoesNotMatch', signatureError);
+    }
+    if (this.failure) {
+      return errorResponse(this.failure.status, this.failure.code, this.failure.message);
+    }
+    if (decodeURIComponent(bucket) !== this.bucket) {
+      return errorResponse(404, 'NoSuchBucket', 'The specified bucket does not exist');
+    }
+
+    if (!key) {
+      if (method === 'HEAD') return { status: 200 };
+      if (method === 'GET' && query['list-type'] === '2') return this.list(query);
+      return errorResponse(400, 'InvalidRequest', 'Unsupported bucket request');
+    }
+
+    const object = this.objects.get(key);
+    switch (method) {
+      case 'GET':
+        return object
+          ? { status: 200, headers: { 'content-type': object.contentType }, body: object.body }
+          : errorResponse(404, 'NoSuchKey', 'The specified key does not exist.');
+      case 'PUT':
+        this.objects.set(key, { body, contentType: String(headers['content-type'] ?? '') });
+        return { status: 200 };
+      case 'DELETE':
+        if (!object) return { status: this.missingStatus };
+        this.objects.delete(key);
+        return { status: 204 };
+      default:
+        return errorResponse(405, 'MethodNotAllowed', 'Method not allowed');
+    }
+  }
+
+  private list(query: Record<string, string>): { status: number; body: string } {
+    const prefix = query.prefix ?? '';
+    const keys = [...this.objects.keys()].filter(key => key.startsWith(prefix)).sort();
+    const start = query['continuation-token'] ? Number(Buffer.from(query['continuation-token'], 'base64').toString()) : 0;
+    const page = keys.slice(start, start + this.pageSize);
+    const truncated = start + this.pageSize < keys.length;
+
+    const contents = page.map(key => `<Contents>
+      <Key>${escapeXml(key)}</Key>
+      <LastModified>2024-01-02T03:04:05.000Z</LastModified>
+      <Size>${this.objects.get(key)?.body.length}</Size>
+    </Contents>`).join('');
+
+    return {
+      status: 200,
+      body: `<?xml version="1.0" encoding="UTF-8"?>
+<ListBucketResult>
+  <Name>${this.bucket}</Name>
+  <Prefix>${escapeXml(prefix)}</Prefix>
+  <KeyCount>${page.length}</KeyCount>
+  <IsTruncated>${truncated}</IsTruncated>
+  ${truncated ? `<NextContinuationToken>${Buffer.from(String(start + this.pageSize)).toString('base64')}</NextContinuationToken>` : ''}
+  ${contents}
+</ListBucketResult>`
+    };
+  }
+
+  /**
+   * Recompute the request signature, or describe why it doesn't match
+   */
+  private verifySignature(
+    method: string,
+    rawPath: string,
+    rawQuery: string,
+    headers: IncomingHttpHeaders,
+    body: Buffer
+  ): string | null {
+    const match = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([a-z0-9;-]+), Signature=([0-9a-f]{64})$/
+      .exec(String(headers.authorization ?? ''));
+    if (!match) return 'Malformed Authorization header';
+
+    const [, accessKey, dateStamp, region, signedHeaders, signature] = match;
+    const amzDate = String(headers['x-amz-date'] ?? '');
+    if (accessKey !== this.accessKey) return 'Unknown access key';
+    if (region !== this.region) return 'Wrong region';
+    if (!amzDate.startsWith(dateStamp)) return 'x-amz-date does not match the credential scope';
+    if (headers['x-amz-content-sha256'] !== sha256Hex(body)) return 'x-amz-content-sha256 does not match the body';
+
+    const names = signedHeaders.split(';');
+    for (const required of ['host', 'x-amz-content-sha256', 'x-amz-date']) {
+      if (!names.includes(required)) return `${required} is not signed`;
+    }
+
+    const canonicalQuery = rawQuery
+      .split('&')
+      .filter(Boolean)
+      .map(pair => pair.split('=').map(part => encodeRfc3986(decodeURIComponent(part))).join('='))
+      .sort()
+      .join('&');
+
+    const canonicalRequest = [
+      method,
+      rawPath,
+      canonicalQuery,
+      names.map(name => `${name}:${String(headers[name] ?? '').trim()}\n`).join(''),
+      signedHeaders,
+      headers['x-amz-content-sha256']
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    let key: Buffer | string = `AWS4${this.secretKey}`;
+    for (const part of [dateStamp, region, 's3', 'aws4_request']) {
+      key = createHmac('sha256', key).update(part).digest();
+    }
+    const expected = createHmac('sha256', key).update(stringToSign).digest('hex');
+
+    return expected === signature ? null : 'The request signature we calculated does not match the signature you provided';
+  }
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return {
+    status,
+    headers: { 'content-type': 'application/xml' },
+    body: `<?xml version="1.0" encoding="UTF-8"?>\n<Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error>`
+  };
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,205 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ApiKey, KeyConfig } from '../../src/types.js';
+import { hashKey } from '../../src/utils/crypto.js';
+import { logger } from '../../src/utils/logger.js';
+
+const siteKey: ApiKey = {
+  keyId: 'pk_test_site',
+  type: 'public',
+  name: 'Site',
+  allowedDomains: ['example.com'],
+  rateLimit: { requests: 1000, generations: 10 },
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+const adminKey = {
+  keyHash: hashKey('ak_test_admin'),
+  type: 'admin',
+  name: 'Ops',
+  createdAt: '2024-01-01T00:00:00.000Z'
+} as KeyConfig['keys'][number];
+
+let dir: string;
+let keysFile: string;
+let auth: typeof import('../../src/services/auth.js');
+let config: typeof import('../../src/config.js').default;
+
+function writeKeys(keys: unknown[]): void {
+  writeFileSync(keysFile, JSON.stringify({ keys }));
+}
+
+async function waitFor(check: () => boolean, timeout = 3000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for reload');
+    await new Promise(resolve => setTimeout(resolve, 25));
+  }
+}
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'ogframe-auth-'));
+  keysFile = join(dir, 'keys.json');
+  process.env.API_KEYS_FILE = keysFile;
+  auth = await import('../../src/services/auth.js');
+  config = (await import('../../src/config.js')).default;
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(logger, 'info').mockImplementation(() => {});
+  vi.spyOn(logger, 'warn').mockImplementation(() => {});
+  writeKeys([siteKey, adminKey]);
+  auth.initAuth();
+});
+
+afterEach(() => {
+  auth.unwatchKeys();
+  vi.restoreAllMocks();
+});
+
+describe('reloadKeys', () => {
+  it('swaps in a valid file and audits what changed', () => {
+    const audit = vi.spyOn(logger, 'audit').mockImplementation(() => {});
+    writeKeys([{ ...siteKey, name: 'Renamed' }, { ...siteKey, keyId: 'pk_test_new' }]);
+
+    expect(auth.reloadKeys('SIGHUP')).toBe(true);
+    expect(auth.validateApiKey('pk_test_new')?.keyId).toBe('pk_test_new');
+    expect(auth.validateApiKey('pk_test_site')?.name).toBe('Renamed');
+    expect(auth.validateApiKey('ak_test_admin')).toBeNull();
+    expect(audit).toHaveBeenCalledWith('API keys reloaded', {
+      reason: 'SIGHUP',
+      added: ['pk_test_new'],
+      removed: [`admin:Ops:${hashKey('ak_test_admin').slice(0, 8)}`],
+      changed: [{ key: 'pk_test_site', fields: ['name'] }]
+    });
+  });
+
+  it('does not audit a reload without changes', () => {
+    const audit = vi.spyOn(logger, 'audit').mockImplementation(() => {});
+    const debug = vi.spyOn(logger, 'debug').mockImplementation(() => {});
+
+    expect(auth.reloadKeys('SIGHUP')).toBe(true);
+    expect(audit).not.toHaveBeenCalled();
+    expect(debug).toHaveBeenCalledWith('API keys reloaded, no changes', { reason: 'SIGHUP' });
+  });
+
+  it('keeps the current keys when the file is not valid JSON', () => {
+    const error = vi.spyOn(logger, 'error').mockImplementation(() => {});
+    writeFileSync(keysFile, '{"keys": [');
+
+    expect(auth.reloadKeys('SIGHUP')).toBe(false);
+    expect(auth.validateApiKey('pk_test_site')?.keyId).toBe('pk_test_site');
+    expect(error).toHaveBeenCalledWith('Rejected API keys reload, keeping current keys', expect.objectContaining({ reason: 'SIGHUP' }));
+  });
+
+  it('keeps the current keys when any key is invalid', () => {
+    const error = vi.spyOn(logger, 'error').mockImplementation(() => {});
+    writeKeys([{ ...siteKey, keyId: 'pk_test_new' }, { ...siteKey, allowedDomains: [] }]);
+
+    expect(auth.reloadKeys('SIGHUP')).toBe(false);
+    expect(auth.validateApiKey('pk_test_site')?.keyId).toBe('pk_test_site');
+    expect(auth.validateApiKey('pk_test_new')).toBeNull();
+    expect(error).toHaveBeenCalledWith('Rejected API keys reload, keeping current keys', {
+      reason: 'SIGHUP',
+      error: 'Invalid keys[1].allowedDomains: must be a non-empty array of domains',
+      details: { field: 'keys[1].allowedDomains' }
+    });
+  });
+});
+
+describe('watchKeys', () => {
+  it('reloads when the file is rewritten', async () => {
+    vi.spyOn(logger, 'audit').mockImplementation(() => {});
+    auth.watchKeys();
+
+    writeKeys([siteKey, { ...siteKey, keyId: 'pk_test_watched' }]);
+    await waitFor(() => auth.validateApiKey('pk_test_watched') !== null);
+  });
+
+  it('reloads when the file is replaced atomically, once per burst of events', async () => {
+    const audit = vi.spyOn(logger, 'audit').mockImplementation(() => {});
+    auth.watchKeys();
+
+    writeFileSync(`${keysFile}.tmp`, JSON.stringify({ keys: [{ ...siteKey, keyId: 'pk_test_renamed' }] }));
+    renameSync(`${keysFile}.tmp`, keysFile);
+    await waitFor(() => audit.mock.calls.length > 0);
+
+    expect(auth.validateApiKey('pk_test_renamed')?.keyId).toBe('pk_test_renamed');
+    await new Promise(resolve => setTimeout(resolve, 400));
+    expect(audit).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores other files in the directory', async () => {
+    const debug = vi.spyOn(logger, 'debug').mockImplementation(() => {});
+    auth.watchKeys();
+
+    writeFileSync(join(dir, 'other.json'), '{}');
+    await new Promise(resolve => setTimeout(resolve, 400));
+    expect(debug).not.toHaveBeenCalledWith('API keys reloaded, no changes', expect.anything());
+  });
+});
+
+describe('authorizeMetrics', () => {
+  let defaults: Pick<typeof config, 'metricsAllowedIps' | 'metricsRequireAuth'>;
+
+  beforeAll(() => {
+    defaults = { metricsAllowedIps: config.metricsAllowedIps, metricsRequireAuth: config.metricsRequireAuth };
+  });
+
+  afterEach(() => {
+    Object.assign(config, defaults);
+  });
+
+  function rejection(address: string | undefined, authHeader: string | null): string | null {
+    try {
+      auth.authorizeMetrics(address, authHeader);
+      return null;
+    } catch (error) {
+      return (error as { code: string }).code;
+    }
+  }
+
+  it('requires an admin key by default', () => {
+    config.metricsAllowedIps = [];
+    config.metricsRequireAuth = true;
+
+    expect(rejection('127.0.0.1', null)).toBe('INVALID_KEY');
+    expect(rejection('127.0.0.1', 'Bearer pk_test_site')).toBe('FORBIDDEN');
+    expect(rejection('127.0.0.1', 'Bearer ak_test_admin')).toBeNull();
+    expect(rejection('127.0.0.1', 'ak_test_admin')).toBeNull();
+  });
+
+  it('lets allowlisted addresses scrape without a key', () => {
+    config.metricsAllowedIps = ['10.0.0.5', '127.0.0.1'];
+    config.metricsRequireAuth = true;
+
+    expect(rejection('10.0.0.5', null)).toBeNull();
+    expect(rejection('::ffff:127.0.0.1', null)).toBeNull();
+    expect(rejection('10.0.0.50', null)).toBe('INVALID_KEY');
+    expect(rejection('10.0.0.50', 'Bearer ak_test_admin')).toBeNull();
+    expect(rejection(undefined, null)).toBe('INVALID_KEY');
+  });
+
+  it('only allows listed addresses when auth is turned off', () => {
+    config.metricsAllowedIps = ['10.0.0.5'];
+    config.metricsRequireAuth = false;
+
+    expect(rejection('10.0.0.5', null)).toBeNull();
+    expect(rejection('10.0.0.6', 'Bearer ak_test_admin')).toBe('FORBIDDEN');
+  });
+
+  it('is open without an allowlist or auth', () => {
+    config.metricsAllowedIps = [];
+    config.metricsRequireAuth = false;
+
+    expect(rejection('203.0.113.9', null)).toBeNull();
+  });
+});
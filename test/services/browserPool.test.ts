@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { chromium } from 'playwright';
+import { BrowserPool } from '../../src/services/browserPool.js';
+import { getLargestProcessRss } from '../../src/utils/process.js';
+import { logger } from '../../src/utils/logger.js';
+import config from '../../src/config.js';
+
+vi.mock('playwright', () => ({
+  chromium: { launchServer: vi.fn(), connect: vi.fn() }
+}));
+
+vi.mock('../../src/utils/process.js', () => ({
+  getLargestProcessRss: vi.fn(async () => null)
+}));
+
+const MB = 1024 * 1024;
+
+class FakeBrowser extends EventEmitter {
+  connected = true;
+  isConnected = () => this.connected;
+  newContext = vi.fn(async () => ({ close: vi.fn(async () => {}) }));
+  close = vi.fn(async () => {
+    this.connected = false;
+    this.emit('disconnected');
+  });
+
+  crash(): void {
+    this.connected = false;
+    this.emit('disconnected');
+  }
+}
+
+function fakeServer() {
+  return {
+    wsEndpoint: () => 'ws://127.0.0.1:1/browser',
+    process: () => ({ pid: 4242 }),
+    close: vi.fn(async () => {}),
+    kill: vi.fn(async () => {})
+  };
+}
+
+let browsers: FakeBrowser[];
+let servers: Array<ReturnType<typeof fakeServer>>;
+let defaults: Pick<typeof config, 'browserRecyclePages' | 'browserMaxMemoryMb' | 'browserQueueTimeout'>;
+
+beforeEach(() => {
+  browsers = [];
+  servers = [];
+  vi.mocked(chromium.launchServer).mockImplementation((async () => {
+    const server = fakeServer();
+    servers.push(server);
+    return server;
+  }) as any);
+  vi.mocked(chromium.connect).mockImplementation((async () => {
+    const browser = new FakeBrowser();
+    browsers.push(browser);
+    return browser;
+  }) as any);
+  vi.mocked(getLargestProcessRss).mockResolvedValue(null);
+
+  defaults = {
+    browserRecyclePages: config.browserRecyclePages,
+    browserMaxMemoryMb: config.browserMaxMemoryMb,
+    browserQueueTimeout: config.browserQueueTimeout
+  };
+  vi.spyOn(logger, 'info').mockImplementation(() => {});
+  vi.spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  Object.assign(config, defaults);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('BrowserPool', () => {
+  it('reuses a browser until BROWSER_RECYCLE_PAGES, then relaunches', async () => {
+    config.browserRecyclePages = 2;
+    const pool = new BrowserPool(1);
+
+    await pool.run({}, async () => {});
+    await pool.run({}, async () => {});
+    expect(browsers).toHaveLength(1);
+    expect(browsers[0].close).toHaveBeenCalled();
+    expect(servers[0].close).toHaveBeenCalled();
+
+    await pool.run({}, async () => {});
+    expect(browsers).toHaveLength(2);
+    expect(pool.getStats()).toMatchObject({ recycled: 1, crashed: 0, browsers: 1 });
+  });
+
+  it('recycles a browser whose largest process is over BROWSER_MAX_MEMORY_MB', async () => {
+    config.browserMaxMemoryMb = 512;
+    const pool = new BrowserPool(1);
+
+    vi.mocked(getLargestProcessRss).mockResolvedValueOnce(100 * MB);
+    await pool.run({}, async () => {});
+    expect(getLargestProcessRss).toHaveBeenCalledWith(4242);
+    expect(pool.getStats().recycled).toBe(0);
+
+    // The next check is throttled; pretend the interval has passed
+    vi.useFakeTimers({ toFake: ['Date'], now: Date.now() + 60000 });
+    vi.mocked(getLargestProcessRss).mockResolvedValueOnce(600 * MB);
+    await pool.run({}, async () => {});
+
+    expect(logger.info).toHaveBeenCalledWith('Recycling browser', { slot: 0, pages: 2, reason: 'memory 600MB' });
+    expect(pool.getStats()).toMatchObject({ recycled: 1, browsers: 0 });
+  });
+
+  it('relaunches a browser that disconnects unexpectedly', async () => {
+    const pool = new BrowserPool(1);
+    await pool.run({}, async () => {});
+
+    browsers[0].crash();
+    expect(servers[0].kill).toHaveBeenCalled();
+    await vi.waitFor(() => expect(pool.getStats().browsers).toBe(1));
+
+    expect(browsers).toHaveLength(2);
+    expect(pool.getStats().crashed).toBe(1);
+    await pool.run({}, async () => {});
+    expect(browsers).toHaveLength(2);
+  });
+
+  it('kills the server when connecting to it fails', async () => {
+    vi.mocked(chromium.connect).mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    const pool = new BrowserPool(1);
+
+    await expect(pool.run({}, async () => {})).rejects.toThrow('connect ECONNREFUSED');
+    expect(servers[0].kill).toHaveBeenCalled();
+
+    // The slot is free again and the next job launches a new browser
+    await pool.run({}, async () => {});
+    expect(servers).toHaveLength(2);
+  });
+
+  it('hands a released slot to the next waiter', async () => {
+    const pool = new BrowserPool(1);
+    let finish!: () => void;
+    const order: string[] = [];
+
+    const first = pool.run({}, () => new Promise<void>(resolve => {
+      finish = resolve;
+    }).then(() => { order.push('first'); }));
+    await vi.waitFor(() => expect(finish).toBeDefined());
+
+    const second = pool.run({}, async () => { order.push('second'); });
+    expect(pool.getStats()).toMatchObject({ busy: 1, queued: 1 });
+
+    finish();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['first', 'second']);
+    expect(pool.getStats()).toMatchObject({ busy: 0, queued: 0 });
+    expect(browsers).toHaveLength(1);
+  });
+
+  it('fails waiters after BROWSER_QUEUE_TIMEOUT', async () => {
+    config.browserQueueTimeout = 50;
+    const pool = new BrowserPool(1);
+    let finish!: () => void;
+
+    const first = pool.run({}, () => new Promise<void>(resolve => {
+      finish = resolve;
+    }));
+    await vi.waitFor(() => expect(finish).toBeDefined());
+
+    await expect(pool.run({}, async () => {})).rejects.toMatchObject({
+      code: 'SCREENSHOT_QUEUE_TIMEOUT',
+      statusCode: 503
+    });
+    expect(pool.getStats().queued).toBe(0);
+
+    finish();
+    await first;
+    expect(pool.getStats().busy).toBe(0);
+  });
+});
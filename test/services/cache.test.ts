@@ -0,0 +1,137 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { OutputFormat } from '../../src/types.js';
+import { MetadataJournal } from '../../src/services/storage/journal.js';
+import { logger } from '../../src/utils/logger.js';
+
+// Encoding is sharp's job; here it only has to be observable and controllable
+const encoder = vi.hoisted(() => ({
+  gate: null as Promise<void> | null
+}));
+
+vi.mock('../../src/services/encoder.js', () => ({
+  encodeImage: vi.fn(async (png: Buffer, output: OutputFormat) => {
+    await encoder.gate;
+    return Buffer.from(`${output.format}:${png.toString()}`);
+  })
+}));
+
+const WEBP: OutputFormat = { format: 'webp', quality: 80 };
+
+let dir: string;
+let cache: typeof import('../../src/services/cache.js');
+let encodeImage: ReturnType<typeof vi.fn>;
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'ogframe-cache-'));
+  process.env.CACHE_DIR = dir;
+  cache = await import('../../src/services/cache.js');
+  encodeImage = (await import('../../src/services/encoder.js')).encodeImage as unknown as ReturnType<typeof vi.fn>;
+  await cache.initCache();
+});
+
+afterAll(async () => {
+  await cache.closeCache();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await cache.purgeCache();
+  encodeImage.mockClear();
+  encoder.gate = null;
+});
+
+describe('getFromCache', () => {
+  it('misses unknown keys', async () => {
+    expect(await cache.getFromCache('https://example.com/none', 'none', WEBP)).toBeNull();
+  });
+
+  it('returns the PNG master without encoding a missing variant', async () => {
+    await cache.saveToCache('https://example.com/', 'https://example.com/', Buffer.from('png'), 10, { cacheKey: 'k1' });
+
+    const cached = await cache.getFromCache('https://example.com/', 'k1', WEBP);
+    expect(cached?.buffer.toString()).toBe('png');
+    expect(cached?.needsEncode).toBe(true);
+    expect(encodeImage).not.toHaveBeenCalled();
+
+    const png = await cache.getFromCache('https://example.com/', 'k1');
+    expect(png?.needsEncode).toBe(false);
+  });
+
+  it('serves stored variants once encoded', async () => {
+    await cache.saveToCache('https://example.com/', 'https://example.com/', Buffer.from('png'), 10, { cacheKey: 'k1' });
+    const cached = await cache.getFromCache('https://example.com/', 'k1', WEBP);
+    await cache.encodeVariant(cached!.entry, cached!.buffer, WEBP);
+
+    const again = await cache.getFromCache('https://example.com/', 'k1', WEBP);
+    expect(again?.needsEncode).toBe(false);
+    expect(again?.buffer.toString()).toBe('webp:png');
+    expect(again?.entry.variants?.['webp-q80']?.size).toBe(8);
+
+    // Another quality is another variant
+    expect((await cache.getFromCache('https://example.com/', 'k1', { format: 'webp', quality: 50 }))?.needsEncode).toBe(true);
+  });
+});
+
+describe('encodeVariant', () => {
+  it('does not overwrite an entry that was refreshed while encoding', async () => {
+    const url = 'https://example.com/';
+    const stale = await cache.saveToCache(url, url, Buffer.from('old'), 10, { cacheKey: 'k1' });
+
+    let release!: () => void;
+    encoder.gate = new Promise(resolve => { release = resolve; });
+    const encoding = cache.encodeVariant(stale, Buffer.from('old'), WEBP);
+
+    const fresh = await cache.saveToCache(url, url, Buffer.from('newer'), 10, { cacheKey: 'k1' });
+    release();
+
+    // Still served to the request that asked for it, but not stored
+    expect((await encoding).toString()).toBe('webp:old');
+    expect(cache.getCacheEntry(url, 'k1')).toBe(fresh);
+    expect(fresh.variants).toBeUndefined();
+    expect((await cache.getFromCache(url, 'k1', WEBP))?.needsEncode).toBe(true);
+
+    await cache.closeCache();
+    const stored = new MetadataJournal(join(dir, 'metadata.jsonl')).open();
+    expect(stored.k1.size).toBe(5);
+    expect(stored.k1.variants).toBeUndefined();
+  });
+
+  it('does not resurrect a purged entry', async () => {
+    const url = 'https://example.com/';
+    const entry = await cache.saveToCache(url, url, Buffer.from('png'), 10, { cacheKey: 'k1' });
+
+    let release!: () => void;
+    encoder.gate = new Promise(resolve => { release = resolve; });
+    const encoding = cache.encodeVariant(entry, Buffer.from('png'), WEBP);
+
+    await cache.deleteCacheEntry('k1');
+    release();
+    await encoding;
+
+    expect(cache.getCacheEntry(url, 'k1')).toBeNull();
+    expect(await cache.getFromCache(url, 'k1', WEBP)).toBeNull();
+  });
+});
+
+describe('saveToCache', () => {
+  it('returns the image without caching it when its metadata cannot be saved', async () => {
+    const url = 'https://example.com/';
+    const error = vi.spyOn(logger, 'error').mockImplementation(() => {});
+    const put = vi.spyOn(MetadataJournal.prototype, 'put').mockImplementationOnce(() => {
+      throw new Error('disk full');
+    });
+
+    const entry = await cache.saveToCache(url, url, Buffer.from('png'), 10, { cacheKey: 'k1' });
+
+    expect(entry.cacheKey).toBe('k1');
+    expect(cache.getCacheEntry(url, 'k1')).toBeNull();
+    expect(existsSync(entry.filePath)).toBe(false);
+    expect(error).toHaveBeenCalledWith('Failed to save cache metadata', expect.objectContaining({ cacheKey: 'k1' }));
+
+    put.mockRestore();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+let dir: string;
+let cache: typeof import('../../src/services/cache.js');
+
+const save = (key: string, bytes: number) =>
+  cache.saveToCache(`https://example.com/${key}`, `https://example.com/${key}`, Buffer.alloc(bytes), 10, { cacheKey: key });
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'ogframe-eviction-'));
+  process.env.CACHE_DIR = dir;
+  process.env.CACHE_MAX_SIZE = '100B';
+  cache = await import('../../src/services/cache.js');
+  await cache.initCache();
+});
+
+afterAll(async () => {
+  await cache.closeCache();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('cache size limit', () => {
+  it('evicts least recently used entries to fit a new one, and deletes their files', async () => {
+    const a = await save('a', 40);
+    const b = await save('b', 40);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.getFromCache('https://example.com/a', 'a');  // a is now more recent than b
+
+    await save('c', 40);
+
+    expect(cache.getCacheEntry('https://example.com/b', 'b')).toBeNull();
+    expect(cache.getCacheEntry('https://example.com/a', 'a')).not.toBeNull();
+    expect(existsSync(a.filePath)).toBe(true);
+    expect(existsSync(b.filePath)).toBe(false);
+
+    const stats = cache.getCacheStats();
+    expect(stats.totalEntries).toBe(2);
+    expect(stats.evictions.total).toBe(1);
+    expect(stats.evictions.freed).toBe('40.00 B');
+  });
+
+  it('keeps pinned entries and the entry being saved', async () => {
+    await cache.purgeCache();
+    await save('pinned', 60);
+    await cache.setCacheEntryPinned('pinned', true);
+
+    await save('big', 90);
+
+    expect(cache.getCacheEntry('https://example.com/pinned', 'pinned')?.pinned).toBe(true);
+    expect(cache.getCacheEntry('https://example.com/big', 'big')).not.toBeNull();
+  });
+
+  it('counts replaced entries once', async () => {
+    await cache.purgeCache();
+    await save('x', 60);
+    await save('x', 70);
+
+    expect(cache.getCacheStats().totalEntries).toBe(1);
+    expect(cache.getCacheStats().totalSize).toBe('70.00 B');
+  });
+});
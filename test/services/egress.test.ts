@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Readable } from 'stream';
+import type { BrowserContext } from 'playwright';
+import type { PinnedRequestOptions } from '../../src/utils/network.js';
+
+// Upstream responses by URL: body size in bytes
+const upstream = vi.hoisted(() => ({
+  sizes: new Map<string, number>(),
+  calls: [] as Array<{ url: string; options: PinnedRequestOptions }>
+}));
+
+vi.mock('../../src/utils/network.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../../src/utils/network.js')>(),
+  pinnedRequest: vi.fn(async (url: string, options: PinnedRequestOptions) => {
+    upstream.calls.push({ url, options });
+    const size = upstream.sizes.get(url) ?? 0;
+    const chunks = Array.from({ length: Math.ceil(size / 65536) }, (_, i) => Buffer.alloc(Math.min(65536, size - i * 65536)));
+    return Object.assign(Readable.from(chunks), {
+      statusCode: 200,
+      headers: { 'content-type': 'text/plain', 'content-length': String(size), 'set-cookie': ['a=1', 'b=2'], connection: 'close' }
+    });
+  })
+}));
+
+process.env.CAPTURE_MAX_MB = '1';
+const { confineContext } = await import('../../src/services/egress.js');
+
+interface FakeRoute {
+  url: string;
+  fulfilled: { status: number; headers: Record<string, string>; body: Buffer } | null;
+  aborted: string | null;
+}
+
+/**
+ * Just enough of a BrowserContext to drive the route handlers
+ */
+function fakeContext() {
+  let handler: ((route: unknown) => Promise<void>) | null = null;
+  let wsHandler: ((ws: unknown) => Promise<void>) | null = null;
+
+  const context = {
+    route: async (_pattern: string, fn: typeof handler) => { handler = fn; },
+    routeWebSocket: async (_pattern: unknown, fn: typeof wsHandler) => { wsHandler = fn; }
+  } as unknown as BrowserContext;
+
+  const request = async (url: string, navigation = false): Promise<FakeRoute> => {
+    const result: FakeRoute = { url, fulfilled: null, aborted: null };
+    await handler!({
+      request: () => ({
+        url: () => url,
+        method: () => 'GET',
+        allHeaders: async () => ({ ':authority': 'x', 'user-agent': 'test', 'accept-encoding': 'gzip', accept: '*/*' }),
+        postDataBuffer: () => null,
+        isNavigationRequest: () => navigation,
+        frame: () => ({ parentFrame: () => null })
+      }),
+      fulfill: async (response: FakeRoute['fulfilled']) => { result.fulfilled = response; },
+      abort: async (reason: string) => { result.aborted = reason; }
+    });
+    return result;
+  };
+
+  const webSocket = async (url: string) => {
+    const closed: Array<{ code?: number }> = [];
+    await wsHandler!({ url: () => url, close: async (options: { code?: number }) => { closed.push(options); } });
+    return closed;
+  };
+
+  return { context, request, webSocket };
+}
+
+const resolve = async (hostname: string) => ({
+  'example.com': ['93.184.216.34'],
+  'cdn.example.com': ['93.184.216.35'],
+  'internal.example.com': ['10.0.0.8']
+} as Record<string, string[]>)[hostname] ?? [];
+
+describe('confineContext', () => {
+  beforeEach(() => {
+    upstream.sizes.clear();
+    upstream.calls = [];
+  });
+
+  it('fetches allowed requests from the checked address', async () => {
+    const { context, request } = fakeContext();
+    await confineContext(context, 'https://example.com/', resolve);
+    upstream.sizes.set('https://cdn.example.com/app.js', 10);
+
+    const route = await request('https://cdn.example.com/app.js');
+
+    expect(upstream.calls[0].options).toMatchObject({ address: '93.184.216.35', method: 'GET' });
+    expect(upstream.calls[0].options.headers).toEqual({ 'user-agent': 'test', accept: '*/*' });
+    expect(route.fulfilled?.body).toHaveLength(10);
+    expect(route.fulfilled?.headers).toEqual({ 'content-type': 'text/plain', 'set-cookie': 'a=1\nb=2' });
+  });
+
+  it('aborts private destinations and remembers a blocked navigation', async () => {
+    const { context, request } = fakeContext();
+    const guard = await confineContext(context, 'https://example.com/', resolve);
+
+    expect((await request('https://internal.example.com/logo.png')).aborted).toBe('blockedbyclient');
+    expect(guard.blockedNavigation).toBeNull();
+
+    expect((await request('https://internal.example.com/', true)).aborted).toBe('blockedbyclient');
+    expect(guard.blockedNavigation?.code).toBe('BLOCKED_DESTINATION');
+    expect((await request('https://nowhere.example.com/')).aborted).toBe('blockedbyclient');
+    expect(upstream.calls).toHaveLength(0);
+  });
+
+  it('caps the bytes one capture may fetch', async () => {
+    const { context, request } = fakeContext();
+    await confineContext(context, 'https://example.com/', resolve);
+    for (const name of ['a', 'b', 'c']) upstream.sizes.set(`https://example.com/${name}.jpg`, 400 * 1024);
+
+    const first = await request('https://example.com/a.jpg');
+    const second = await request('https://example.com/b.jpg');
+    const third = await request('https://example.com/c.jpg');
+    const fourth = await request('https://example.com/a.jpg');
+
+    expect(first.fulfilled).not.toBeNull();
+    expect(second.fulfilled).not.toBeNull();
+    expect(third.aborted).toBe('failed');
+    expect(fourth.aborted).toBe('failed');
+    expect(upstream.calls).toHaveLength(3);  // Nothing is fetched once the budget is spent
+  });
+
+  it('keeps budgets per context', async () => {
+    upstream.sizes.set('https://example.com/big.jpg', 900 * 1024);
+
+    for (let i = 0; i < 2; i++) {
+      const { context, request } = fakeContext();
+      await confineContext(context, 'https://example.com/', resolve);
+      expect((await request('https://example.com/big.jpg')).fulfilled).not.toBeNull();
+    }
+  });
+
+  it('refuses WebSockets', async () => {
+    const { context, webSocket } = fakeContext();
+    await confineContext(context, 'https://example.com/', resolve);
+
+    expect(await webSocket('wss://example.com/live')).toEqual([{ code: 1008, reason: 'WebSockets are not available while capturing' }]);
+  });
+});
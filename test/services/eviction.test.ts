@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { EvictionQueue, getEntryBytes, selectForEviction, type EvictionPolicy } from '../../src/services/eviction.js';
+import type { CacheEntry } from '../../src/types.js';
+
+function entry(cacheKey: string, lastAccessed: string, accessCount: number, overrides: Partial<CacheEntry> = {}): CacheEntry {
+  return {
+    url: `https://example.com/${cacheKey}`,
+    normalizedUrl: `https://example.com/${cacheKey}`,
+    cacheKey,
+    filePath: `${cacheKey}.png`,
+    size: 100,
+    width: 1200,
+    height: 630,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastAccessed: `2024-01-${lastAccessed}T00:00:00.000Z`,
+    accessCount,
+    generationTime: 1000,
+    ...overrides
+  };
+}
+
+const keys = (entries: CacheEntry[]) => entries.map(e => e.cacheKey);
+
+function queue(entries: CacheEntry[], policy: EvictionPolicy): EvictionQueue {
+  const queue = new EvictionQueue(policy);
+  for (const entry of entries) queue.update(entry);
+  return queue;
+}
+
+describe('getEntryBytes', () => {
+  it('counts the master and every variant', () => {
+    expect(getEntryBytes(entry('a', '01', 0))).toBe(100);
+    expect(getEntryBytes(entry('a', '01', 0, {
+      variants: {
+        'webp-q80': { filePath: 'a.webp', size: 40, quality: 80, createdAt: '2024-01-01T00:00:00.000Z' },
+        'avif-q80': { filePath: 'a.avif', size: 30, quality: 80, createdAt: '2024-01-01T00:00:00.000Z' }
+      }
+    }))).toBe(170);
+  });
+});
+
+describe('selectForEviction', () => {
+  const entries = [
+    entry('recent-rare', '05', 1),
+    entry('old-popular', '01', 50),
+    entry('middle', '03', 5),
+    entry('old-rare', '02', 1)
+  ];
+
+  it('selects nothing when everything fits', () => {
+    expect(selectForEviction(queue(entries, 'lru'), 0, 0)).toEqual([]);
+    expect(selectForEviction(queue(entries, 'lru'), -500, -1)).toEqual([]);
+  });
+
+  it('evicts least recently used first under lru', () => {
+    expect(keys(selectForEviction(queue(entries, 'lru'), 150, 0))).toEqual(['old-popular', 'old-rare']);
+  });
+
+  it('evicts least frequently used first under lfu, by recency on ties', () => {
+    expect(keys(selectForEviction(queue(entries, 'lfu'), 150, 0))).toEqual(['old-rare', 'recent-rare']);
+  });
+
+  it('frees enough entries and bytes, whichever needs more', () => {
+    expect(selectForEviction(queue(entries, 'lru'), 1, 3)).toHaveLength(3);
+    expect(selectForEviction(queue(entries, 'lru'), 250, 1)).toHaveLength(3);
+  });
+
+  it('never evicts pinned or protected entries', () => {
+    const withPinned = [...entries, entry('pinned', '01', 0, { pinned: true })];
+    const selected = selectForEviction(queue(withPinned, 'lru'), 10_000, 0, new Set(['old-rare']));
+    expect(keys(selected)).toEqual(['old-popular', 'middle', 'recent-rare']);
+  });
+});
+
+describe('EvictionQueue', () => {
+  it('moves entries when they are accessed and drops removed ones', () => {
+    const entries = [entry('a', '01', 1), entry('b', '02', 1), entry('c', '03', 1)];
+    const lru = queue(entries, 'lru');
+
+    entries[0].lastAccessed = '2024-01-04T00:00:00.000Z';
+    lru.update(entries[0]);
+    lru.remove('b');
+
+    expect(keys([...lru.entries()])).toEqual(['c', 'a']);
+  });
+
+  it('orders by access count under lfu', () => {
+    const entries = [entry('a', '01', 1), entry('b', '02', 2)];
+    const lfu = queue(entries, 'lfu');
+
+    entries[0].accessCount = 3;
+    lfu.update(entries[0]);
+
+    expect(keys([...lfu.entries()])).toEqual(['b', 'a']);
+  });
+});
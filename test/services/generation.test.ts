@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ApiKey, CacheEntry } from '../../src/types.js';
+import { RateLimitError } from '../../src/types.js';
+import { claimGeneration, generateImage, isGenerating, refreshImage, serveImage, type GenerationRequest } from '../../src/services/generation.js';
+import { checkRateLimit, resetRateLimit } from '../../src/services/rateLimit.js';
+import { getKeyUsage } from '../../src/services/usage.js';
+
+// Saving is the cache's job; here it only has to hand back an entry
+vi.mock('../../src/services/cache.js', () => ({
+  saveToCache: vi.fn(async (url: string, normalizedUrl: string, png: Buffer, generationTime: number, options: { cacheKey: string }) => ({
+    cacheKey: options.cacheKey,
+    url,
+    normalizedUrl,
+    size: png.length,
+    generationTime
+  } as unknown as CacheEntry))
+}));
+
+const publicKey: ApiKey = {
+  keyId: 'pk_live_generation',
+  type: 'public',
+  name: 'Site',
+  allowedDomains: ['example.com'],
+  rateLimit: { requests: 10, generations: 1 },
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+function request(cacheKey: string, generate: GenerationRequest['generate']): GenerationRequest {
+  return {
+    mode: 'screenshot',
+    url: 'https://example.com/',
+    normalizedUrl: 'https://example.com/',
+    cacheKey,
+    size: { name: 'og', width: 1200, height: 630 },
+    ttl: 0,
+    keyId: publicKey.keyId,
+    hostname: 'example.com',
+    generate
+  };
+}
+
+function serve(req: GenerationRequest, apiKey: ApiKey = publicKey) {
+  return serveImage(req, apiKey, null, 'unknown');
+}
+
+describe('generation coalescing', () => {
+  afterEach(async () => {
+    await resetRateLimit(':');
+  });
+
+  it('generates once for concurrent requests and charges only the leader', async () => {
+    const generate = vi.fn(async () => ({ png: Buffer.from('png') }));
+    const before = getKeyUsage(publicKey.keyId, 'daily').generations;
+
+    // With a generation limit of 1, a second charge would be rejected
+    const [first, second] = await Promise.all([serve(request('k1', generate)), serve(request('k1', generate))]);
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(first.leader).toBe(true);
+    expect(second.leader).toBe(false);
+    expect(second.image).toBe(first.image);
+    expect(getKeyUsage(publicKey.keyId, 'daily').generations).toBe(before + 1);
+    expect(isGenerating('k1')).toBe(false);
+  });
+
+  it('releases the claim when the leader is rate limited', async () => {
+    await checkRateLimit(publicKey, null, 'unknown', false);  // Use up the generation limit
+    const generate = vi.fn(async () => ({ png: Buffer.from('png') }));
+
+    const leader = serve(request('k2', generate));
+    const follower = claimGeneration(request('k2', generate));
+
+    await expect(leader).rejects.toBeInstanceOf(RateLimitError);
+    expect(await follower.wait()).toBeNull();
+    expect(generate).not.toHaveBeenCalled();
+    expect(isGenerating('k2')).toBe(false);
+  });
+
+  it('lets a follower generate when the leader is turned away, and charges it', async () => {
+    const otherKey: ApiKey = { ...publicKey, keyId: 'pk_live_other' };
+    await checkRateLimit(publicKey, null, 'unknown', false);  // Use up the leader's generation limit
+    const generate = vi.fn(async () => ({ png: Buffer.from('png') }));
+    const before = getKeyUsage(otherKey.keyId, 'daily').generations;
+
+    const [leader, follower] = await Promise.allSettled([
+      serve(request('k6', generate)),
+      serve({ ...request('k6', generate), keyId: otherKey.keyId }, otherKey)
+    ]);
+
+    expect(leader.status).toBe('rejected');
+    expect(follower).toMatchObject({ status: 'fulfilled', value: { leader: true } });
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(getKeyUsage(otherKey.keyId, 'daily').generations).toBe(before + 1);
+    await expect(checkRateLimit(otherKey, null, 'unknown', false)).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('joins a request generation from generateImage', async () => {
+    const generate = vi.fn(async () => ({ png: Buffer.from('png') }));
+
+    const [served, warmed] = await Promise.all([
+      serve(request('k3', generate)),
+      generateImage(request('k3', generate))
+    ]);
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(warmed.shared).toBe(true);
+    expect(warmed.value).toBe(served.image);
+  });
+});
+
+describe('refreshImage', () => {
+  afterEach(async () => {
+    await resetRateLimit(':');
+  });
+
+  it('charges the refresh to the key and runs it once', async () => {
+    const generate = vi.fn(async () => ({ png: Buffer.from('png') }));
+    const before = getKeyUsage(publicKey.keyId, 'daily').generations;
+
+    const [first, second] = await Promise.all([
+      refreshImage(request('k4', generate), publicKey, null, 'unknown'),
+      refreshImage(request('k4', generate), publicKey, null, 'unknown')
+    ]);
+
+    expect([first, second]).toEqual([true, false]);
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(getKeyUsage(publicKey.keyId, 'daily').generations).toBe(before + 1);
+
+    // The generation limit of 1 is used up
+    await expect(checkRateLimit(publicKey, null, 'unknown', false)).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('skips the refresh once the key is out of generations', async () => {
+    await checkRateLimit(publicKey, null, 'unknown', false);
+    const generate = vi.fn(async () => ({ png: Buffer.from('png') }));
+
+    expect(await refreshImage(request('k5', generate), publicKey, null, 'unknown')).toBe(false);
+    expect(generate).not.toHaveBeenCalled();
+    expect(isGenerating('k5')).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ApiKey, KeyConfig } from '../../src/types.js';
+import { OGFrameError } from '../../src/types.js';
+import { hashKey } from '../../src/utils/crypto.js';
+
+const DAY = 24 * 3600 * 1000;
+
+const publicKey: ApiKey = {
+  keyId: 'pk_test_rotate',
+  type: 'public',
+  name: 'Blog',
+  allowedDomains: ['example.com'],
+  rateLimit: { requests: 1000, generations: 10 },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  expiresAt: null
+};
+
+const adminKey = {
+  keyHash: hashKey('ak_test_admin'),
+  type: 'admin',
+  name: 'Ops',
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+let dir: string;
+let keysFile: string;
+let auth: typeof import('../../src/services/auth.js');
+let keys: typeof import('../../src/services/keys.js');
+
+function writeKeys(config: KeyConfig): void {
+  writeFileSync(keysFile, JSON.stringify(config));
+  auth.initAuth();
+}
+
+function readKeys(): KeyConfig {
+  return JSON.parse(readFileSync(keysFile, 'utf-8')) as KeyConfig;
+}
+
+function storedKey(keyId: string): ApiKey {
+  return readKeys().keys.find(k => k.type === 'public' && (k as ApiKey).keyId === keyId) as ApiKey;
+}
+
+function expectError(fn: () => unknown, code: string): void {
+  let error: unknown;
+  try {
+    fn();
+  } catch (e) {
+    error = e;
+  }
+  expect(error).toBeInstanceOf(OGFrameError);
+  expect((error as OGFrameError).code).toBe(code);
+}
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'ogframe-keys-'));
+  keysFile = join(dir, 'keys.json');
+  process.env.API_KEYS_FILE = keysFile;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  auth = await import('../../src/services/auth.js');
+  keys = await import('../../src/services/keys.js');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  writeKeys({ keys: [structuredClone(publicKey), structuredClone(adminKey) as KeyConfig['keys'][number]] });
+});
+
+describe('createPublicKey', () => {
+  it('writes the key and makes it usable immediately', () => {
+    const { key, signingSecret } = keys.createPublicKey({
+      name: 'Docs',
+      allowedDomains: ['docs.example.com'],
+      rateLimit: { generations: 5 }
+    });
+
+    expect(key.keyId).toMatch(/^pk_live_/);
+    expect(key.rateLimit).toEqual({ requests: 1000, generations: 5 });
+    expect(signingSecret).toBeUndefined();
+    expect(storedKey(key.keyId).name).toBe('Docs');
+    expect(auth.validateApiKey(key.keyId)?.name).toBe('Docs');
+    expect(existsSync(`${keysFile}.tmp`)).toBe(false);
+  });
+
+  it('returns a signing secret once and never lists it', () => {
+    const { key, signingSecret } = keys.createPublicKey({ name: 'Signed', allowedDomains: ['example.com'], signature: 'required' });
+
+    expect(signingSecret).toBeTruthy();
+    expect(storedKey(key.keyId).signingSecret).toBe(signingSecret);
+    expect(key.hasSigningSecret).toBe(true);
+    expect(JSON.stringify(keys.listKeys())).not.toContain(signingSecret);
+  });
+
+  it('rejects unknown fields and invalid keys without writing', () => {
+    const before = readFileSync(keysFile, 'utf-8');
+
+    expectError(() => keys.createPublicKey({ name: 'X', allowedDomains: ['example.com'], keyId: 'pk_live_mine' }), 'INVALID_PARAMS');
+    expectError(() => keys.createPublicKey({ name: 'X', allowedDomains: ['not a domain'] }), 'INVALID_PARAMS');
+    expect(readFileSync(keysFile, 'utf-8')).toBe(before);
+  });
+});
+
+describe('createAdminKey', () => {
+  it('stores only the hash of the new key', () => {
+    const { key, apiKey } = keys.createAdminKey({ name: 'CI' });
+
+    expect(apiKey).toMatch(/^ak_live_/);
+    expect(readFileSync(keysFile, 'utf-8')).not.toContain(apiKey);
+    expect(readKeys().keys.some(k => k.type === 'admin' && 'keyHash' in k && k.keyHash === hashKey(apiKey))).toBe(true);
+    expect(key.keyHash).toBe(`${hashKey(apiKey).slice(0, 16)}...`);
+  });
+
+  it('rejects public key fields', () => {
+    expectError(() => keys.createAdminKey({ name: 'CI', allowedDomains: ['*'] }), 'INVALID_PARAMS');
+  });
+});
+
+describe('updatePublicKey', () => {
+  it('merges rate limits and removes fields set to null', () => {
+    keys.updatePublicKey(publicKey.keyId, { rateLimit: { generations: 20 }, cacheTtl: 3600 });
+    keys.updatePublicKey(publicKey.keyId, { cacheTtl: null });
+
+    const stored = storedKey(publicKey.keyId);
+    expect(stored.rateLimit).toEqual({ requests: 1000, generations: 20 });
+    expect(stored.cacheTtl).toBeUndefined();
+  });
+
+  it('rejects unknown keys and revoked keys', () => {
+    expectError(() => keys.updatePublicKey('pk_test_missing', { name: 'X' }), 'NOT_FOUND');
+
+    keys.revokePublicKey(publicKey.keyId);
+    expectError(() => keys.updatePublicKey(publicKey.keyId, { name: 'X' }), 'KEY_REVOKED');
+  });
+});
+
+describe('rotatePublicKey', () => {
+  it('revokes the old key without a grace period', () => {
+    const { key, previous } = keys.rotatePublicKey(publicKey.keyId);
+
+    expect(key.keyId).not.toBe(publicKey.keyId);
+    expect(key.allowedDomains).toEqual(publicKey.allowedDomains);
+    expect(previous.status).toBe('revoked');
+    expectError(() => auth.validateApiKey(publicKey.keyId), 'KEY_REVOKED');
+    expect(auth.validateApiKey(key.keyId)?.keyId).toBe(key.keyId);
+  });
+
+  it('keeps the old key valid for the grace period', () => {
+    const before = Date.now();
+    const { previous } = keys.rotatePublicKey(publicKey.keyId, 3600);
+
+    const expiresAt = new Date(previous.expiresAt!).getTime();
+    expect(expiresAt).toBeGreaterThanOrEqual(before + 3600 * 1000);
+    expect(expiresAt).toBeLessThanOrEqual(Date.now() + 3600 * 1000);
+    expect(auth.validateApiKey(publicKey.keyId)?.keyId).toBe(publicKey.keyId);
+  });
+
+  it('never extends the old key past its own expiry', () => {
+    const expiresAt = new Date(Date.now() + DAY).toISOString();
+    keys.updatePublicKey(publicKey.keyId, { expiresAt });
+
+    const { key, previous } = keys.rotatePublicKey(publicKey.keyId, 7 * 24 * 3600);
+
+    expect(previous.expiresAt).toBe(expiresAt);
+    expect(key.expiresAt).toBe(expiresAt);  // Rotation does not reset the expiry policy
+  });
+
+  it('issues a new signing secret for signed keys', () => {
+    keys.updatePublicKey(publicKey.keyId, { signature: 'required' });
+    const oldSecret = storedKey(publicKey.keyId).signingSecret;
+
+    const { key, signingSecret } = keys.rotatePublicKey(publicKey.keyId);
+
+    expect(signingSecret).toBeTruthy();
+    expect(signingSecret).not.toBe(oldSecret);
+    expect(storedKey(key.keyId).signingSecret).toBe(signingSecret);
+  });
+
+  it('rejects revoked keys', () => {
+    keys.revokePublicKey(publicKey.keyId);
+    expectError(() => keys.rotatePublicKey(publicKey.keyId), 'KEY_REVOKED');
+  });
+});
+
+describe('revokePublicKey', () => {
+  it('keeps the key in the file and rejects it with KEY_REVOKED', () => {
+    const revoked = keys.revokePublicKey(publicKey.keyId);
+
+    expect(revoked.status).toBe('revoked');
+    expect(storedKey(publicKey.keyId).revokedAt).toBe(revoked.revokedAt);
+    expectError(() => auth.validateApiKey(publicKey.keyId), 'KEY_REVOKED');
+
+    // Revoking again keeps the original time
+    expect(keys.revokePublicKey(publicKey.keyId).revokedAt).toBe(revoked.revokedAt);
+  });
+});
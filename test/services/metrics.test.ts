@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { recordGeneration, recordImage, recordRateLimitRejection, recordRequest, renderMetrics } from '../../src/services/metrics.js';
+
+// Collected at scrape time from the cache and the browser pool
+vi.mock('../../src/services/cache.js', () => ({
+  getCacheCounters: () => ({ hits: 7, misses: 3, evictions: 1, evictedBytes: 2048, entries: 42, bytes: 1e6 })
+}));
+vi.mock('../../src/services/browserPool.js', () => ({
+  browserPool: { getStats: () => ({ size: 4, busy: 3, queued: 2, recycled: 5, crashed: 1 }) }
+}));
+
+describe('renderMetrics', () => {
+  it('renders recorded and collected metrics', () => {
+    recordRequest('/api/image', 200, 'pk_live_site');
+    recordRequest('/api/image', 200, 'pk_live_site');
+    recordImage('HIT', 'webp', 30e3);
+    recordGeneration('screenshot', 1500);
+    recordRateLimitRejection('gen');
+
+    const text = renderMetrics();
+
+    expect(text).toContain('ogframe_http_requests_total{route="/api/image",status="200",key="pk_live_site"} 2\n');
+    expect(text).toContain('ogframe_image_responses_total{cache_status="HIT",format="webp"} 1\n');
+    expect(text).toContain('ogframe_image_size_bytes_bucket{format="webp",le="50000"} 1\n');
+    expect(text).toContain('ogframe_generation_duration_seconds_bucket{mode="screenshot",le="1"} 0\n');
+    expect(text).toContain('ogframe_generation_duration_seconds_bucket{mode="screenshot",le="2"} 1\n');
+    expect(text).toContain('ogframe_generation_duration_seconds_sum{mode="screenshot"} 1.5\n');
+    expect(text).toContain('ogframe_rate_limit_rejections_total{tier="gen"} 1\n');
+    expect(text).toContain('ogframe_cache_hits_total 7\n');
+    expect(text).toContain('ogframe_cache_size_bytes 1000000\n');
+    expect(text).toContain('ogframe_browser_slots{state="busy"} 3\n');
+    expect(text).toContain('ogframe_browser_slots{state="idle"} 1\n');
+    expect(text).toContain('ogframe_browser_queue_depth 2\n');
+  });
+
+  it('declares a type for every metric', () => {
+    const text = renderMetrics();
+    const helps = text.match(/^# HELP (\S+)/gm) ?? [];
+    const types = text.match(/^# TYPE (\S+) (counter|gauge|histogram)$/gm) ?? [];
+
+    expect(helps.length).toBeGreaterThan(10);
+    expect(types).toHaveLength(helps.length);
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkRateLimit, checkGenerationLimit, getRateLimitStatus, initRateLimit, resetRateLimit } from '../../src/services/rateLimit.js';
+import { RateLimitError } from '../../src/types.js';
+import type { ApiKey } from '../../src/types.js';
+import { hashKey } from '../../src/utils/crypto.js';
+import { logger } from '../../src/utils/logger.js';
+import config from '../../src/config.js';
+
+const ADMIN_SECRET = 'sk_live_0123456789abcdef';
+
+const adminKey: ApiKey = {
+  keyId: ADMIN_SECRET,
+  type: 'admin',
+  name: 'Ops',
+  allowedDomains: ['*'],
+  rateLimit: { requests: 2, generations: 1 },
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+const publicKey: ApiKey = {
+  keyId: 'pk_live_public',
+  type: 'public',
+  name: 'Site',
+  allowedDomains: ['example.com'],
+  rateLimit: { requests: 2, generations: 1 },
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('checkRateLimit', () => {
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await resetRateLimit(':');
+  });
+
+  it('counts requests and generations per key', async () => {
+    expect((await checkRateLimit(publicKey, null, 'unknown', false)).remaining).toBe(0);
+    await expect(checkRateLimit(publicKey, null, 'unknown', false)).rejects.toBeInstanceOf(RateLimitError);
+    expect((await getRateLimitStatus(publicKey)).remaining).toBe(0);  // Rejected generations still count as requests
+  });
+
+  it('charges a generation on its own without counting a request', async () => {
+    await checkRateLimit(publicKey, null, 'unknown', true);
+    await checkGenerationLimit(publicKey, null, 'unknown');
+
+    expect((await getRateLimitStatus(publicKey)).remaining).toBe(1);
+    await expect(checkRateLimit(publicKey, null, 'unknown', false)).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('keeps admin secrets out of store keys', async () => {
+    await checkRateLimit(adminKey, 'https://example.com/', '1.2.3.4', false);
+
+    expect(await resetRateLimit(ADMIN_SECRET)).toBe(0);
+    expect(await resetRateLimit(`admin:${hashKey(ADMIN_SECRET).slice(0, 16)}`)).toBe(2);
+  });
+
+  it('keeps admin secrets out of rejection logs and errors', async () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+
+    await checkRateLimit(adminKey, null, 'unknown', false);
+    const error = await checkRateLimit(adminKey, null, 'unknown', false).catch(error => error);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.message).not.toContain(ADMIN_SECRET);
+    expect(JSON.stringify(warn.mock.calls)).not.toContain(ADMIN_SECRET);
+    expect(warn).toHaveBeenCalledWith('Rate limit exceeded', expect.objectContaining({ key: expect.stringMatching(/^gen:admin:/) }));
+  });
+});
+
+describe('RATE_LIMIT_ALGORITHM', () => {
+  const original = config.rateLimitAlgorithm;
+  const burstKey: ApiKey = { ...publicKey, keyId: 'pk_live_burst', rateLimit: { requests: 2, generations: 2, burst: 4 } };
+
+  beforeEach(() => {
+    vi.spyOn(logger, 'info').mockImplementation(() => {});
+    vi.spyOn(logger, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    config.rateLimitAlgorithm = original;
+    initRateLimit();
+    vi.restoreAllMocks();
+  });
+
+  async function allowedRequests(apiKey: ApiKey, attempts: number): Promise<number> {
+    let allowed = 0;
+    for (let i = 0; i < attempts; i++) {
+      try {
+        await checkRateLimit(apiKey, null, 'unknown', true);
+        allowed++;
+      } catch (error) {
+        expect(error).toBeInstanceOf(RateLimitError);
+      }
+    }
+    return allowed;
+  }
+
+  it('uses a sliding window by default, ignoring burst', async () => {
+    initRateLimit();
+
+    expect(await allowedRequests(burstKey, 6)).toBe(2);
+  });
+
+  it('switches to token buckets sized by the key\'s burst', async () => {
+    config.rateLimitAlgorithm = 'token-bucket';
+    initRateLimit();
+
+    expect(logger.info).toHaveBeenCalledWith('Rate limit store initialized', { store: 'memory', algorithm: 'token-bucket' });
+    expect(await allowedRequests(burstKey, 6)).toBe(4);
+    expect(await allowedRequests(publicKey, 3)).toBe(2);  // No burst: capacity is the limit
+  });
+
+  it('falls back to a sliding window for unknown algorithms', async () => {
+    config.rateLimitAlgorithm = 'leaky-bucket';
+    initRateLimit();
+
+    expect(logger.warn).toHaveBeenCalledWith('Invalid RATE_LIMIT_ALGORITHM, using sliding-window', { value: 'leaky-bucket' });
+    expect(await allowedRequests(burstKey, 6)).toBe(2);
+  });
+});
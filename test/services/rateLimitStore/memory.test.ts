@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryRateLimitStore } from '../../../src/services/rateLimitStore/memory.js';
+import type { RateLimitRule } from '../../../src/types.js';
+
+const WINDOW: RateLimitRule = { algorithm: 'sliding-window', limit: 3, windowSeconds: 60 };
+const BUCKET: RateLimitRule = { algorithm: 'token-bucket', limit: 60, windowSeconds: 60, burst: 5 };
+
+describe('MemoryRateLimitStore', () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    vi.useRealTimers();
+  });
+
+  describe('sliding window', () => {
+    it('allows up to the limit within the window', async () => {
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await store.consume('key', WINDOW));
+        vi.advanceTimersByTime(1000);
+      }
+
+      expect(results.map(r => r.allowed)).toEqual([true, true, true, false]);
+      expect(results.map(r => r.remaining)).toEqual([2, 1, 0, 0]);
+      expect(results[3].retryAfter).toBe(57);  // Until the first hit leaves the window
+    });
+
+    it('slides instead of resetting at a fixed boundary', async () => {
+      await store.consume('key', WINDOW);
+      vi.advanceTimersByTime(30000);
+      await store.consume('key', WINDOW);
+      await store.consume('key', WINDOW);
+
+      vi.advanceTimersByTime(30000);  // Only the first hit has left
+      expect((await store.consume('key', WINDOW)).allowed).toBe(true);
+      expect((await store.consume('key', WINDOW)).allowed).toBe(false);
+    });
+
+    it('counts the cost and peeks with cost 0', async () => {
+      expect((await store.consume('key', WINDOW, 2)).remaining).toBe(1);
+      expect((await store.consume('key', WINDOW, 2)).allowed).toBe(false);
+
+      const peek = await store.consume('key', WINDOW, 0);
+      expect(peek.allowed).toBe(true);
+      expect(peek.remaining).toBe(1);
+    });
+  });
+
+  describe('token bucket', () => {
+    it('allows a burst, then refills at the rate', async () => {
+      const burst = [];
+      for (let i = 0; i < 6; i++) burst.push(await store.consume('key', BUCKET));
+
+      expect(burst.map(r => r.allowed)).toEqual([true, true, true, true, true, false]);
+      expect(burst[4].remaining).toBe(0);
+      expect(burst[5].limit).toBe(5);
+      expect(burst[5].retryAfter).toBe(1);
+
+      vi.advanceTimersByTime(1000);  // One token per second
+      expect((await store.consume('key', BUCKET)).allowed).toBe(true);
+      expect((await store.consume('key', BUCKET)).allowed).toBe(false);
+    });
+
+    it('refills up to the capacity only', async () => {
+      await store.consume('key', BUCKET);
+      vi.advanceTimersByTime(3600 * 1000);
+
+      expect((await store.consume('key', BUCKET)).remaining).toBe(4);
+    });
+
+    it('keeps fractional tokens between requests', async () => {
+      for (let i = 0; i < 5; i++) await store.consume('key', BUCKET);
+
+      vi.advanceTimersByTime(500);
+      expect((await store.consume('key', BUCKET)).allowed).toBe(false);
+      vi.advanceTimersByTime(500);
+      expect((await store.consume('key', BUCKET)).allowed).toBe(true);
+    });
+
+    it('uses the limit as capacity without a burst', async () => {
+      const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 2, windowSeconds: 60 };
+      const results = [];
+      for (let i = 0; i < 3; i++) results.push(await store.consume('key', rule));
+
+      expect(results.map(r => r.allowed)).toEqual([true, true, false]);
+      expect(results[2].retryAfter).toBe(30);
+    });
+  });
+
+  it('starts over when a key switches algorithm', async () => {
+    for (let i = 0; i < 3; i++) await store.consume('key', WINDOW);
+    expect((await store.consume('key', WINDOW)).allowed).toBe(false);
+
+    expect((await store.consume('key', BUCKET)).remaining).toBe(4);
+  });
+
+  it('drops idle state', async () => {
+    await store.consume('window', WINDOW);
+    await store.consume('bucket', BUCKET);
+
+    vi.advanceTimersByTime(120000);
+    expect(await store.reset('')).toBe(0);
+  });
+
+  it('resets matching keys', async () => {
+    await store.consume('pk_a:1.2.3.4', WINDOW);
+    await store.consume('pk_a:5.6.7.8', BUCKET);
+    await store.consume('pk_b:1.2.3.4', WINDOW);
+
+    expect(await store.reset('pk_a')).toBe(2);
+    expect((await store.consume('pk_b:1.2.3.4', WINDOW)).remaining).toBe(1);
+  });
+});
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RedisRateLimitStore } from '../../../src/services/rateLimitStore/redis.js';
+import type { RateLimitRule } from '../../../src/types.js';
+import { FakeRedis } from '../../helpers/fakeRedis.js';
+
+const WINDOW: RateLimitRule = { algorithm: 'sliding-window', limit: 3, windowSeconds: 60 };
+const BUCKET: RateLimitRule = { algorithm: 'token-bucket', limit: 60, windowSeconds: 60, burst: 5 };
+
+describe('RedisRateLimitStore', () => {
+  let server: FakeRedis;
+  let store: RedisRateLimitStore;
+
+  beforeEach(async () => {
+    server = await new FakeRedis().start();
+    store = new RedisRateLimitStore({ url: server.url, reconnectDelay: 50 }, 'test:');
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await server.stop();
+  });
+
+  describe('sliding window', () => {
+    it('allows up to the limit within the window', async () => {
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await store.consume('key', WINDOW));
+        server.now += 1000;
+      }
+
+      expect(results.map(r => r.allowed)).toEqual([true, true, true, false]);
+      expect(results.map(r => r.remaining)).toEqual([2, 1, 0, 0]);
+      expect(results[3].retryAfter).toBe(57);  // Until the first hit leaves the window
+      expect(server.zsets.get('test:key')?.size).toBe(3);
+      expect(server.ttls.get('test:key')).toBe(59000);  // Until the newest hit leaves it
+    });
+
+    it('allows again once old hits leave the window', async () => {
+      for (let i = 0; i < 3; i++) await store.consume('key', WINDOW);
+      expect((await store.consume('key', WINDOW)).allowed).toBe(false);
+
+      server.now += 60000;
+      const result = await store.consume('key', WINDOW);
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(2);
+    });
+
+    it('counts the cost and peeks with cost 0', async () => {
+      expect((await store.consume('key', WINDOW, 2)).remaining).toBe(1);
+      expect((await store.consume('key', WINDOW, 2)).allowed).toBe(false);
+
+      const peek = await store.consume('key', WINDOW, 0);
+      expect(peek.allowed).toBe(true);
+      expect(peek.remaining).toBe(1);
+      expect(server.zsets.get('test:key')?.size).toBe(2);
+    });
+
+    it('keeps keys apart', async () => {
+      for (let i = 0; i < 3; i++) await store.consume('a', WINDOW);
+      expect((await store.consume('a', WINDOW)).allowed).toBe(false);
+      expect((await store.consume('b', WINDOW)).allowed).toBe(true);
+    });
+  });
+
+  describe('token bucket', () => {
+    it('allows a burst, then refills at the rate', async () => {
+      const burst = [];
+      for (let i = 0; i < 6; i++) burst.push(await store.consume('key', BUCKET));
+
+      expect(burst.map(r => r.allowed)).toEqual([true, true, true, true, true, false]);
+      expect(burst[4].remaining).toBe(0);
+      expect(burst[5].limit).toBe(5);
+      expect(burst[5].retryAfter).toBe(1);
+
+      server.now += 1000;  // One token per second
+      expect((await store.consume('key', BUCKET)).allowed).toBe(true);
+      expect((await store.consume('key', BUCKET)).allowed).toBe(false);
+    });
+
+    it('refills up to the capacity only', async () => {
+      await store.consume('key', BUCKET);
+      server.now += 3600 * 1000;
+
+      const result = await store.consume('key', BUCKET);
+      expect(result.remaining).toBe(4);
+      expect(server.hashes.get('test:key')?.get('ts')).toBe(String(server.now));
+    });
+
+    it('keeps fractional tokens between requests', async () => {
+      for (let i = 0; i < 5; i++) await store.consume('key', BUCKET);
+
+      server.now += 500;
+      expect((await store.consume('key', BUCKET)).allowed).toBe(false);
+      server.now += 500;
+      expect((await store.consume('key', BUCKET)).allowed).toBe(true);
+    });
+  });
+
+  describe('scripts', () => {
+    it('loads scripts with EVAL once, then runs them by SHA', async () => {
+      await store.consume('key', WINDOW);
+      await store.consume('key', WINDOW);
+      await store.consume('key', BUCKET);
+
+      expect(server.commands()).toEqual(['EVALSHA', 'EVAL', 'EVALSHA', 'EVALSHA', 'EVAL']);
+    });
+
+    it('reloads scripts after the server loses them', async () => {
+      await store.consume('key', WINDOW);
+      server.scripts.clear();  // SCRIPT FLUSH or a restarted server
+
+      const result = await store.consume('key', WINDOW);
+      expect(result.remaining).toBe(1);
+      expect(server.commands().slice(-2)).toEqual(['EVALSHA', 'EVAL']);
+    });
+  });
+
+  describe('when Redis is down', () => {
+    it('falls back to local limits and recovers', async () => {
+      await store.consume('key', WINDOW);
+      const port = server.port;
+      await server.stop();
+
+      // Local limits start from zero
+      const local = [];
+      for (let i = 0; i < 4; i++) local.push(await store.consume('key', WINDOW));
+      expect(local.map(r => r.allowed)).toEqual([true, true, true, false]);
+      expect(store.isHealthy()).toBe(false);
+
+      server = await new FakeRedis().start(port);
+      await new Promise(resolve => setTimeout(resolve, 60));
+
+      const result = await store.consume('key', WINDOW);
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(2);
+      expect(store.isHealthy()).toBe(true);
+    });
+
+    it('falls back when a command times out', async () => {
+      await store.close();
+      store = new RedisRateLimitStore({ url: server.url, commandTimeout: 50 }, 'test:');
+      server.hang = true;
+
+      const result = await store.consume('key', WINDOW);
+      expect(result.allowed).toBe(true);
+      expect(store.isHealthy()).toBe(false);
+      server.hang = false;
+    });
+  });
+
+  it('resets matching keys in Redis and locally', async () => {
+    await store.consume('pk_a:1.2.3.4', WINDOW);
+    await store.consume('pk_a:5.6.7.8', BUCKET);
+    await store.consume('pk_b:1.2.3.4', WINDOW);
+
+    expect(await store.reset('pk_a')).toBe(2);
+    expect([...server.zsets.keys(), ...server.hashes.keys()]).toEqual(['test:pk_b:1.2.3.4']);
+    expect((await store.consume('pk_a:1.2.3.4', WINDOW)).remaining).toBe(2);
+  });
+});
@@ -0,0 +1,152 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const HOUR = 3600 * 1000;
+const NOON = new Date('2024-06-01T12:00:00.000Z').getTime();
+const NOW = NOON + 10 * 60 * 1000;  // 12:10
+
+const dir = mkdtempSync(join(tmpdir(), 'ogframe-stats-'));
+process.env.CACHE_DIR = dir;
+
+let stats: typeof import('../../src/services/stats.js');
+let logger: typeof import('../../src/utils/logger.js').logger;
+
+function at(time: number): void {
+  vi.setSystemTime(time);
+}
+
+function record(event: 'hit' | 'miss' | 'generation', times: number, keyId = 'pk_a', hostname: string | null = 'example.com'): void {
+  for (let i = 0; i < times; i++) {
+    stats.recordUsage(event, keyId, hostname);
+  }
+}
+
+async function reload(): Promise<void> {
+  vi.resetModules();
+  stats = await import('../../src/services/stats.js');
+  logger = (await import('../../src/utils/logger.js')).logger;
+  vi.spyOn(logger, 'info').mockImplementation(() => {});
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'], now: NOW });
+  rmSync(join(dir, 'stats.json'), { force: true });
+
+  // Buckets live in module state; start each test from an empty module
+  await reload();
+});
+
+afterEach(() => {
+  stats.closeStats();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('getTimeseries', () => {
+  it('returns the last 24 hours, with empty hours as zeros', () => {
+    at(NOON - 2 * HOUR + 5000);
+    record('hit', 3);
+    record('miss', 1);
+    record('generation', 1);
+    at(NOON + 30 * 60 * 1000);
+    record('miss', 2);
+
+    const series = stats.getTimeseries();
+
+    expect(series).toHaveLength(25);  // 12:00 yesterday through the current hour
+    expect(series[0].start).toBe('2024-05-31T12:00:00.000Z');
+    expect(series[22]).toEqual({ start: '2024-06-01T10:00:00.000Z', hits: 3, misses: 1, generations: 1, hitRate: 0.75 });
+    expect(series[23]).toEqual({ start: '2024-06-01T11:00:00.000Z', hits: 0, misses: 0, generations: 0, hitRate: 0 });
+    expect(series[24]).toEqual({ start: '2024-06-01T12:00:00.000Z', hits: 0, misses: 2, generations: 0, hitRate: 0 });
+  });
+
+  it('filters by key and by domain, including subdomains', () => {
+    record('hit', 1, 'pk_a', 'example.com');
+    record('hit', 2, 'pk_a', 'blog.example.com');
+    record('hit', 4, 'pk_b', 'example.com');
+    record('hit', 8, 'pk_b', 'notexample.com');
+    record('hit', 16, 'admin', null);
+
+    const total = (query: Parameters<typeof stats.getTimeseries>[0]) =>
+      stats.getTimeseries(query).reduce((sum, bucket) => sum + bucket.hits, 0);
+
+    expect(total({})).toBe(31);
+    expect(total({ keyId: 'pk_a' })).toBe(3);
+    expect(total({ domain: 'example.com' })).toBe(7);
+    expect(total({ domain: 'EXAMPLE.com', keyId: 'pk_b' })).toBe(4);
+    expect(total({ domain: 'blog.example.com' })).toBe(2);
+  });
+
+  it('limits ranges to the past and to the retention period', () => {
+    const since = new Date(NOON - 3 * HOUR - 1000);
+    expect(stats.getTimeseries({ since, until: new Date(NOON - HOUR) }).map(b => b.start)).toEqual([
+      '2024-06-01T08:00:00.000Z',
+      '2024-06-01T09:00:00.000Z',
+      '2024-06-01T10:00:00.000Z'
+    ]);
+
+    expect(stats.getTimeseries({ since: new Date(NOW - HOUR), until: new Date(NOW + 10 * HOUR) })).toHaveLength(2);
+    expect(stats.getTimeseries({ since: new Date(0) })).toHaveLength(24 * 31 + 1);
+  });
+});
+
+describe('getHitRates', () => {
+  it('weights the oldest bucket by its overlap with the window', () => {
+    at(NOON - 2 * HOUR);
+    record('hit', 4);           // 10:00-11:00
+    at(NOON - HOUR);
+    record('miss', 4);          // 11:00-12:00
+    at(NOON - HOUR / 2);        // 11:30: the last hour is half of the 10:00 bucket plus 11:00-11:30
+
+    expect(stats.getHitRates().last1h).toBeCloseTo(2 / 6);
+    expect(stats.getHitRates().last24h).toBe(0.5);
+    expect(stats.getHitRates().last7d).toBe(0.5);
+  });
+
+  it('is zero without traffic', () => {
+    expect(stats.getHitRates()).toEqual({ last1h: 0, last24h: 0, last7d: 0 });
+  });
+});
+
+describe('persistence', () => {
+  it('writes buckets on close and loads them on start', async () => {
+    stats.initStats();
+    record('hit', 2);
+    stats.closeStats();
+
+    const saved = JSON.parse(readFileSync(join(dir, 'stats.json'), 'utf-8'));
+    expect(saved.buckets).toEqual([{ start: NOON, counts: { 'pk_a example.com': { hits: 2, misses: 0, generations: 0 } } }]);
+
+    await reload();
+    stats.initStats();
+    expect(stats.getTimeseries({ keyId: 'pk_a' }).at(-1)?.hits).toBe(2);
+  });
+
+  it('drops buckets past retention when loading', async () => {
+    const old = NOON - 40 * 24 * HOUR;
+    writeFileSync(join(dir, 'stats.json'), JSON.stringify({
+      buckets: [
+        { start: NOON - HOUR, counts: { 'pk_a example.com': { hits: 1, misses: 0, generations: 0 } } },
+        { start: old, counts: { 'pk_a example.com': { hits: 9, misses: 0, generations: 0 } } }
+      ]
+    }));
+
+    stats.initStats();
+    expect(logger.info).toHaveBeenCalledWith('Usage stats loaded', { buckets: 1 });
+  });
+
+  it('starts empty from a corrupt file', () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    writeFileSync(join(dir, 'stats.json'), '{"buckets": [');
+
+    stats.initStats();
+    expect(warn).toHaveBeenCalledWith('Failed to load usage stats, starting empty', expect.anything());
+    expect(stats.getHitRates().last7d).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCacheBackend } from '../../../src/services/storage/file.js';
+
+describe('FileCacheBackend images', () => {
+  let dir: string;
+  let backend: FileCacheBackend;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'ogframe-file-'));
+    backend = new FileCacheBackend(dir);
+    await backend.init();
+  });
+
+  afterEach(async () => {
+    await backend.flush();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes images under a subdirectory per key prefix and reads them back', async () => {
+    const location = await backend.writeImage('abcdef', Buffer.from('png'), 'png');
+
+    expect(location).toBe(join(dir, 'images', 'ab', 'abcdef.png'));
+    expect(await backend.readImage(location)).toEqual(Buffer.from('png'));
+  });
+
+  it('deletes images, and treats missing ones as gone', async () => {
+    const location = await backend.writeImage('abcdef', Buffer.from('webp'), 'webp');
+
+    await backend.deleteImage(location);
+    expect(existsSync(location)).toBe(false);
+    expect(await backend.readImage(location)).toBeNull();
+    await expect(backend.deleteImage(location)).resolves.toBeUndefined();
+  });
+});
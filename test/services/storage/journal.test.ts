@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MetadataJournal } from '../../../src/services/storage/journal.js';
+import type { CacheEntry } from '../../../src/types.js';
+
+function entry(cacheKey: string, overrides: Partial<CacheEntry> = {}): CacheEntry {
+  return {
+    url: `https://example.com/${cacheKey}`,
+    normalizedUrl: `https://example.com/${cacheKey}`,
+    cacheKey,
+    filePath: `images/${cacheKey}.png`,
+    size: 100,
+    width: 1200,
+    height: 630,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastAccessed: '2024-01-01T00:00:00.000Z',
+    accessCount: 0,
+    generationTime: 1000,
+    ...overrides
+  };
+}
+
+describe('MetadataJournal', () => {
+  let dir: string;
+  let journalFile: string;
+  let legacyFile: string;
+  const open: MetadataJournal[] = [];
+
+  const openJournal = () => {
+    const journal = new MetadataJournal(journalFile, legacyFile);
+    open.push(journal);
+    return { journal, entries: journal.open() };
+  };
+
+  const lines = () => readFileSync(journalFile, 'utf-8').split('\n').filter(Boolean);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ogframe-journal-'));
+    journalFile = join(dir, 'metadata.jsonl');
+    legacyFile = join(dir, 'metadata.json');
+  });
+
+  afterEach(async () => {
+    for (const journal of open.splice(0)) await journal.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('starts an empty journal', () => {
+    expect(openJournal().entries).toEqual({});
+    expect(existsSync(journalFile)).toBe(true);
+  });
+
+  it('replays puts, touches and deletes', async () => {
+    const { journal } = openJournal();
+    journal.put(entry('a'));
+    journal.put(entry('b'));
+    journal.touch(entry('a', { accessCount: 3, lastAccessed: '2024-02-01T00:00:00.000Z' }));
+    journal.delete('b');
+    await journal.close();
+
+    const { entries } = openJournal();
+    expect(Object.keys(entries)).toEqual(['a']);
+    expect(entries.a.accessCount).toBe(3);
+    expect(entries.a.lastAccessed).toBe('2024-02-01T00:00:00.000Z');
+  });
+
+  it('batches touches until flushed', async () => {
+    const { journal } = openJournal();
+    journal.put(entry('a'));
+    for (let i = 1; i <= 5; i++) journal.touch(entry('a', { accessCount: i }));
+    await journal.flush();
+
+    expect(lines().map(line => JSON.parse(line).op)).toEqual(['put', 'touch']);
+    expect(JSON.parse(lines()[1]).accessCount).toBe(5);
+  });
+
+  it('drops pending touches of replaced and deleted entries', async () => {
+    const { journal } = openJournal();
+    journal.put(entry('a'));
+    journal.put(entry('b'));
+    journal.touch(entry('a', { accessCount: 9 }));
+    journal.touch(entry('b', { accessCount: 9 }));
+    journal.put(entry('a', { accessCount: 1 }));
+    journal.delete('b');
+    await journal.close();
+
+    expect(lines().map(line => JSON.parse(line).op)).toEqual(['put', 'put', 'put', 'del']);
+    expect(openJournal().entries.a.accessCount).toBe(1);
+  });
+
+  it('skips a torn last line and rewrites the journal', async () => {
+    const { journal } = openJournal();
+    journal.put(entry('a'));
+    journal.put(entry('b'));
+    await journal.close();
+    appendFileSync(journalFile, '{"op":"put","entry":{"cacheKey":"c"');
+
+    const { entries } = openJournal();
+    expect(Object.keys(entries).sort()).toEqual(['a', 'b']);
+    expect(lines()).toHaveLength(2);
+    expect(() => lines().forEach(line => JSON.parse(line))).not.toThrow();
+  });
+
+  it('compacts once dead records dominate', async () => {
+    const { journal } = openJournal();
+    for (let i = 0; i < 1000; i++) journal.put(entry('a', { accessCount: i }));
+    journal.put(entry('b'));
+    await journal.flush();
+
+    expect(lines()).toHaveLength(2);
+    expect(openJournal().entries.a.accessCount).toBe(999);
+  });
+
+  it('leaves small journals alone', async () => {
+    const { journal } = openJournal();
+    for (let i = 0; i < 10; i++) journal.put(entry('a', { accessCount: i }));
+    await journal.flush();
+
+    expect(lines()).toHaveLength(10);
+  });
+
+  it('migrates a legacy metadata.json once', () => {
+    writeFileSync(legacyFile, JSON.stringify({ a: entry('a'), b: entry('b') }));
+
+    const { entries } = openJournal();
+    expect(Object.keys(entries).sort()).toEqual(['a', 'b']);
+    expect(existsSync(legacyFile)).toBe(false);
+    expect(existsSync(`${legacyFile}.migrated`)).toBe(true);
+    expect(lines()).toHaveLength(2);
+
+    // The journal wins from now on, even if metadata.json comes back
+    writeFileSync(legacyFile, JSON.stringify({ c: entry('c') }));
+    expect(Object.keys(openJournal().entries).sort()).toEqual(['a', 'b']);
+  });
+
+  it('starts empty from an unreadable legacy metadata.json', () => {
+    writeFileSync(legacyFile, '{not json');
+
+    expect(openJournal().entries).toEqual({});
+    expect(existsSync(`${legacyFile}.migrated`)).toBe(true);
+  });
+});
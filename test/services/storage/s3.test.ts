@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { S3CacheBackend } from '../../../src/services/storage/s3.js';
+import { S3Error } from '../../../src/utils/s3.js';
+import type { CacheEntry } from '../../../src/types.js';
+import { FakeS3 } from '../../helpers/fakeS3.js';
+
+function entry(cacheKey: string, overrides: Partial<CacheEntry> = {}): CacheEntry {
+  return {
+    url: `https://example.com/${cacheKey}`,
+    normalizedUrl: `https://example.com/${cacheKey}`,
+    cacheKey,
+    filePath: `cache/images/${cacheKey.slice(0, 2)}/${cacheKey}.png`,
+    size: 3,
+    width: 1200,
+    height: 630,
+    createdAt: '2024-01-02T03:04:05.000Z',
+    lastAccessed: '2024-01-02T03:04:05.000Z',
+    accessCount: 0,
+    generationTime: 1500,
+    ...overrides
+  };
+}
+
+describe('S3CacheBackend', () => {
+  let server: FakeS3;
+  let backend: S3CacheBackend;
+
+  const createBackend = (bucket = server.bucket) => new S3CacheBackend({
+    endpoint: server.endpoint,
+    region: server.region,
+    bucket,
+    accessKey: server.accessKey,
+    secretKey: server.secretKey,
+    forcePathStyle: true
+  }, 'cache');
+
+  beforeEach(async () => {
+    server = await new FakeS3().start();
+    backend = createBackend();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('checks the bucket on init', async () => {
+    await expect(backend.init()).resolves.toBeUndefined();
+    await expect(createBackend('missing').init()).rejects.toBeInstanceOf(S3Error);
+  });
+
+  it('stores images under the prefix, sharded by cache key', async () => {
+    const location = await backend.writeImage('abc123', Buffer.from('png'), 'png');
+    await backend.writeImage('abc123-q80', Buffer.from('webp'), 'webp');
+
+    expect(location).toBe('cache/images/ab/abc123.png');
+    expect(server.objects.get(location)?.contentType).toBe('image/png');
+    expect(server.objects.get('cache/images/ab/abc123-q80.webp')?.contentType).toBe('image/webp');
+    expect(await backend.readImage(location)).toEqual(Buffer.from('png'));
+  });
+
+  it('treats missing images and entries as cache misses', async () => {
+    expect(await backend.readImage('cache/images/ab/missing.png')).toBeNull();
+    expect(await backend.getEntry('missing')).toBeNull();
+  });
+
+  it('saves, reads and deletes entries', async () => {
+    await backend.saveEntry(entry('abc123'));
+
+    expect(server.objects.get('cache/entries/abc123.json')?.contentType).toBe('application/json');
+    expect(await backend.getEntry('abc123')).toEqual(entry('abc123'));
+
+    await backend.deleteEntry('abc123');
+    await backend.deleteImage('cache/images/ab/abc123.png');
+    expect(await backend.getEntry('abc123')).toBeNull();
+  });
+
+  it('loads every entry across listing pages and skips unreadable ones', async () => {
+    server.pageSize = 2;
+    for (const key of ['k1', 'k2', 'k3', 'k4', 'k5']) {
+      await backend.saveEntry(entry(key));
+    }
+    server.objects.set('cache/entries/broken.json', { body: Buffer.from('{not json'), contentType: 'application/json' });
+    server.objects.set('cache/images/k1/k1.png', { body: Buffer.from('png'), contentType: 'image/png' });
+
+    const metadata = await backend.loadMetadata();
+
+    expect(Object.keys(metadata).sort()).toEqual(['k1', 'k2', 'k3', 'k4', 'k5']);
+    expect(metadata.k3).toEqual(entry('k3'));
+    expect(server.requests.filter(r => r.query['list-type'] === '2')).toHaveLength(3);
+  });
+
+  it('batches access stats until flushed', async () => {
+    await backend.saveEntry(entry('abc123'));
+    await backend.touchEntry(entry('abc123', { accessCount: 1 }));
+    await backend.touchEntry(entry('abc123', { accessCount: 2 }));
+
+    expect((await backend.getEntry('abc123'))?.accessCount).toBe(0);
+
+    const puts = server.requests.filter(r => r.method === 'PUT').length;
+    await backend.flush();
+    expect(server.requests.filter(r => r.method === 'PUT')).toHaveLength(puts + 1);
+    expect((await backend.getEntry('abc123'))?.accessCount).toBe(2);
+  });
+
+  it('drops pending access stats of saved and deleted entries', async () => {
+    await backend.touchEntry(entry('saved', { accessCount: 5 }));
+    await backend.saveEntry(entry('saved', { accessCount: 7 }));
+    await backend.touchEntry(entry('deleted', { accessCount: 1 }));
+    await backend.deleteEntry('deleted');
+
+    await backend.flush();
+    expect((await backend.getEntry('saved'))?.accessCount).toBe(7);
+    expect(await backend.getEntry('deleted')).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ApiKey } from '../../src/types.js';
+import { buildTemplateHtml, validateTemplateRequest } from '../../src/services/template.js';
+
+// Rendering needs a browser; only the HTML is checked here
+vi.mock('../../src/services/screenshot.js', () => ({ renderHtml: vi.fn() }));
+
+const templateKey: ApiKey = {
+  keyId: 'pk_live_template',
+  type: 'public',
+  name: 'Site',
+  allowedDomains: ['example.com'],
+  rateLimit: { requests: 10, generations: 1 },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  template: { templates: ['default', 'minimal'] }
+};
+
+function validate(params: { template?: string; title?: string; description?: string }, apiKey: ApiKey = templateKey) {
+  return validateTemplateRequest(apiKey, params);
+}
+
+describe('validateTemplateRequest', () => {
+  it('normalizes and returns the request', () => {
+    expect(validate({ title: '  Hello   world  ', description: 'Café' })).toEqual({
+      template: 'default',
+      title: 'Hello world',
+      description: 'Café'
+    });
+    // NFC: e + combining acute counts as one character
+    expect(validate({ title: 'Cafe\u0301' }).title).toBe('Caf\u00e9');
+  });
+
+  it('requires template mode and an allowed template', () => {
+    const { template: _, ...plainKey } = templateKey;
+    expect(() => validate({ title: 'Hi' }, plainKey)).toThrow(expect.objectContaining({ code: 'TEMPLATE_NOT_ALLOWED' }));
+    expect(() => validate({ title: 'Hi', template: 'hero' })).toThrow(expect.objectContaining({ code: 'INVALID_TEMPLATE' }));
+    expect(() => validate({ title: 'Hi', template: 'split' })).toThrow(expect.objectContaining({ code: 'TEMPLATE_NOT_ALLOWED' }));
+  });
+
+  it('requires a non-empty title', () => {
+    expect(() => validate({})).toThrow(/Missing required parameter: title/);
+    expect(() => validate({ title: '   ' })).toThrow(/title is empty/);
+  });
+
+  it('limits title to 100 and description to 200 characters', () => {
+    expect(validate({ title: 'a'.repeat(100), description: 'b'.repeat(200) }).title).toHaveLength(100);
+    expect(() => validate({ title: 'a'.repeat(101) })).toThrow(/title too long \(max 100 characters\)/);
+    expect(() => validate({ title: 'Hi', description: 'b'.repeat(201) })).toThrow(/description too long \(max 200 characters\)/);
+  });
+
+  it('counts characters, not UTF-16 code units', () => {
+    expect(validate({ title: '𝔸'.repeat(100) }).title).toBe('𝔸'.repeat(100));
+  });
+
+  it('allows letters, numbers, punctuation and symbols in any script', () => {
+    expect(validate({ title: 'Привет, 世界! 50% off — €9.99 + tax (2 < 3)' }).title)
+      .toBe('Привет, 世界! 50% off — €9.99 + tax (2 < 3)');
+  });
+
+  it('rejects newlines, tabs, control characters and emoji', () => {
+    for (const title of ['Line\nbreak', 'Tab\there', 'Null\u0000', 'Bidi\u202eoverride', 'Rocket 🚀', 'Zero\u200bwidth']) {
+      expect(() => validate({ title }), title).toThrow(/title contains unsupported characters/);
+    }
+    expect(() => validate({ title: 'Hi', description: 'Party 🎉' })).toThrow(/description contains unsupported characters/);
+  });
+});
+
+describe('buildTemplateHtml', () => {
+  it('escapes text and falls back to default branding', () => {
+    const html = buildTemplateHtml(
+      { ...templateKey, template: { brandColor: 'red;}</style><script>', logoUrl: 'javascript:alert(1)' } },
+      { template: 'default', title: '<b>"Hi"</b>', description: "It's & more" }
+    );
+
+    expect(html).toContain('&lt;b&gt;&quot;Hi&quot;&lt;/b&gt;');
+    expect(html).toContain('It&#39;s &amp; more');
+    expect(html).toContain('background: #2563eb');
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('javascript:');
+  });
+
+  it('uses the key branding', () => {
+    const html = buildTemplateHtml(
+      { ...templateKey, template: { brandColor: '#ff0000', logoUrl: 'https://example.com/logo.png?a=1&b=2', font: 'mono' } },
+      { template: 'split', title: 'Hi' }
+    );
+
+    expect(html).toContain('background: #ff0000');
+    expect(html).toContain('src="https://example.com/logo.png?a=1&amp;b=2"');
+    expect(html).toContain('monospace');
+  });
+});
@@ -0,0 +1,187 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ApiKey, KeyConfig, QuotaExceededError } from '../../src/types.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'ogframe-usage-'));
+process.env.CACHE_DIR = dir;
+
+let usage: typeof import('../../src/services/usage.js');
+let logger: typeof import('../../src/utils/logger.js').logger;
+
+function key(keyId: string, quota?: ApiKey['quota']): ApiKey {
+  return {
+    keyId,
+    type: 'public',
+    name: keyId,
+    allowedDomains: ['example.com'],
+    rateLimit: { requests: 1000, generations: 100 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    ...(quota && { quota })
+  };
+}
+
+function quotaError(apiKey: ApiKey, isGeneration: boolean): QuotaExceededError | null {
+  try {
+    usage.checkQuota(apiKey, isGeneration);
+    return null;
+  } catch (error) {
+    return error as QuotaExceededError;
+  }
+}
+
+async function reload(): Promise<void> {
+  vi.resetModules();
+  usage = await import('../../src/services/usage.js');
+  logger = (await import('../../src/utils/logger.js')).logger;
+  vi.spyOn(logger, 'info').mockImplementation(() => {});
+  vi.spyOn(logger, 'warn').mockImplementation(() => {});
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'], now: new Date('2024-06-30T23:00:00.000Z') });
+  rmSync(join(dir, 'usage.json'), { force: true });
+
+  // Counters live in module state; start each test from an empty module
+  await reload();
+});
+
+afterEach(() => {
+  usage.closeUsage();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('counters', () => {
+  it('counts requests, hits, bytes and generations by UTC day and month', () => {
+    usage.countRequest('pk_a', true, 100);
+    usage.countRequest('pk_a', false, 250);
+    usage.countGeneration('pk_a');
+
+    const expected = { requests: 2, hits: 1, generations: 1, bytesServed: 350 };
+    expect(usage.getKeyUsage('pk_a', 'daily')).toEqual(expected);
+    expect(usage.getKeyUsage('pk_a', 'monthly')).toEqual(expected);
+    expect(usage.getKeyUsage('pk_b', 'daily')).toEqual({ requests: 0, hits: 0, generations: 0, bytesServed: 0 });
+  });
+
+  it('starts new periods at midnight and on the 1st, UTC', () => {
+    usage.countRequest('pk_a', false, 0);
+    vi.setSystemTime(new Date('2024-07-01T00:30:00.000Z'));
+    usage.countRequest('pk_a', false, 0);
+
+    expect(usage.getKeyUsage('pk_a', 'daily').requests).toBe(1);
+    expect(usage.getKeyUsage('pk_a', 'monthly').requests).toBe(1);
+    expect(usage.getKeyUsage('pk_a', 'daily', '2024-06-30').requests).toBe(1);
+    expect(usage.getKeyUsage('pk_a', 'monthly', '2024-06').requests).toBe(1);
+  });
+
+  it('keeps 62 days of daily counters', () => {
+    for (let day = 0; day < 70; day++) {
+      vi.setSystemTime(new Date(Date.UTC(2024, 0, 1 + day)));
+      usage.countRequest('pk_a', false, 0);
+    }
+    usage.closeUsage();
+
+    const saved = JSON.parse(readFileSync(join(dir, 'usage.json'), 'utf-8'));
+    const days = Object.keys(saved.keys.pk_a.daily);
+    expect(days).toHaveLength(62);
+    expect(days[0]).toBe('2024-01-09');
+    expect(Object.keys(saved.keys.pk_a.monthly)).toEqual(['2024-01', '2024-02', '2024-03']);
+  });
+});
+
+describe('checkQuota', () => {
+  it('does nothing for keys without quotas', () => {
+    for (let i = 0; i < 5; i++) usage.countRequest('pk_a', false, 0);
+    expect(quotaError(key('pk_a'), true)).toBeNull();
+  });
+
+  it('rejects once the daily request quota is used up', () => {
+    const apiKey = key('pk_a', { daily: { requests: 2 } });
+    usage.countRequest('pk_a', true, 0);
+    expect(quotaError(apiKey, false)).toBeNull();
+    usage.countRequest('pk_a', true, 0);
+
+    const error = quotaError(apiKey, false)!;
+    expect(error.code).toBe('QUOTA_EXCEEDED');
+    expect(error.message).toBe('Daily requests quota exceeded');
+    expect(error.statusCode).toBe(429);
+    expect(error.details).toEqual({ period: 'daily', limit: 2, used: 2, resetsAt: '2024-07-01T00:00:00.000Z' });
+    expect(error.retryAfter).toBe(3600);
+  });
+
+  it('only checks generations on a cache miss', () => {
+    const apiKey = key('pk_a', { monthly: { generations: 1 } });
+    usage.countGeneration('pk_a');
+
+    expect(quotaError(apiKey, false)).toBeNull();
+    const error = quotaError(apiKey, true)!;
+    expect(error.message).toBe('Monthly generations quota exceeded');
+    expect(error.resetAt.toISOString()).toBe('2024-07-01T00:00:00.000Z');
+  });
+
+  it('frees the quota when the period ends', () => {
+    const apiKey = key('pk_a', { daily: { requests: 1 }, monthly: { requests: 10 } });
+    usage.countRequest('pk_a', false, 0);
+    expect(quotaError(apiKey, false)?.period).toBe('daily');
+
+    vi.setSystemTime(new Date('2024-07-01T00:00:00.000Z'));
+    expect(quotaError(apiKey, false)).toBeNull();
+  });
+});
+
+describe('persistence', () => {
+  it('writes counters on close and loads them on start', async () => {
+    usage.initUsage();
+    usage.countRequest('pk_a', true, 10);
+    usage.closeUsage();
+
+    await reload();
+    usage.initUsage();
+    expect(usage.getKeyUsage('pk_a', 'daily').bytesServed).toBe(10);
+  });
+
+  it('starts empty from a corrupt file', () => {
+    writeFileSync(join(dir, 'usage.json'), '{"keys": {');
+
+    usage.initUsage();
+    expect(logger.warn).toHaveBeenCalledWith('Failed to load usage counters, starting empty', expect.anything());
+    expect(usage.getKeyUsage('pk_a', 'daily').requests).toBe(0);
+  });
+});
+
+describe('buildUsageReport', () => {
+  it('lists configured keys, removed keys and admin usage, busiest first', () => {
+    const data = {
+      keys: {
+        pk_busy: { daily: { '2024-06-30': { requests: 50, hits: 10, generations: 40, bytesServed: 1000 } }, monthly: {} },
+        pk_removed: { daily: { '2024-06-30': { requests: 80, hits: 80, generations: 0, bytesServed: 500 } }, monthly: {} },
+        admin: { daily: { '2024-06-29': { requests: 5, hits: 0, generations: 5, bytesServed: 0 } }, monthly: {} }
+      }
+    };
+    const keyConfig = {
+      keys: [key('pk_busy', { daily: { requests: 100 } }), key('pk_idle'), { keyHash: 'x', type: 'admin', name: 'Ops', createdAt: '' }]
+    } as KeyConfig;
+
+    const rows = usage.buildUsageReport(data, keyConfig, 'daily', '2024-06-30');
+
+    expect(rows.map(row => row.keyId)).toEqual(['pk_busy', 'pk_removed', 'pk_idle', 'admin']);
+    expect(rows[0]).toEqual({
+      keyId: 'pk_busy',
+      name: 'pk_busy',
+      requests: 50,
+      hits: 10,
+      generations: 40,
+      bytesServed: 1000,
+      quota: { requests: 100 }
+    });
+    expect(rows[1].name).toBeNull();
+    expect(rows[2]).toMatchObject({ requests: 0, generations: 0, quota: null });
+    expect(rows[3]).toMatchObject({ name: 'Admin keys', requests: 0 });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { formatBytes, parseBytes } from '../../src/utils/bytes.js';
+
+describe('parseBytes', () => {
+  it('parses sizes with binary units', () => {
+    expect(parseBytes('10GB')).toBe(10 * 1024 ** 3);
+    expect(parseBytes('500 MB')).toBe(500 * 1024 ** 2);
+    expect(parseBytes('1.5gb')).toBe(1.5 * 1024 ** 3);
+    expect(parseBytes(' 2048 ')).toBe(2048);
+    expect(parseBytes('1TB')).toBe(1024 ** 4);
+  });
+
+  it('rejects anything else', () => {
+    for (const value of ['', 'GB', '-1GB', '10 GiB', '1,5GB', '10GB extra']) {
+      expect(parseBytes(value)).toBeNull();
+    }
+  });
+});
+
+describe('formatBytes', () => {
+  it('formats with the largest fitting unit', () => {
+    expect(formatBytes(0)).toBe('0 B');
+    expect(formatBytes(512)).toBe('512.00 B');
+    expect(formatBytes(1536)).toBe('1.50 KB');
+    expect(formatBytes(10 * 1024 ** 3)).toBe('10.00 GB');
+    expect(formatBytes(2 * 1024 ** 5)).toBe('2048.00 TB');
+  });
+});
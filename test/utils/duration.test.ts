@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { parseAgeOrDate, parseDuration, parseIsoDate } from '../../src/utils/duration.js';
+
+const NOW = Date.parse('2026-06-15T12:00:00.000Z');
+
+describe('parseDuration', () => {
+  it('parses seconds, minutes, hours and days', () => {
+    expect(parseDuration('90s')).toBe(90);
+    expect(parseDuration('30m')).toBe(1800);
+    expect(parseDuration('24h')).toBe(86400);
+    expect(parseDuration(' 7d ')).toBe(604800);
+  });
+
+  it('requires a unit', () => {
+    expect(parseDuration('3600')).toBeNull();
+    expect(parseDuration('2027')).toBeNull();
+  });
+
+  it('rejects anything else', () => {
+    for (const value of ['', 'd', '1.5h', '-1d', '1w', '10 d', '1d2h']) {
+      expect(parseDuration(value)).toBeNull();
+    }
+  });
+});
+
+describe('parseIsoDate', () => {
+  it('parses years, days and timestamps', () => {
+    expect(parseIsoDate('2026')?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(parseIsoDate('2026-01-31')?.toISOString()).toBe('2026-01-31T00:00:00.000Z');
+    expect(parseIsoDate('2026-01-31T12:00Z')?.toISOString()).toBe('2026-01-31T12:00:00.000Z');
+  });
+
+  it('rejects dates JavaScript would guess at', () => {
+    for (const value of ['', 'tomorrow', 'June 5', '5/6/2026', '20260131', '2026-13-01', '2026-01-31Tnoon']) {
+      expect(parseIsoDate(value)).toBeNull();
+    }
+  });
+});
+
+describe('parseAgeOrDate', () => {
+  it('counts durations back from now', () => {
+    expect(parseAgeOrDate('30d', NOW)?.toISOString()).toBe('2026-05-16T12:00:00.000Z');
+    expect(parseAgeOrDate('12h', NOW)?.toISOString()).toBe('2026-06-15T00:00:00.000Z');
+    expect(parseAgeOrDate('60s', NOW)?.toISOString()).toBe('2026-06-15T11:59:00.000Z');
+  });
+
+  it('reads bare numbers as years, never as seconds', () => {
+    expect(parseAgeOrDate('2024', NOW)?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(parseAgeOrDate('86400', NOW)).toBeNull();
+    expect(parseAgeOrDate('0', NOW)).toBeNull();
+  });
+
+  it('accepts ISO dates and rejects the rest', () => {
+    expect(parseAgeOrDate('2026-01-31T12:00Z', NOW)?.toISOString()).toBe('2026-01-31T12:00:00.000Z');
+    expect(parseAgeOrDate('last week', NOW)).toBeNull();
+  });
+});
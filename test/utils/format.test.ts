@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { getVariantName, negotiateFormat, resolveOutputFormat } from '../../src/utils/format.js';
+import { OGFrameError } from '../../src/types.js';
+import type { ImageFormat } from '../../src/types.js';
+import { testKey } from '../helpers/apiKey.js';
+
+const ALL: ImageFormat[] = ['png', 'webp', 'avif', 'jpeg'];
+
+describe('negotiateFormat', () => {
+  it('serves PNG to crawlers and clients without an Accept header', () => {
+    expect(negotiateFormat(undefined, ALL)).toBe('png');
+    expect(negotiateFormat('*/*', ALL)).toBe('png');
+    expect(negotiateFormat('image/*', ALL)).toBe('png');
+    expect(negotiateFormat('text/html', ALL)).toBe('png');
+  });
+
+  it('picks AVIF or WebP only when named explicitly', () => {
+    expect(negotiateFormat('image/avif,image/webp,image/*,*/*;q=0.8', ALL)).toBe('avif');
+    expect(negotiateFormat('image/webp,*/*;q=0.8', ALL)).toBe('webp');
+  });
+
+  it('follows q-values and skips formats the key does not allow', () => {
+    expect(negotiateFormat('image/avif;q=0.5,image/webp;q=0.9', ALL)).toBe('webp');
+    expect(negotiateFormat('image/avif;q=0,image/png', ALL)).toBe('png');
+    expect(negotiateFormat('image/avif,image/webp', ['png', 'webp'])).toBe('webp');
+    expect(negotiateFormat('image/avif', ['png'])).toBe('png');
+  });
+
+  it('falls back to JPEG only when PNG is not acceptable', () => {
+    expect(negotiateFormat('image/jpeg', ALL)).toBe('jpeg');
+    expect(negotiateFormat('image/jpeg,image/*', ALL)).toBe('png');
+    expect(negotiateFormat('image/jpeg,image/png;q=0', ['png'])).toBe('png');
+  });
+});
+
+describe('resolveOutputFormat', () => {
+  it('uses format= over Accept, with the key quality', () => {
+    expect(resolveOutputFormat(testKey({ quality: 60 }), 'jpg', 'image/avif')).toEqual({
+      output: { format: 'jpeg', quality: 60 },
+      negotiated: false
+    });
+  });
+
+  it('negotiates without format=', () => {
+    expect(resolveOutputFormat(testKey(), undefined, 'image/webp')).toEqual({
+      output: { format: 'webp', quality: 80 },
+      negotiated: true
+    });
+  });
+
+  it('clamps quality to 1-100', () => {
+    expect(resolveOutputFormat(testKey({ quality: 0 }), 'webp', undefined).output.quality).toBe(1);
+    expect(resolveOutputFormat(testKey({ quality: 250 }), 'webp', undefined).output.quality).toBe(100);
+  });
+
+  it('rejects unknown and disallowed formats, but always allows PNG', () => {
+    const unknown = (() => { try { resolveOutputFormat(testKey(), 'gif', undefined); } catch (e) { return e; } })();
+    expect(unknown).toBeInstanceOf(OGFrameError);
+    expect((unknown as OGFrameError).code).toBe('INVALID_FORMAT');
+
+    const restricted = testKey({ formats: ['webp'] });
+    expect(() => resolveOutputFormat(restricted, 'avif', undefined)).toThrow('not allowed');
+    expect(resolveOutputFormat(restricted, 'png', undefined).output.format).toBe('png');
+  });
+});
+
+describe('getVariantName', () => {
+  it('keeps qualities apart', () => {
+    expect(getVariantName({ format: 'webp', quality: 80 })).toBe('webp-q80');
+    expect(getVariantName({ format: 'webp', quality: 60 })).not.toBe(getVariantName({ format: 'webp', quality: 80 }));
+  });
+});
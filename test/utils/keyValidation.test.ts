@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { lintKeyConfig, validateKeyConfig } from '../../src/utils/keyValidation.js';
+import { OGFrameError } from '../../src/types.js';
+
+function publicKey(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    keyId: 'pk_test_one',
+    type: 'public',
+    name: 'Site',
+    allowedDomains: ['example.com', '*.example.com'],
+    rateLimit: { requests: 1000, generations: 10 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    expiresAt: null,
+    ...overrides
+  };
+}
+
+const adminKey = {
+  keyHash: 'a'.repeat(64),
+  type: 'admin',
+  name: 'Ops',
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+function problems(...keys: unknown[]): string[] {
+  return lintKeyConfig({ keys }).map(problem => problem.message);
+}
+
+describe('lintKeyConfig', () => {
+  it('accepts a valid config', () => {
+    expect(problems(publicKey(), adminKey)).toEqual([]);
+  });
+
+  it('requires a keys array', () => {
+    expect(lintKeyConfig(null)).toHaveLength(1);
+    expect(lintKeyConfig({ keys: {} })[0].message).toMatch(/"keys" array/);
+  });
+
+  it('reports at most one problem per key, for every key', () => {
+    const found = problems(
+      publicKey({ keyId: 'pk_a', allowedDomains: [] }),
+      publicKey({ keyId: 'pk_b', allowedDomains: ['https://example.com'], name: '' }),
+      publicKey({ keyId: 'pk_c' }),
+      { ...adminKey, keyHash: '' }
+    );
+
+    expect(found).toEqual([
+      'Invalid keys[0].allowedDomains: must be a non-empty array of domains',
+      'Invalid keys[1].name: required',
+      'Invalid keys[3].keyHash: required'
+    ]);
+  });
+
+  it('names malformed domain patterns', () => {
+    expect(problems(publicKey({ allowedDomains: ['example.com', 'example.com/blog'] }))[0])
+      .toMatch(/"example\.com\/blog" is not a domain pattern/);
+  });
+
+  it('rejects duplicate key IDs and admin hashes', () => {
+    expect(problems(publicKey(), publicKey())).toEqual(['Invalid keys[1].keyId: duplicate key ID']);
+    expect(problems(adminKey, adminKey)).toEqual(['Invalid keys[1].keyHash: duplicate admin key']);
+  });
+
+  it('rejects unknown key types and malformed fields', () => {
+    expect(problems({ ...adminKey, type: 'root' })[0]).toMatch(/type: must be "public" or "admin"/);
+    expect(problems(publicKey({ keyId: 'sk_live_x' }))[0]).toMatch(/keyId: must start with "pk_"/);
+    expect(problems(publicKey({ rateLimit: { requests: 0, generations: 10 } }))[0]).toMatch(/rateLimit\.requests/);
+    expect(problems(publicKey({ sizes: ['og', 'huge'] }))[0]).toMatch(/sizes/);
+    expect(problems(publicKey({ formats: ['gif'] }))[0]).toMatch(/formats/);
+    expect(problems(publicKey({ quality: 101 }))[0]).toMatch(/quality/);
+    expect(problems(publicKey({ quota: { weekly: { requests: 1 } } }))[0]).toMatch(/quota\.weekly/);
+    expect(problems(publicKey({ resources: { block: ['ads'] } }))[0]).toMatch(/resources\.block/);
+    expect(problems(publicKey({ ready: { strategy: 'selector' } }))[0]).toMatch(/ready\.selector: required/);
+    expect(problems(publicKey({ signingSecret: 'short' }))[0]).toMatch(/signingSecret/);
+    expect(problems(publicKey({ expiresAt: 'tomorrow' }))[0]).toMatch(/expiresAt: must be an ISO 8601 date/);
+  });
+
+  it('validates template settings', () => {
+    const template = { templates: ['default', 'split'], brandColor: '#2563EB', logoUrl: 'https://example.com/logo.png', font: 'serif' };
+    expect(problems(publicKey({ template }))).toEqual([]);
+    expect(problems(publicKey({ template: { brandColor: '#fff8' } }))).toEqual([]);
+
+    expect(problems(publicKey({ template: 'default' }))[0]).toMatch(/template: must be an object/);
+    expect(problems(publicKey({ template: { color: '#fff' } }))[0]).toMatch(/template\.color: must be templates, brandColor/);
+    expect(problems(publicKey({ template: { templates: ['default', 'hero'] } }))[0]).toMatch(/template\.templates: must be a subset/);
+    expect(problems(publicKey({ template: { brandColor: 'red' } }))[0]).toMatch(/template\.brandColor/);
+    expect(problems(publicKey({ template: { brandColor: '#2563eb;background:url(x)' } }))[0]).toMatch(/template\.brandColor/);
+    expect(problems(publicKey({ template: { brandColor: '#12345' } }))[0]).toMatch(/template\.brandColor/);
+    expect(problems(publicKey({ template: { logoUrl: 'javascript:alert(1)' } }))[0]).toMatch(/template\.logoUrl/);
+    expect(problems(publicKey({ template: { logoUrl: '/logo.png' } }))[0]).toMatch(/template\.logoUrl/);
+    expect(problems(publicKey({ template: { font: 'comic' } }))[0]).toMatch(/template\.font: must be one of sans, serif, mono, rounded/);
+  });
+});
+
+describe('validateKeyConfig', () => {
+  it('throws the first problem', () => {
+    expect(() => validateKeyConfig({ keys: [publicKey({ name: '' }), publicKey({ keyId: 'pk_b', allowedDomains: [] })] }))
+      .toThrow(new OGFrameError('INVALID_PARAMS', 'Invalid keys[0].name: required', 400));
+  });
+
+  it('returns valid configs unchanged', () => {
+    const config = { keys: [publicKey()] };
+    expect(validateKeyConfig(config)).toBe(config);
+  });
+});
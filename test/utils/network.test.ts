@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { checkDestination, isPrivateAddress, pinnedRequest, resolveHost } from '../../src/utils/network.js';
+import { OGFrameError } from '../../src/types.js';
+
+async function rejection(promise: Promise<unknown>): Promise<OGFrameError> {
+  const error = await promise.then(() => null, error => error);
+  if (!(error instanceof OGFrameError)) throw new Error(`Expected OGFrameError, got ${error}`);
+  return error;
+}
+
+const resolver = (records: Record<string, string[]>) => async (hostname: string) => {
+  if (!(hostname in records)) throw new Error('ENOTFOUND');
+  return records[hostname];
+};
+
+describe('isPrivateAddress', () => {
+  it('blocks private, loopback, link-local and reserved IPv4 ranges', () => {
+    for (const address of [
+      '0.0.0.0', '10.1.2.3', '100.64.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1',
+      '172.31.255.255', '192.0.0.8', '192.168.1.1', '198.18.0.1', '224.0.0.1', '255.255.255.255'
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('blocks documentation and benchmarking ranges', () => {
+    for (const address of [
+      '192.0.2.0', '192.0.2.255',         // TEST-NET-1
+      '198.51.100.1', '198.51.100.255',   // TEST-NET-2
+      '203.0.113.0', '203.0.113.42',      // TEST-NET-3
+      '198.18.0.0', '198.19.255.255',     // Benchmarking
+      '::ffff:203.0.113.1', '2001:db8::1', '2001:db8:ffff::1'
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('blocks private IPv6 ranges, including IPv4 addresses embedded in them', () => {
+    for (const address of [
+      '::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1',
+      '::ffff:127.0.0.1', '::ffff:10.0.0.1',
+      '64:ff9b::a9fe:a9fe', '64:ff9b::8.8.8.8', '64:ff9b:1::1',  // NAT64
+      '2002:7f00:1::', '2002:a9fe:a9fe::1',                      // 6to4
+      '2001:0:4136:e378:8000:63bf:3fff:fdd2', '2001::1',         // Teredo
+      'fec0::1', 'feff:ffff::1'                                  // Site-local
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of [
+      '8.8.8.8', '93.184.216.34', '172.32.0.1', '100.128.0.1', '192.0.3.1', '198.17.255.255',
+      '198.20.0.1', '198.51.101.1', '203.0.114.1', '2606:4700::1111', '::ffff:8.8.8.8', '2001:db9::1'
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it('does not treat host names as addresses', () => {
+    expect(isPrivateAddress('localhost')).toBe(false);
+  });
+});
+
+describe('resolveHost', () => {
+  it('returns IP literals without a lookup, brackets removed', async () => {
+    expect(await resolveHost('93.184.216.34')).toEqual(['93.184.216.34']);
+    expect(await resolveHost('[2606:4700::1111]')).toEqual(['2606:4700::1111']);
+  });
+});
+
+describe('checkDestination', () => {
+  it('returns the address to connect to', async () => {
+    const resolve = resolver({ 'example.com': ['93.184.216.34', '2606:2800::1'] });
+    expect(await checkDestination('https://example.com/page', resolve)).toBe('93.184.216.34');
+  });
+
+  it('rejects hosts with any private address', async () => {
+    const resolve = resolver({ 'mixed.test': ['93.184.216.34', '10.0.0.5'], 'rebind.test': ['127.0.0.1'] });
+
+    const mixed = await rejection(checkDestination('https://mixed.test/', resolve));
+    expect(mixed.code).toBe('BLOCKED_DESTINATION');
+    expect(mixed.statusCode).toBe(403);
+    expect(mixed.details).toMatchObject({ hostname: 'mixed.test', address: '10.0.0.5' });
+
+    expect((await rejection(checkDestination('http://rebind.test/', resolve))).code).toBe('BLOCKED_DESTINATION');
+    expect((await rejection(checkDestination('http://[::1]:8080/'))).code).toBe('BLOCKED_DESTINATION');
+    expect((await rejection(checkDestination('http://169.254.169.254/latest/meta-data/'))).code).toBe('BLOCKED_DESTINATION');
+  });
+
+  it('rejects unresolvable hosts and empty answers', async () => {
+    const resolve = resolver({ 'empty.test': [] });
+
+    expect((await rejection(checkDestination('https://missing.test/', resolve))).code).toBe('INVALID_URL');
+    expect((await rejection(checkDestination('https://empty.test/', resolve))).code).toBe('INVALID_URL');
+  });
+
+  it('rejects other protocols and malformed URLs', async () => {
+    const resolve = resolver({ 'example.com': ['93.184.216.34'] });
+
+    expect((await rejection(checkDestination('file:///etc/passwd', resolve))).code).toBe('BLOCKED_DESTINATION');
+    expect((await rejection(checkDestination('ftp://example.com/', resolve))).code).toBe('BLOCKED_DESTINATION');
+    expect((await rejection(checkDestination('not a url', resolve))).code).toBe('INVALID_URL');
+  });
+});
+
+describe('pinnedRequest', () => {
+  let server: Server;
+  let port: number;
+  let received: { host?: string; method?: string; body: string } | null;
+
+  beforeEach(async () => {
+    received = null;
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received = { host: req.headers.host, method: req.method, body: Buffer.concat(chunks).toString() };
+        if (req.url === '/redirect') {
+          res.writeHead(302, { location: 'http://elsewhere.test/' });
+          res.end();
+        } else if (req.url === '/slow') {
+          setTimeout(() => res.end('late'), 500);
+        } else {
+          res.end('ok');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const read = async (response: AsyncIterable<Buffer>) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of response) chunks.push(chunk);
+    return Buffer.concat(chunks).toString();
+  };
+
+  it('connects to the given address, whatever the host name resolves to', async () => {
+    const response = await pinnedRequest(`http://does-not-resolve.invalid:${port}/`, {
+      method: 'POST',
+      body: Buffer.from('payload'),
+      address: '127.0.0.1',
+      timeout: 2000
+    });
+
+    expect(await read(response)).toBe('ok');
+    expect(received).toEqual({ host: `does-not-resolve.invalid:${port}`, method: 'POST', body: 'payload' });
+  });
+
+  it('returns redirects instead of following them', async () => {
+    const response = await pinnedRequest(`http://pinned.test:${port}/redirect`, { address: '127.0.0.1', timeout: 2000 });
+
+    expect(response.statusCode).toBe(302);
+    expect(response.headers.location).toBe('http://elsewhere.test/');
+    response.resume();
+  });
+
+  it('gives up after the timeout', async () => {
+    const response = pinnedRequest(`http://pinned.test:${port}/slow`, { address: '127.0.0.1', timeout: 100 })
+      .then(read);
+    await expect(response).rejects.toThrow();
+  });
+});
+
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { spawn, type ChildProcess } from 'child_process';
+import { once } from 'events';
+import { getLargestProcessRss } from '../../src/utils/process.js';
+
+const MB = 1024 * 1024;
+
+describe.runIf(process.platform === 'linux')('getLargestProcessRss', () => {
+  let child: ChildProcess | null = null;
+
+  afterEach(async () => {
+    if (child && child.exitCode === null) {
+      child.kill();
+      await once(child, 'exit');
+    }
+    child = null;
+  });
+
+  it('measures the largest process in the tree, not the sum', async () => {
+    const own = (await getLargestProcessRss(process.pid))!;
+    expect(own).toBeGreaterThanOrEqual(process.memoryUsage().rss / 2);
+
+    // A descendant that touches 200MB
+    child = spawn(process.execPath, ['-e', `
+      const hold = Buffer.alloc(${200 * MB}, 1);
+      process.stdout.write('ready');
+      setInterval(() => hold[0]++, 1000);
+    `]);
+    await once(child.stdout!, 'data');
+
+    const largest = (await getLargestProcessRss(process.pid))!;
+    expect(largest).toBeGreaterThan(200 * MB);
+    expect(largest).toBeLessThan(own + 200 * MB);
+  });
+
+  it('follows grandchildren', async () => {
+    // A child that spawns the 200MB process
+    child = spawn(process.execPath, ['-e', `
+      const { spawn } = require('child_process');
+      const grandchild = spawn(process.execPath, ['-e', \`
+        const hold = Buffer.alloc(${200 * MB}, 1);
+        process.stdout.write('ready');
+        setInterval(() => hold[0]++, 1000);
+      \`], { stdio: ['ignore', 'inherit', 'inherit'] });
+      process.on('SIGTERM', () => { grandchild.kill(); process.exit(); });
+    `]);
+    await once(child.stdout!, 'data');
+
+    expect(await getLargestProcessRss(child.pid!)).toBeGreaterThan(200 * MB);
+  });
+
+  it('returns 0 for a process that does not exist', async () => {
+    expect(await getLargestProcessRss(2 ** 22 + 1)).toBe(0);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { Counter, Gauge, Histogram, Registry } from '../../src/utils/prometheus.js';
+
+describe('Counter', () => {
+  it('renders HELP, TYPE and one line per label set', () => {
+    const counter = new Counter('requests_total', 'Requests');
+    counter.inc({ route: '/a', status: '200' });
+    counter.inc({ status: '200', route: '/a' }, 2);  // Same series, labels in another order
+    counter.inc({ route: '/b', status: '404' });
+
+    expect(counter.render()).toBe(
+      '# HELP requests_total Requests\n' +
+      '# TYPE requests_total counter\n' +
+      'requests_total{route="/a",status="200"} 3\n' +
+      'requests_total{route="/b",status="404"} 1\n'
+    );
+  });
+
+  it('renders series without labels bare', () => {
+    const counter = new Counter('hits_total', 'Hits');
+    counter.inc();
+
+    expect(counter.render()).toContain('\nhits_total 1\n');
+  });
+
+  it('reads collected values at render time', () => {
+    let hits = 1;
+    const counter = new Counter('hits_total', 'Hits', () => [{ labels: {}, value: hits }]);
+    hits = 5;
+
+    expect(counter.render()).toContain('\nhits_total 5\n');
+  });
+
+  it('escapes label values and help text', () => {
+    const counter = new Counter('odd_total', 'Line one\nback\\slash');
+    counter.inc({ path: 'a"b\\c\nd' });
+
+    expect(counter.render()).toBe(
+      '# HELP odd_total Line one\\nback\\\\slash\n' +
+      '# TYPE odd_total counter\n' +
+      'odd_total{path="a\\"b\\\\c\\nd"} 1\n'
+    );
+  });
+});
+
+describe('Gauge', () => {
+  it('replaces values and formats special numbers', () => {
+    const gauge = new Gauge('temperature', 'Temperature');
+    gauge.set({ room: 'a' }, 1);
+    gauge.set({ room: 'a' }, 2.5);
+    gauge.set({ room: 'b' }, Infinity);
+    gauge.set({ room: 'c' }, NaN);
+
+    expect(gauge.render()).toBe(
+      '# HELP temperature Temperature\n' +
+      '# TYPE temperature gauge\n' +
+      'temperature{room="a"} 2.5\n' +
+      'temperature{room="b"} +Inf\n' +
+      'temperature{room="c"} NaN\n'
+    );
+  });
+});
+
+describe('Histogram', () => {
+  it('renders cumulative buckets, +Inf, sum and count', () => {
+    const histogram = new Histogram('duration_seconds', 'Duration', [1, 0.5]);
+    for (const value of [0.2, 0.5, 0.7, 3]) {
+      histogram.observe({ mode: 'screenshot' }, value);
+    }
+
+    expect(histogram.render()).toBe(
+      '# HELP duration_seconds Duration\n' +
+      '# TYPE duration_seconds histogram\n' +
+      'duration_seconds_bucket{mode="screenshot",le="0.5"} 2\n' +
+      'duration_seconds_bucket{mode="screenshot",le="1"} 3\n' +
+      'duration_seconds_bucket{mode="screenshot",le="+Inf"} 4\n' +
+      'duration_seconds_sum{mode="screenshot"} 4.4\n' +
+      'duration_seconds_count{mode="screenshot"} 4\n'
+    );
+  });
+
+  it('renders only the header before the first observation', () => {
+    expect(new Histogram('empty_seconds', 'Empty', [1]).render())
+      .toBe('# HELP empty_seconds Empty\n# TYPE empty_seconds histogram\n');
+  });
+});
+
+describe('Registry', () => {
+  it('renders metrics in registration order', () => {
+    const registry = new Registry();
+    registry.register(new Gauge('b', 'B')).set({}, 1);
+    registry.register(new Counter('a_total', 'A')).inc();
+
+    expect(registry.render()).toBe(
+      '# HELP b B\n# TYPE b gauge\nb 1\n' +
+      '# HELP a_total A\n# TYPE a_total counter\na_total 1\n'
+    );
+  });
+});
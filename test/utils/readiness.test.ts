@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_READY, getReadyTimeout, getReadyVariant, resolveReadiness } from '../../src/utils/readiness.js';
+import { OGFrameError } from '../../src/types.js';
+import type { ApiKey } from '../../src/types.js';
+import { testKey } from '../helpers/apiKey.js';
+
+function rejection(apiKey: ApiKey, params: Parameters<typeof resolveReadiness>[1]): OGFrameError {
+  try {
+    resolveReadiness(apiKey, params);
+  } catch (error) {
+    return error as OGFrameError;
+  }
+  throw new Error('Expected resolveReadiness to throw');
+}
+
+describe('resolveReadiness', () => {
+  it('uses the key setting, or the default', () => {
+    expect(resolveReadiness(testKey(), {})).toEqual(DEFAULT_READY);
+    expect(resolveReadiness(testKey({ ready: { strategy: 'signal', timeout: 5000 } }), {}))
+      .toEqual({ strategy: 'signal', timeout: 5000 });
+  });
+
+  it('rejects unknown strategies and a selector strategy without a selector', () => {
+    expect(rejection(testKey(), { ready: 'never' }).code).toBe('INVALID_PARAMS');
+    expect(rejection(testKey({ selectors: ['.hero'] }), { ready: 'selector' }).code).toBe('INVALID_PARAMS');
+  });
+
+  it('limits a switched strategy to the key wait', () => {
+    const settings = resolveReadiness(testKey(), { ready: 'signal' });
+    expect(settings.strategy).toBe('signal');
+    expect(getReadyTimeout(settings)).toBe(1500);
+  });
+
+  it('refuses to switch to delay from another strategy', () => {
+    const error = rejection(testKey({ ready: { strategy: 'assets' } }), { ready: 'delay' });
+    expect(error.code).toBe('INVALID_PARAMS');
+    expect(error.statusCode).toBe(400);
+  });
+
+  it('only lets readyDelay shorten the wait', () => {
+    expect(resolveReadiness(testKey(), { readyDelay: '200' }).delay).toBe(200);
+    expect(rejection(testKey(), { readyDelay: '1501' }).code).toBe('INVALID_PARAMS');
+    expect(rejection(testKey(), { readyDelay: '-1' }).code).toBe('INVALID_PARAMS');
+    expect(rejection(testKey(), { readyDelay: '1.5' }).code).toBe('INVALID_PARAMS');
+  });
+
+  it('only allows whitelisted ready selectors', () => {
+    const apiKey = testKey({ selectors: ['.hero'], readySelectors: ['.chart'] });
+
+    expect(resolveReadiness(apiKey, { ready: 'selector', readySelector: '.chart' }).selector).toBe('.chart');
+    expect(resolveReadiness(apiKey, { ready: 'selector', readySelector: '.hero' }).selector).toBe('.hero');
+
+    const error = rejection(apiKey, { ready: 'selector', readySelector: 'body' });
+    expect(error.code).toBe('SELECTOR_NOT_ALLOWED');
+    expect(error.statusCode).toBe(403);
+    expect(rejection(apiKey, { readySelector: '.chart'.repeat(40) }).code).toBe('INVALID_PARAMS');
+  });
+
+  it('does not restrict admin keys', () => {
+    const admin = testKey({ type: 'admin', ready: { strategy: 'signal' } });
+
+    expect(resolveReadiness(admin, { ready: 'delay', readyDelay: '5000' })).toEqual({ strategy: 'delay', delay: 5000 });
+    expect(resolveReadiness(admin, { ready: 'selector', readySelector: 'body' }).selector).toBe('body');
+  });
+});
+
+describe('getReadyVariant', () => {
+  it('has no variant for the default', () => {
+    expect(getReadyVariant(DEFAULT_READY)).toBeUndefined();
+    expect(getReadyVariant(resolveReadiness(testKey(), {}))).toBeUndefined();
+    expect(getReadyVariant({ strategy: 'delay', delay: 1500 })).toBeUndefined();
+  });
+
+  it('tells request overrides apart', () => {
+    const variants = [
+      resolveReadiness(testKey(), { readyDelay: '0' }),
+      resolveReadiness(testKey(), { readyDelay: '100' }),
+      resolveReadiness(testKey(), { ready: 'signal' }),
+      resolveReadiness(testKey(), { ready: 'assets' }),
+      resolveReadiness(testKey({ readySelectors: ['.a', '.b'] }), { ready: 'selector', readySelector: '.a' }),
+      resolveReadiness(testKey({ readySelectors: ['.a', '.b'] }), { ready: 'selector', readySelector: '.b' }),
+      { strategy: 'signal' as const }
+    ].map(getReadyVariant);
+
+    expect(variants).toEqual([
+      'ready:delay=0',
+      'ready:delay=100',
+      'ready:signal;timeout=1500',
+      'ready:assets;timeout=1500',
+      'ready:selector=.a;timeout=1500',
+      'ready:selector=.b;timeout=1500',
+      'ready:signal;timeout=10000'
+    ]);
+  });
+});
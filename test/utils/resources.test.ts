@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  getBlockReason,
+  getDefaultBlock,
+  getResourcesVariant,
+  initResources,
+  isTrackerHost,
+  parseBlockResources
+} from '../../src/utils/resources.js';
+import config from '../../src/config.js';
+
+describe('parseBlockResources', () => {
+  it('parses comma-separated categories', () => {
+    expect(parseBlockResources('trackers, media')).toEqual(['trackers', 'media']);
+  });
+
+  it('treats "none" as an explicit empty list', () => {
+    expect(parseBlockResources('none')).toEqual([]);
+  });
+
+  it('rejects unknown categories instead of ignoring them', () => {
+    expect(() => parseBlockResources('trackers,medai')).toThrow(/medai/);
+    expect(() => parseBlockResources('none,fonts')).toThrow(/none/);
+    expect(() => parseBlockResources('Trackers')).toThrow();
+  });
+});
+
+describe('getDefaultBlock', () => {
+  const original = config.blockResources;
+
+  afterEach(() => {
+    config.blockResources = original;
+    initResources();
+  });
+
+  it('blocks nothing unless BLOCK_RESOURCES is set', () => {
+    expect(getDefaultBlock()).toEqual([]);
+  });
+
+  it('uses the value validated at startup', () => {
+    config.blockResources = 'fonts';
+    initResources();
+    expect(getDefaultBlock()).toEqual(['fonts']);
+
+    config.blockResources = 'font';
+    expect(() => initResources()).toThrow(/BLOCK_RESOURCES/);
+  });
+});
+
+describe('isTrackerHost', () => {
+  it('matches listed hosts and their subdomains only', () => {
+    expect(isTrackerHost('google-analytics.com')).toBe(true);
+    expect(isTrackerHost('www.google-analytics.com')).toBe(true);
+    expect(isTrackerHost('notgoogle-analytics.com')).toBe(false);
+    expect(isTrackerHost('google-analytics.com.example.com')).toBe(false);
+  });
+});
+
+describe('getBlockReason', () => {
+  it('blocks trackers and categories by resource type', () => {
+    const block = ['trackers', 'media'] as const;
+
+    expect(getBlockReason({}, [...block], 'www.googletagmanager.com', 'script')).toBe('trackers');
+    expect(getBlockReason({}, [...block], 'cdn.example.com', 'media')).toBe('media');
+    expect(getBlockReason({}, [...block], 'cdn.example.com', 'image')).toBeNull();
+    expect(getBlockReason({}, [], 'www.googletagmanager.com', 'script')).toBeNull();
+  });
+
+  it('exempts allowHosts from trackers and categories', () => {
+    const policy = { allowHosts: ['*.example.com', 'plausible.io'] };
+
+    expect(getBlockReason(policy, ['trackers', 'fonts'], 'plausible.io', 'script')).toBeNull();
+    expect(getBlockReason(policy, ['trackers', 'fonts'], 'fonts.example.com', 'font')).toBeNull();
+    expect(getBlockReason(policy, ['trackers', 'fonts'], 'example.com', 'font')).toBeNull();
+    expect(getBlockReason(policy, ['trackers', 'fonts'], 'fonts.gstatic.com', 'font')).toBe('fonts');
+  });
+
+  it('lets denyHosts win over allowHosts', () => {
+    const policy = { allowHosts: ['*.example.com'], denyHosts: ['widget.example.com'] };
+
+    expect(getBlockReason(policy, [], 'widget.example.com', 'script')).toBe('deny');
+    expect(getBlockReason(policy, [], 'www.example.com', 'script')).toBeNull();
+    expect(getBlockReason({ denyHosts: ['*.intercom.io'] }, [], 'js.intercom.io', 'script')).toBe('deny');
+    expect(getBlockReason({ denyHosts: ['*.intercom.io'] }, [], 'intercom.io.evil.com', 'script')).toBeNull();
+  });
+});
+
+describe('getResourcesVariant', () => {
+  it('has no variant for the server default', () => {
+    expect(getResourcesVariant(undefined)).toBeUndefined();
+    expect(getResourcesVariant({ block: [] })).toBeUndefined();
+  });
+
+  it('canonicalizes order, case and duplicates', () => {
+    expect(getResourcesVariant({ block: ['media', 'trackers', 'media'], denyHosts: ['B.example.com', 'a.example.com'] }))
+      .toBe('res:block=media,trackers;allow=;deny=a.example.com,b.example.com');
+  });
+});
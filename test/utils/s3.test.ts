@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { S3Client, S3Error } from '../../src/utils/s3.js';
+import { FakeS3 } from '../helpers/fakeS3.js';
+
+const EMPTY_SHA256 = createHash('sha256').update('').digest('hex');
+
+describe('S3Client', () => {
+  let server: FakeS3;
+  let client: S3Client;
+
+  const createClient = (overrides: { secretKey?: string; bucket?: string; timeout?: number } = {}) => new S3Client({
+    endpoint: server.endpoint,
+    region: server.region,
+    bucket: overrides.bucket ?? server.bucket,
+    accessKey: server.accessKey,
+    secretKey: overrides.secretKey ?? server.secretKey,
+    forcePathStyle: true,
+    timeout: overrides.timeout
+  });
+
+  beforeEach(async () => {
+    server = await new FakeS3().start();
+    client = createClient();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await server.stop();
+  });
+
+  describe('signing', () => {
+    it('sends a SigV4 Authorization header with the x-amz-* headers it signs', async () => {
+      vi.useFakeTimers({ toFake: ['Date'], now: new Date('2024-01-02T03:04:05.678Z') });
+
+      await client.getObject('images/ab/abc.png');
+      const { headers } = server.requests[0];
+
+      expect(headers['x-amz-date']).toBe('20240102T030405Z');
+      expect(headers['x-amz-content-sha256']).toBe(EMPTY_SHA256);
+      expect(headers.authorization).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/20240102\/auto\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+      );
+    });
+
+    it('signs the body hash and content type of uploads', async () => {
+      const body = Buffer.from('png bytes');
+      await client.putObject('images/ab/abc.png', body, 'image/png');
+      const { headers } = server.requests[0];
+
+      expect(headers['x-amz-content-sha256']).toBe(createHash('sha256').update(body).digest('hex'));
+      expect(headers['content-type']).toBe('image/png');
+      expect(headers.authorization).toContain('SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date,');
+      expect(server.objects.get('images/ab/abc.png')?.body).toEqual(body);
+    });
+
+    it('encodes keys and query values the way they are signed', async () => {
+      const key = "entries/a b+c(1)!*'~.json";
+      await client.putObject(key, Buffer.from('{}'), 'application/json');
+
+      expect(await client.getObject(key)).toEqual(Buffer.from('{}'));
+      expect(await client.listObjects("entries/a b+c(1)")).toEqual([
+        { key, size: 2, lastModified: '2024-01-02T03:04:05.000Z' }
+      ]);
+    });
+
+    it('rejects with S3Error when the signature does not match', async () => {
+      const error = await createClient({ secretKey: 'wrong' }).getObject('anything').catch(error => error);
+
+      expect(error).toBeInstanceOf(S3Error);
+      expect(error.statusCode).toBe(403);
+      expect(error.s3Code).toBe('SignatureDoesNotMatch');
+    });
+  });
+
+  describe('objects', () => {
+    it('treats a missing object as a cache miss', async () => {
+      expect(await client.getObject('images/ab/missing.png')).toBeNull();
+    });
+
+    it('round-trips objects and deletes them', async () => {
+      await client.putObject('a/b.webp', Buffer.from([1, 2, 3]), 'image/webp');
+      expect(await client.getObject('a/b.webp')).toEqual(Buffer.from([1, 2, 3]));
+
+      await client.deleteObject('a/b.webp');
+      expect(server.objects.has('a/b.webp')).toBe(false);
+    });
+
+    it('ignores deletes of missing objects', async () => {
+      await expect(client.deleteObject('missing')).resolves.toBeUndefined();  // 404
+      server.missingStatus = 204;
+      await expect(client.deleteObject('missing')).resolves.toBeUndefined();
+    });
+
+    it('reports a missing bucket', async () => {
+      await expect(client.headBucket()).resolves.toBeUndefined();
+
+      const error = await createClient({ bucket: 'nope' }).headBucket().catch(error => error);
+      expect(error).toBeInstanceOf(S3Error);
+      expect(error.statusCode).toBe(404);
+    });
+
+    it('surfaces error codes from XML error bodies', async () => {
+      server.failure = { status: 503, code: 'SlowDown', message: 'Please reduce your request rate.' };
+
+      const error = await client.getObject('key').catch(error => error);
+      expect(error).toBeInstanceOf(S3Error);
+      expect(error.statusCode).toBe(503);
+      expect(error.s3Code).toBe('SlowDown');
+      expect(error.message).toBe('Please reduce your request rate.');
+    });
+
+    it('gives up on an endpoint that never answers', async () => {
+      server.hang = true;
+      const started = Date.now();
+
+      const error = await createClient({ timeout: 200 }).getObject('key').catch(error => error);
+      expect(error).toBeInstanceOf(S3Error);
+      expect(error.statusCode).toBe(504);
+      expect(error.s3Code).toBe('RequestTimeout');
+      expect(Date.now() - started).toBeLessThan(2000);
+    });
+  });
+
+  describe('listObjects', () => {
+    beforeEach(() => {
+      for (const name of ['e1', 'e2', 'e3', 'e4', 'e5', 'a&b']) {
+        server.objects.set(`entries/${name}.json`, { body: Buffer.from(name), contentType: 'application/json' });
+      }
+      server.objects.set('images/ab/abc.png', { body: Buffer.from('png'), contentType: 'image/png' });
+    });
+
+    it('follows continuation tokens until the listing is complete', async () => {
+      server.pageSize = 2;
+
+      const objects = await client.listObjects('entries/');
+
+      expect(objects.map(o => o.key)).toEqual([
+        'entries/a&b.json', 'entries/e1.json', 'entries/e2.json',
+        'entries/e3.json', 'entries/e4.json', 'entries/e5.json'
+      ]);
+      expect(objects[0]).toEqual({ key: 'entries/a&b.json', size: 3, lastModified: '2024-01-02T03:04:05.000Z' });
+
+      const pages = server.requests.map(r => r.query);
+      expect(pages).toHaveLength(3);
+      expect(pages[0]).toEqual({ 'list-type': '2', prefix: 'entries/' });
+      expect(pages[1]['continuation-token']).toBeTruthy();
+      expect(pages[2]['continuation-token']).not.toBe(pages[1]['continuation-token']);
+    });
+
+    it('lists in one request when nothing is truncated', async () => {
+      expect(await client.listObjects('images/')).toHaveLength(1);
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('returns an empty list for an unused prefix', async () => {
+      expect(await client.listObjects('nothing/')).toEqual([]);
+    });
+  });
+});
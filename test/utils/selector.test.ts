@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getSelectorVariant, validateSelector } from '../../src/utils/selector.js';
+import { generateCacheKey } from '../../src/utils/crypto.js';
+import { OGFrameError } from '../../src/types.js';
+import type { ApiKey } from '../../src/types.js';
+import { testKey } from '../helpers/apiKey.js';
+
+function rejection(apiKey: ApiKey, selector: string): OGFrameError {
+  try {
+    validateSelector(apiKey, selector);
+  } catch (error) {
+    return error as OGFrameError;
+  }
+  throw new Error('Expected validateSelector to throw');
+}
+
+describe('validateSelector', () => {
+  it('accepts whitelisted selectors', () => {
+    expect(validateSelector(testKey({ selectors: ['#hero', '.card'] }), '.card')).toBe('.card');
+  });
+
+  it('only accepts exact matches', () => {
+    const apiKey = testKey({ selectors: ['.card'] });
+
+    for (const selector of ['.card ', '.CARD', '.card, body', 'div .card', 'body']) {
+      const error = rejection(apiKey, selector);
+      expect(error.code).toBe('SELECTOR_NOT_ALLOWED');
+      expect(error.statusCode).toBe(403);
+      expect(error.details).toEqual({ allowedSelectors: ['.card'] });
+    }
+  });
+
+  it('rejects every selector for keys without a whitelist', () => {
+    expect(rejection(testKey(), '#hero').code).toBe('SELECTOR_NOT_ALLOWED');
+  });
+
+  it('lets admin keys use any selector', () => {
+    expect(validateSelector(testKey({ type: 'admin' }), 'main > article:first-child')).toBe('main > article:first-child');
+  });
+
+  it('limits selectors to 200 characters, even for admin keys', () => {
+    const long = `.${'a'.repeat(200)}`;
+    expect(rejection(testKey({ type: 'admin' }), long).code).toBe('INVALID_PARAMS');
+    expect(rejection(testKey({ selectors: [long] }), long).message).toMatch(/max 200 characters/);
+  });
+});
+
+describe('getSelectorVariant', () => {
+  it('caches element captures separately from the full page', () => {
+    expect(getSelectorVariant(undefined)).toBeUndefined();
+
+    const page = generateCacheKey('https://example.com/', ['og', getSelectorVariant(undefined)]);
+    const hero = generateCacheKey('https://example.com/', ['og', getSelectorVariant('#hero')]);
+    const card = generateCacheKey('https://example.com/', ['og', getSelectorVariant('.card')]);
+
+    expect(page).toBe(generateCacheKey('https://example.com/', ['og']));
+    expect(new Set([page, hero, card]).size).toBe(3);
+  });
+});
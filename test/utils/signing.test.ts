@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import { canonicalizeParams, createSignedUrl, generateSigningSecret, signParams } from '../../src/utils/signing.js';
+import { verifySignature } from '../../src/services/auth.js';
+import { OGFrameError } from '../../src/types.js';
+import type { ApiKey } from '../../src/types.js';
+import { testKey } from '../helpers/apiKey.js';
+
+const SECRET = 'test-signing-secret';
+const ENDPOINT = 'https://og.example.com/api/image';
+
+function key(overrides: Partial<ApiKey> = {}): ApiKey {
+  return testKey({ signingSecret: SECRET, ...overrides });
+}
+
+function verify(apiKey: ApiKey, url: string): OGFrameError | null {
+  try {
+    verifySignature(apiKey, new URL(url).searchParams);
+    return null;
+  } catch (error) {
+    return error as OGFrameError;
+  }
+}
+
+describe('canonicalizeParams', () => {
+  it('sorts by name then value, encodes, and leaves out sig', () => {
+    expect(canonicalizeParams([
+      ['url', 'https://example.com/a b'],
+      ['sig', 'ignored'],
+      ['key', 'pk_test'],
+      ['tag', 'b'],
+      ['tag', 'a']
+    ])).toBe('key=pk_test&tag=a&tag=b&url=https%3A%2F%2Fexample.com%2Fa%20b');
+  });
+});
+
+describe('signParams', () => {
+  it('is a base64url HMAC-SHA256 of the canonical params', () => {
+    const expected = createHmac('sha256', SECRET).update('key=pk_test&url=https%3A%2F%2Fexample.com%2F').digest('base64url');
+    expect(signParams([['url', 'https://example.com/'], ['key', 'pk_test']], SECRET)).toBe(expected);
+  });
+
+  it('does not depend on parameter order', () => {
+    expect(signParams([['a', '1'], ['b', '2']], SECRET)).toBe(signParams([['b', '2'], ['a', '1']], SECRET));
+  });
+});
+
+describe('verifySignature', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts URLs signed with the key secret', () => {
+    const url = createSignedUrl(ENDPOINT, { key: 'pk_test', url: 'https://example.com/post', size: 'twitter' }, SECRET);
+    expect(verify(key(), url)).toBeNull();
+  });
+
+  it('ignores signatures for keys without a secret', () => {
+    expect(verify(key({ signingSecret: undefined }), `${ENDPOINT}?key=pk_test&sig=garbage`)).toBeNull();
+  });
+
+  it('requires a signature unless the key makes it optional', () => {
+    const unsigned = `${ENDPOINT}?key=pk_test&url=https://example.com/`;
+
+    expect(verify(key(), unsigned)?.code).toBe('SIGNATURE_REQUIRED');
+    expect(verify(key({ signature: 'optional' }), unsigned)).toBeNull();
+  });
+
+  it('rejects tampered parameters and signatures from other secrets', () => {
+    const url = new URL(createSignedUrl(ENDPOINT, { key: 'pk_test', url: 'https://example.com/post' }, SECRET));
+
+    const tampered = new URL(url);
+    tampered.searchParams.set('url', 'https://example.com/other');
+    expect(verify(key(), tampered.toString())?.code).toBe('INVALID_SIGNATURE');
+
+    const added = new URL(url);
+    added.searchParams.set('size', 'square');
+    expect(verify(key(), added.toString())?.code).toBe('INVALID_SIGNATURE');
+
+    const forged = createSignedUrl(ENDPOINT, { key: 'pk_test', url: 'https://example.com/post' }, 'other-secret');
+    expect(verify(key(), forged)?.code).toBe('INVALID_SIGNATURE');
+
+    // Optional signing still rejects bad signatures
+    expect(verify(key({ signature: 'optional' }), forged)?.code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('rejects expired URLs, and expiry cannot be extended without re-signing', () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2024-06-01T00:00:00.000Z') });
+    const url = createSignedUrl(ENDPOINT, { key: 'pk_test', url: 'https://example.com/' }, SECRET, { expiresIn: 60 });
+    expect(new URL(url).searchParams.get('exp')).toBe(String(Date.parse('2024-06-01T00:01:00.000Z') / 1000));
+
+    expect(verify(key(), url)).toBeNull();
+
+    vi.setSystemTime(new Date('2024-06-01T00:01:01.000Z'));
+    const expired = verify(key(), url);
+    expect(expired?.code).toBe('SIGNATURE_EXPIRED');
+    expect(expired?.details).toEqual({ expiredAt: '2024-06-01T00:01:00.000Z' });
+
+    const extended = new URL(url);
+    extended.searchParams.set('exp', String(Date.parse('2030-01-01T00:00:00.000Z') / 1000));
+    expect(verify(key(), extended.toString())?.code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('rejects a signed but malformed expiry', () => {
+    const url = createSignedUrl(ENDPOINT, { key: 'pk_test', exp: 'soon' }, SECRET);
+    expect(verify(key(), url)?.code).toBe('SIGNATURE_EXPIRED');
+  });
+});
+
+describe('generateSigningSecret', () => {
+  it('returns distinct 256-bit secrets', () => {
+    const secret = generateSigningSecret();
+    expect(Buffer.from(secret, 'base64url')).toHaveLength(32);
+    expect(generateSigningSecret()).not.toBe(secret);
+  });
+});
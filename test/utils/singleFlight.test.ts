@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SingleFlight } from '../../src/utils/singleFlight.js';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+describe('SingleFlight.run', () => {
+  it('runs concurrent calls for the same key once', async () => {
+    const flight = new SingleFlight<string>();
+    const gate = deferred<string>();
+    const fn = vi.fn(() => gate.promise);
+
+    const first = flight.run('a', fn);
+    const second = flight.run('a', fn);
+    expect(flight.has('a')).toBe(true);
+    gate.resolve('png');
+
+    expect(await first).toEqual({ value: 'png', shared: false });
+    expect(await second).toEqual({ value: 'png', shared: true });
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(flight.size).toBe(0);
+  });
+
+  it('runs different keys separately', async () => {
+    const flight = new SingleFlight<string>();
+    const [a, b] = await Promise.all([
+      flight.run('a', async () => 'a'),
+      flight.run('b', async () => 'b')
+    ]);
+
+    expect(a).toEqual({ value: 'a', shared: false });
+    expect(b).toEqual({ value: 'b', shared: false });
+  });
+
+  it('shares failures and forgets the key', async () => {
+    const flight = new SingleFlight<string>();
+    const gate = deferred<string>();
+
+    const first = flight.run('a', () => gate.promise);
+    const second = flight.run('a', async () => 'unused');
+    gate.reject(new Error('capture failed'));
+
+    await expect(first).rejects.toThrow('capture failed');
+    await expect(second).rejects.toThrow('capture failed');
+    expect(flight.has('a')).toBe(false);
+    expect(await flight.run('a', async () => 'retry')).toEqual({ value: 'retry', shared: false });
+  });
+});
+
+describe('SingleFlight.claim', () => {
+  it('queues followers behind a claim before it starts', async () => {
+    const flight = new SingleFlight<string>();
+    const leader = flight.claim('a');
+    const follower = flight.claim('a');
+
+    expect(leader.leader).toBe(true);
+    expect(follower.leader).toBe(false);
+    expect(() => follower.start(async () => 'png')).toThrow();
+
+    const waiting = follower.wait();
+    await Promise.resolve();  // e.g. the leader's rate limit check
+    expect(await leader.start(async () => 'png')).toBe('png');
+    expect(await waiting).toBe('png');
+    expect(flight.has('a')).toBe(false);
+  });
+
+  it('resolves followers to null when the leader releases', async () => {
+    const flight = new SingleFlight<string>();
+    const leader = flight.claim('a');
+    const follower = flight.claim('a');
+
+    leader.release();
+
+    expect(await follower.wait()).toBeNull();
+    expect(flight.has('a')).toBe(false);
+    expect(flight.claim('a').leader).toBe(true);
+  });
+
+  it('lets run() callers take over a released claim', async () => {
+    const flight = new SingleFlight<string>();
+    const leader = flight.claim('a');
+    const fn = vi.fn(async () => 'png');
+
+    const joined = flight.run('a', fn);
+    leader.release();
+
+    expect(await joined).toEqual({ value: 'png', shared: false });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares synchronous failures of the leader', async () => {
+    const flight = new SingleFlight<string>();
+    const leader = flight.claim('a');
+    const waiting = flight.claim('a').wait();
+
+    const started = leader.start(() => { throw new Error('boom'); });
+
+    await expect(started).rejects.toThrow('boom');
+    await expect(waiting).rejects.toThrow('boom');
+    expect(flight.has('a')).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { gzipSync } from 'zlib';
+import { fetchSitemapUrls, parseSitemap } from '../../src/utils/sitemap.js';
+import { validateUrl } from '../../src/utils/url.js';
+
+const MB = 1024 * 1024;
+
+function urlset(...locations: string[]): string {
+  return `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${
+    locations.map(loc => `<url><loc>${loc}</loc></url>`).join('')
+  }</urlset>`;
+}
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+let server: Server;
+let base: string;
+let routes: Record<string, Handler>;
+let requests: string[];
+
+const options = {
+  maxUrls: 100,
+  validate: (url: string) => validateUrl(url, ['127.0.0.1:*'])
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(`${req.headers.host}${req.url}`);
+    const handler = routes[req.url ?? ''];
+    if (handler) {
+      handler(req, res);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+beforeEach(() => {
+  routes = {};
+  requests = [];
+});
+
+describe('parseSitemap', () => {
+  it('extracts locations from a urlset', () => {
+    expect(parseSitemap(urlset('https://example.com/', 'https://example.com/a?b=1&amp;c=2'))).toEqual({
+      type: 'urlset',
+      locations: ['https://example.com/', 'https://example.com/a?b=1&c=2']
+    });
+  });
+
+  it('recognizes sitemap indexes, namespace prefixes and CDATA', () => {
+    const xml = '<sm:sitemapindex xmlns:sm="x"><sm:sitemap><sm:loc><![CDATA[https://example.com/s1.xml]]></sm:loc></sm:sitemap></sm:sitemapindex>';
+    expect(parseSitemap(xml)).toEqual({ type: 'sitemapindex', locations: ['https://example.com/s1.xml'] });
+  });
+
+  it('decodes numeric entities and skips empty locations', () => {
+    expect(parseSitemap(urlset('https://example.com/caf&#xE9;', ' ')).locations).toEqual(['https://example.com/café']);
+  });
+
+  it('rejects documents that are not sitemaps', () => {
+    expect(() => parseSitemap('<html><body>Not found</body></html>')).toThrow(/Not a sitemap/);
+  });
+});
+
+describe('fetchSitemapUrls', () => {
+  it('returns page URLs up to maxUrls', async () => {
+    routes['/sitemap.xml'] = (_req, res) => res.end(urlset('https://example.com/1', 'https://example.com/2', 'https://example.com/3'));
+
+    expect(await fetchSitemapUrls(`${base}/sitemap.xml`, { ...options, maxUrls: 2 }))
+      .toEqual(['https://example.com/1', 'https://example.com/2']);
+  });
+
+  it('follows sitemap indexes one level deep', async () => {
+    routes['/index.xml'] = (_req, res) => res.end(
+      `<sitemapindex><sitemap><loc>${base}/a.xml</loc></sitemap><sitemap><loc>${base}/b.xml.gz</loc></sitemap></sitemapindex>`
+    );
+    routes['/a.xml'] = (_req, res) => res.end(urlset('https://example.com/a'));
+    routes['/b.xml.gz'] = (_req, res) => res.end(gzipSync(urlset('https://example.com/b')));
+
+    expect(await fetchSitemapUrls(`${base}/index.xml`, options)).toEqual(['https://example.com/a', 'https://example.com/b']);
+  });
+
+  it('does not fetch child sitemaps outside the allowed domains', async () => {
+    routes['/index.xml'] = (_req, res) => res.end('<sitemapindex><sitemap><loc>http://localhost/a.xml</loc></sitemap></sitemapindex>');
+
+    await expect(fetchSitemapUrls(`${base}/index.xml`, options)).rejects.toMatchObject({ code: 'DOMAIN_NOT_ALLOWED' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('follows redirects within the allowed domains', async () => {
+    routes['/old.xml'] = (_req, res) => res.writeHead(301, { Location: '/sitemap.xml' }).end();
+    routes['/sitemap.xml'] = (_req, res) => res.end(urlset('https://example.com/'));
+
+    expect(await fetchSitemapUrls(`${base}/old.xml`, options)).toEqual(['https://example.com/']);
+  });
+
+  it('does not follow redirects to other hosts', async () => {
+    const port = (server.address() as AddressInfo).port;
+    routes['/old.xml'] = (_req, res) => res.writeHead(302, { Location: `http://localhost:${port}/sitemap.xml` }).end();
+    routes['/sitemap.xml'] = (_req, res) => res.end(urlset('https://example.com/'));
+
+    await expect(fetchSitemapUrls(`${base}/old.xml`, options)).rejects.toMatchObject({ code: 'DOMAIN_NOT_ALLOWED' });
+    expect(requests).toEqual([`127.0.0.1:${port}/old.xml`]);
+  });
+
+  it('checks the destination of every hop', async () => {
+    routes['/old.xml'] = (_req, res) => res.writeHead(301, { Location: '/sitemap.xml' }).end();
+    routes['/sitemap.xml'] = (_req, res) => res.end(urlset('https://example.com/'));
+    const checked: string[] = [];
+
+    await fetchSitemapUrls(`${base}/old.xml`, {
+      ...options,
+      checkDestination: async url => { checked.push(new URL(url).pathname); return '127.0.0.1'; }
+    });
+    expect(checked).toEqual(['/old.xml', '/sitemap.xml']);
+  });
+
+  it('gives up after too many redirects', async () => {
+    routes['/loop.xml'] = (_req, res) => res.writeHead(302, { Location: '/loop.xml' }).end();
+
+    await expect(fetchSitemapUrls(`${base}/loop.xml`, options)).rejects.toThrow(/too many redirects/);
+    expect(requests).toHaveLength(6);
+  });
+
+  it('rejects HTTP errors', async () => {
+    await expect(fetchSitemapUrls(`${base}/missing.xml`, options)).rejects.toThrow(/HTTP 404/);
+  });
+
+  it('rejects a declared size over 50MB without reading the body', async () => {
+    routes['/big.xml'] = (_req, res) => {
+      res.writeHead(200, { 'Content-Length': String(51 * MB) });
+      res.write('<urlset>');
+    };
+
+    await expect(fetchSitemapUrls(`${base}/big.xml`, options)).rejects.toThrow(/larger than 50MB/);
+  });
+
+  it('rejects gzip that expands past 50MB', async () => {
+    const bomb = gzipSync(Buffer.alloc(51 * MB, ' '));
+    routes['/bomb.xml.gz'] = (_req, res) => res.end(bomb);
+
+    await expect(fetchSitemapUrls(`${base}/bomb.xml.gz`, options)).rejects.toThrow(/larger than 50MB/);
+  });
+
+  it('rejects corrupt gzip', async () => {
+    routes['/broken.xml.gz'] = (_req, res) => res.end(Buffer.from([0x1f, 0x8b, 0x08, 0x00, 0x01]));
+
+    await expect(fetchSitemapUrls(`${base}/broken.xml.gz`, options)).rejects.toThrow(/not valid gzip/);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIZE, getSizeVariant, parseDimensions, resolveAllowedSize, resolveSize } from '../../src/utils/size.js';
+import { OGFrameError } from '../../src/types.js';
+import type { ApiKey } from '../../src/types.js';
+import { testKey } from '../helpers/apiKey.js';
+
+function rejection(apiKey: ApiKey, params: Parameters<typeof resolveSize>[1]): OGFrameError {
+  try {
+    resolveSize(apiKey, params);
+  } catch (error) {
+    return error as OGFrameError;
+  }
+  throw new Error('Expected resolveSize to throw');
+}
+
+describe('parseDimensions', () => {
+  it('parses WIDTHxHEIGHT within bounds', () => {
+    expect(parseDimensions('1000x500')).toEqual({ width: 1000, height: 500 });
+    expect(parseDimensions('100x2400')).toEqual({ width: 100, height: 2400 });
+  });
+
+  it('rejects malformed and out-of-range sizes', () => {
+    for (const value of ['1000', '1000x', 'x500', '99x500', '2401x500', '1000x500x2', ' 1000x500', '1e3x500']) {
+      expect(parseDimensions(value)).toBeNull();
+    }
+  });
+});
+
+describe('resolveSize', () => {
+  it('defaults to the og preset', () => {
+    expect(resolveSize(testKey(), {})).toEqual(DEFAULT_SIZE);
+    expect(DEFAULT_SIZE).toEqual({ name: 'og', width: 1200, height: 630 });
+  });
+
+  it('only allows og for keys without a whitelist', () => {
+    const error = rejection(testKey(), { size: 'twitter' });
+    expect(error.code).toBe('SIZE_NOT_ALLOWED');
+    expect(error.statusCode).toBe(403);
+    expect(error.details).toEqual({ allowedSizes: ['og'] });
+  });
+
+  it('allows whitelisted presets and dimensions', () => {
+    const apiKey = testKey({ sizes: ['og', 'twitter', '1000x500'] });
+
+    expect(resolveSize(apiKey, { size: 'twitter' })).toEqual({ name: 'twitter', width: 1200, height: 675 });
+    expect(resolveSize(apiKey, { width: '1000', height: '500' })).toEqual({ name: '1000x500', width: 1000, height: 500 });
+    expect(resolveSize(apiKey, { size: '1000x500' })).toEqual({ name: '1000x500', width: 1000, height: 500 });
+    expect(rejection(apiKey, { size: 'square' }).code).toBe('SIZE_NOT_ALLOWED');
+    expect(rejection(apiKey, { width: '1000', height: '501' }).code).toBe('SIZE_NOT_ALLOWED');
+  });
+
+  it('matches presets and dimensions with the same size', () => {
+    expect(resolveSize(testKey({ sizes: ['1200x675'] }), { size: 'twitter' }).name).toBe('twitter');
+    expect(resolveSize(testKey({ sizes: ['square'] }), { width: '1200', height: '1200' }).name).toBe('1200x1200');
+  });
+
+  it('rejects invalid requests before checking the whitelist', () => {
+    const apiKey = testKey({ sizes: ['og'] });
+
+    expect(rejection(apiKey, { size: 'og', width: '1200' }).code).toBe('INVALID_PARAMS');
+    expect(rejection(apiKey, { width: '1200' }).code).toBe('INVALID_SIZE');
+    expect(rejection(apiKey, { width: '50', height: '50' }).code).toBe('INVALID_SIZE');
+    expect(rejection(apiKey, { size: 'huge' }).code).toBe('INVALID_SIZE');
+    expect(rejection(apiKey, { size: 'constructor' }).code).toBe('INVALID_SIZE');
+  });
+
+  it('lets admin keys use any valid size', () => {
+    const admin = testKey({ type: 'admin' });
+
+    expect(resolveSize(admin, { size: 'square' }).height).toBe(1200);
+    expect(resolveSize(admin, { width: '2400', height: '100' }).width).toBe(2400);
+    expect(rejection(admin, { width: '2401', height: '100' }).code).toBe('INVALID_SIZE');
+  });
+});
+
+describe('resolveAllowedSize', () => {
+  it('checks a plain whitelist, or allows any size with null', () => {
+    expect(resolveAllowedSize({ size: 'linkedin' }, null).height).toBe(627);
+    expect(resolveAllowedSize({}, ['og'])).toEqual(DEFAULT_SIZE);
+    expect(() => resolveAllowedSize({ size: 'square' }, ['og'])).toThrow(/not allowed/);
+  });
+});
+
+describe('getSizeVariant', () => {
+  it('has no variant for the default size, whatever its name', () => {
+    expect(getSizeVariant(DEFAULT_SIZE)).toBeUndefined();
+    expect(getSizeVariant({ name: '1200x630', width: 1200, height: 630 })).toBeUndefined();
+    expect(getSizeVariant({ name: 'twitter', width: 1200, height: 675 })).toBe('1200x675');
+  });
+});
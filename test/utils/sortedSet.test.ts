@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { SortedSet } from '../../src/utils/sortedSet.js';
+
+const byNumber = (a: number, b: number) => a - b;
+
+describe('SortedSet', () => {
+  it('iterates in order, whatever the insertion order', () => {
+    const set = new SortedSet(byNumber);
+    for (const n of [5, 1, 4, 2, 3]) set.add(n);
+
+    expect([...set.values()]).toEqual([1, 2, 3, 4, 5]);
+    expect(set.size).toBe(5);
+  });
+
+  it('ignores items equal to one already in the set', () => {
+    const set = new SortedSet(byNumber);
+
+    expect(set.add(1)).toBe(true);
+    expect(set.add(1)).toBe(false);
+    expect(set.size).toBe(1);
+  });
+
+  it('deletes items and reports missing ones', () => {
+    const set = new SortedSet(byNumber);
+    for (const n of [1, 2, 3]) set.add(n);
+
+    expect(set.delete(2)).toBe(true);
+    expect(set.delete(2)).toBe(false);
+    expect([...set.values()]).toEqual([1, 3]);
+    expect(set.size).toBe(2);
+  });
+
+  it('starts iterating at the first item >= from', () => {
+    const set = new SortedSet(byNumber);
+    for (const n of [10, 20, 30]) set.add(n);
+
+    expect([...set.values(20)]).toEqual([20, 30]);
+    expect([...set.values(15)]).toEqual([20, 30]);
+    expect([...set.values(31)]).toEqual([]);
+  });
+
+  it('stays sorted through many random adds and deletes', () => {
+    const set = new SortedSet(byNumber);
+    const expected = new Set<number>();
+
+    for (let i = 0; i < 2000; i++) {
+      const n = Math.floor(Math.random() * 500);
+      if (Math.random() < 0.6) {
+        set.add(n);
+        expected.add(n);
+      } else {
+        set.delete(n);
+        expected.delete(n);
+      }
+    }
+
+    expect([...set.values()]).toEqual([...expected].sort(byNumber));
+    expect(set.size).toBe(expected.size);
+  });
+
+  it('can be cleared', () => {
+    const set = new SortedSet(byNumber);
+    set.add(1);
+    set.clear();
+
+    expect([...set.values()]).toEqual([]);
+    expect(set.size).toBe(0);
+  });
+});
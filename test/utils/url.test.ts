@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { isValidDomainPattern, matchDomain } from '../../src/utils/url.js';
+
+describe('isValidDomainPattern', () => {
+  it('accepts hosts, subdomain wildcards and ports', () => {
+    for (const pattern of ['example.com', '*.example.com', 'localhost', 'localhost:*', 'localhost:3000', '127.0.0.1:*', 'my-site.co.uk']) {
+      expect(isValidDomainPattern(pattern), pattern).toBe(true);
+    }
+  });
+
+  it('rejects what matchDomain() can never match', () => {
+    for (const pattern of [
+      '',
+      'https://example.com',
+      'example.com/blog',
+      'Example.com',
+      'ex ample.com',
+      '*example.com',
+      'sub.*.example.com',
+      '*',
+      '-example.com',
+      'example-.com',
+      'example..com',
+      'example.com:',
+      'example.com:123456'
+    ]) {
+      expect(isValidDomainPattern(pattern), pattern).toBe(false);
+    }
+  });
+
+  it('agrees with matchDomain for valid patterns', () => {
+    expect(matchDomain('blog.example.com', '*.example.com')).toBe(true);
+    expect(matchDomain('example.com', '*.example.com')).toBe(true);
+    expect(matchDomain('badexample.com', '*.example.com')).toBe(false);
+    expect(matchDomain('localhost:3000', 'localhost:*')).toBe(true);
+  });
+});